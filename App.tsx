@@ -1,102 +1,459 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { format, parseISO } from 'date-fns';
-import { Menu, X } from 'lucide-react';
-import { Session } from '@supabase/supabase-js';
+import { Menu, X, AlertCircle, RefreshCw, LineChart, Images, ListChecks } from 'lucide-react';
 
-import { DiaryEntry, AppSettings } from './types';
+import { DiaryEntry, AppSettings, EntryConflict, RecoveredCopy, EntryRevision, SearchFilters, Journal, JournalSettings, Attachment, EntryTemplate } from './types';
 import { 
   loadEntries, 
-  saveEntries, 
+  loadRecoveredCopies,
+  deleteRecoveredCopy,
+  saveRecoveredCopy,
+  describeStorageError,
   loadSettings, 
   saveSettings, 
-  fetchAndMergeEntries, 
-  upsertEntryToSupabase, 
-  deleteEntryFromSupabase
+  pullRemoteChanges,
+  setStorageScope,
+  clearLocalData,
+  enableRemoteSync,
+  pullRemoteSettings,
+  pushSettings,
+  pushRevisions,
+  loadAllRevisions,
+  GUEST_SCOPE
 } from './utils/storage';
-import { supabase } from './utils/supabaseClient';
+import {
+  saveLocalChange,
+  startOutbox,
+  flushOutbox,
+  subscribeEntryUpdates,
+  subscribeConflicts,
+  resolveConflict,
+  getPendingIds,
+  reloadOutbox,
+  reloadConflicts,
+  requeueAllEntries,
+  EditBase
+} from './utils/outbox';
+import { connectRealtime } from './utils/realtime';
+import { createTombstone, isDeleted, getLiveEntries, purgeExpiredTombstones } from './utils/tombstones';
+import { recordRevision, loadHistory, loadDeletedHistory, countWords } from './utils/history';
+import { getSyncBackend } from './utils/backends';
+import { AuthSession } from './utils/syncBackend';
+import { SyncStatus, getSyncStatus, subscribeSyncStatus, setSyncStatusMirror } from './utils/syncStatus';
+import {
+  openTabChannel,
+  postToTabs,
+  subscribeTabs,
+  runAsLeader,
+  reportEditing,
+  subscribeRemoteEditors,
+  RemoteEditor
+} from './utils/tabs';
+import {
+  EncryptionState,
+  WrongPassphraseError,
+  getEncryptionState,
+  subscribeEncryption,
+  whenEncryptionLoaded,
+  refreshEncryption,
+  unlockEncryption,
+  lockEncryption,
+  setEncryptionPassphrase,
+  disableEncryption,
+  verifyPassphrase
+} from './utils/encryption';
+import {
+  AppLockOptions,
+  loadAppLock,
+  setAppLock as saveAppLock,
+  updateAppLockOptions,
+  removeAppLock,
+  verifyAppLock,
+  getLockout
+} from './utils/appLock';
+import { sanitizeHtml } from './utils/sanitize';
+import {
+  addAttachment,
+  AttachmentTooLargeError,
+  attachmentImageHtml,
+  editorHtml,
+  forgetAttachmentUrls,
+  isImageAttachment,
+  releaseAttachments,
+  collectReleasedAttachments,
+  requeueAllAttachments,
+  showAttachmentImages,
+  storeMissingAttachments
+} from './utils/attachments';
+import { sameAttachments } from './utils/merge';
+import { GuestMode, getGuestMode, setGuestMode, attachGuestDiary } from './utils/guest';
 import { formatDateForStorage, formatDateForDisplay } from './utils/dateUtils';
+import { newEntryId, getDayEntries } from './utils/entries';
+import { collectTags, extractHashtags, retagEntry, sameTags } from './utils/tags';
+import { completeDateLinkAtCaret, getBacklinks, getOpenDateLinkQuery, insertDateLinkAtCaret, suggestDateLinks } from './utils/dateLinks';
+import { sameHabits } from './utils/habits';
+import { fillPlaceholders, getDailyPrompt, getWeekdayTemplate, templateHtml } from './utils/templates';
+import {
+  DEFAULT_JOURNAL_ID,
+  getJournals,
+  createJournal,
+  findJournal,
+  getEntryJournalId,
+  filterByJournal,
+  applyJournalSettings
+} from './utils/journals';
 
 import { Sidebar } from './components/Sidebar';
+import { DayTimeline } from './components/DayTimeline';
+import { TagInput } from './components/TagInput';
+import { TagManager } from './components/TagManager';
+import { MoodPicker } from './components/MoodPicker';
+import { MoodTrends } from './components/MoodTrends';
+import { JournalSwitcher, JournalIconView } from './components/JournalSwitcher';
+import { JournalDialog } from './components/JournalDialog';
+import { AttachmentStrip } from './components/AttachmentStrip';
+import { AttachmentGallery } from './components/AttachmentGallery';
+import { TemplatesDialog } from './components/TemplatesDialog';
+import { HabitChecklist } from './components/HabitChecklist';
+import { HabitGrid } from './components/HabitGrid';
+import { DateLinkSuggestions } from './components/DateLinkSuggestions';
+import { BacklinksPanel } from './components/BacklinksPanel';
 import { EditorToolbar } from './components/EditorToolbar';
 import { Button } from './components/Button';
 import { Auth } from './components/Auth';
+import { ConflictDialog } from './components/ConflictDialog';
+import { RecoveredCopies } from './components/RecoveredCopies';
+import { HistoryPanel } from './components/HistoryPanel';
+import { SyncStatusPanel, describeSyncState } from './components/SyncStatusPanel';
+import { SettingsSyncDialog } from './components/SettingsSyncDialog';
+import { SignOutDialog } from './components/SignOutDialog';
+import { EncryptionDialog } from './components/EncryptionDialog';
+import { LockScreen } from './components/LockScreen';
+import { AppLockDialog } from './components/AppLockDialog';
+import { AccountPage } from './components/AccountPage';
+
+// Typing within this window counts as actively editing: remote updates wait behind a notice
+const ACTIVE_EDIT_MS = 10000;
+const IDLE_CHECK_MS = 15000;
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'scroll', 'touchstart'];
 
 const App: React.FC = () => {
   // Auth State
-  const [session, setSession] = useState<Session | null>(null);
+  const [session, setSession] = useState<AuthSession | null>(null);
+  // Without a session the app can still run as a guest (see utils/guest.ts)
+  const [guestMode, setGuestModeState] = useState<GuestMode | null>(getGuestMode());
   const [loadingSession, setLoadingSession] = useState(true);
 
   // App State
   const [currentDate, setCurrentDate] = useState<Date>(new Date());
+  // The entry open in the editor. An id not in `entries` is a new entry that is not saved yet.
+  const [entryId, setEntryId] = useState<string>(newEntryId);
   const [entries, setEntries] = useState<Record<string, DiaryEntry>>({});
   const [settings, setSettings] = useState<AppSettings>(loadSettings());
-  const [searchQuery, setSearchQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>({ query: '', tag: null });
+  const [showTagManager, setShowTagManager] = useState(false);
+  const [showMoodTrends, setShowMoodTrends] = useState(false);
+  // Journal shown in the calendar, search and timeline; null shows all of them
+  const [activeJournal, setActiveJournal] = useState<string | null>(null);
+  const [editingJournal, setEditingJournal] = useState<Journal | 'new' | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(getSyncStatus());
+  const [showSyncPanel, setShowSyncPanel] = useState(false);
+  const [showSettingsSync, setShowSettingsSync] = useState(false);
+  const [encryption, setEncryption] = useState<EncryptionState>(getEncryptionState());
+  const [showEncryption, setShowEncryption] = useState(false);
+  // App lock (utils/appLock.ts): `locked` hides the diary behind the lock screen
+  const [appLock, setAppLock] = useState<AppLockOptions | null>(null);
+  const [locked, setLocked] = useState(false);
+  const [showAppLock, setShowAppLock] = useState(false);
+  const [account, setAccount] = useState<'open' | 'recovery' | null>(null);
+  const [entriesLoaded, setEntriesLoaded] = useState(false);
+  const [conflicts, setConflicts] = useState<EntryConflict[]>([]);
+  const [recoveredCopies, setRecoveredCopies] = useState<RecoveredCopy[]>([]);
+  // A newer version of the open entry that arrived while the user was typing
+  const [remoteUpdate, setRemoteUpdate] = useState<{ entry: DiaryEntry; base: EditBase; from: 'server' | 'tab' } | null>(null);
+  // Only one tab per user talks to the server; the others follow it (see utils/tabs.ts)
+  const [isSyncLeader, setIsSyncLeader] = useState(false);
+  const isSyncLeaderRef = useRef(false);
+  isSyncLeaderRef.current = isSyncLeader;
+  const [remoteEditors, setRemoteEditors] = useState<RemoteEditor[]>([]);
+  const [showSignOut, setShowSignOut] = useState(false);
+  const [history, setHistory] = useState<{ revisions: EntryRevision[]; deleted: EntryRevision[] } | null>(null);
   
   // Editor State
   const [editorContent, setEditorContent] = useState('');
+  const [title, setTitle] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [mood, setMood] = useState<number | null>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [checkedHabits, setCheckedHabits] = useState<string[]>([]);
+  const [showHabits, setShowHabits] = useState(false);
+  const [showGallery, setShowGallery] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  // Autocomplete for a [[date link being typed, placed under the caret
+  const [linkMenu, setLinkMenu] = useState<{ query: string; top: number; left: number } | null>(null);
+  const [linkIndex, setLinkIndex] = useState(0);
+  const [entryJournal, setEntryJournal] = useState<string>(DEFAULT_JOURNAL_ID);
   const [selectionFontSize, setSelectionFontSize] = useState<number | null>(null);
   
   const editorRef = useRef<HTMLDivElement>(null);
+  const diaryRef = useRef<HTMLDivElement>(null);
+  // Latest entries for subscriptions that outlive a render
+  const entriesRef = useRef(entries);
+  entriesRef.current = entries;
+  const lastInputAtRef = useRef(0);
   const dateKey = formatDateForStorage(currentDate);
+  const journals = useMemo(() => getJournals(settings), [settings.journals]);
+  const journalsRef = useRef(journals);
+  journalsRef.current = journals;
+  // Effects key on the user rather than the session object, which changes on every token refresh.
+  // A guest's diary is scoped like a user whose id is GUEST_SCOPE.
+  const isGuest = !session && guestMode === 'active';
+  const userId = session?.user.id ?? (isGuest ? GUEST_SCOPE : null);
+  const entryIdRef = useRef(entryId);
+  entryIdRef.current = entryId;
+  const titleRef = useRef(title);
+  titleRef.current = title;
+  const tagsRef = useRef(tags);
+  tagsRef.current = tags;
+  const moodRef = useRef(mood);
+  moodRef.current = mood;
+  const attachmentsRef = useRef(attachments);
+  attachmentsRef.current = attachments;
+  const checkedHabitsRef = useRef(checkedHabits);
+  checkedHabitsRef.current = checkedHabits;
+  // Where the caret was when the editor lost focus, so toolbar insertions land there
+  const lastRangeRef = useRef<Range | null>(null);
+  const entryJournalRef = useRef(entryJournal);
+  entryJournalRef.current = entryJournal;
+  // What a new entry started from (its weekday template), so leaving it untouched doesn't save it
+  const draftRef = useRef<{ content: string; title: string; tags: string[] }>({ content: '', title: '', tags: [] });
 
   // --- Auth & Init Effect ---
   useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    // The storage scope has to follow the session before any effect reads local data
+    const scopeFor = (session: AuthSession | null) =>
+      session?.user.id ?? (getGuestMode() === 'active' ? GUEST_SCOPE : null);
+
+    // Every session that opens a diary with an app lock starts locked, however it was opened:
+    // a magic or reset link proves the email address, not the right to read this device's diary
+    let openScope: string | null = null;
+    const enterScope = (scope: string | null) => {
+      if (scope && scope !== openScope && loadAppLock(scope)) setLocked(true);
+      openScope = scope;
+    };
+
+    const { auth } = getSyncBackend();
+    auth.getSession().then((session) => {
+      const scope = scopeFor(session);
+      setStorageScope(scope);
       setSession(session);
+      enterScope(scope);
       setLoadingSession(false);
     });
 
-    const {
-      data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
+    // A reset link signs the user in; the new password is chosen once the app is unlocked
+    const stopRecovery = auth.onPasswordRecovery(() => {
+      setAccount('recovery');
+    });
+
+    const stopAuth = auth.onAuthStateChange((session) => {
+      const scope = scopeFor(session);
+      setStorageScope(scope);
       setSession(session);
-      if (!session) {
+      enterScope(scope);
+      if (!scope) {
+        forgetAttachmentUrls();
         setEntries({}); 
+        setEntriesLoaded(false);
+        setAccount(null);
       }
     });
-
-    return () => subscription.unsubscribe();
+    return () => {
+      stopRecovery();
+      stopAuth();
+    };
   }, []);
 
-  // --- Data Loading Effect ---
+  useEffect(() => subscribeSyncStatus(setSyncStatus), []);
+
+  useEffect(() => subscribeEncryption(setEncryption), []);
+
   useEffect(() => {
-    if (!session) return;
+    setAppLock(userId ? loadAppLock(userId) : null);
+    if (!userId) setLocked(false);
+  }, [userId]);
 
-    if (settings.darkMode) {
-      document.documentElement.classList.add('dark');
-    } else {
-      document.documentElement.classList.remove('dark');
+  // Locking drops the focus and selection, so nothing typed or copied reaches the hidden diary
+  useEffect(() => {
+    const diary = diaryRef.current;
+    if (!locked || !diary) return;
+    if (document.activeElement instanceof HTMLElement && diary.contains(document.activeElement)) document.activeElement.blur();
+    const selection = window.getSelection();
+    if (selection && selection.rangeCount > 0 && diary.contains(selection.anchorNode)) selection.removeAllRanges();
+  }, [locked]);
+
+  // Auto-lock after the chosen idle time, and optionally as soon as the tab is hidden
+  useEffect(() => {
+    if (!appLock || locked) return;
+    let lastActivity = Date.now();
+    const handleActivity = () => {
+      lastActivity = Date.now();
+    };
+    const handleVisibility = () => {
+      if (document.hidden && appLock.lockWhenHidden) setLocked(true);
+    };
+    const timer = setInterval(() => {
+      if (appLock.idleMinutes && Date.now() - lastActivity >= appLock.idleMinutes * 60 * 1000) setLocked(true);
+    }, IDLE_CHECK_MS);
+
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      clearInterval(timer);
+      ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [appLock, locked]);
+
+  // An encrypted diary cannot sync until this device knows the passphrase: ask for it once per session
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    whenEncryptionLoaded().then(() => {
+      const state = getEncryptionState();
+      if (!cancelled && state.enabled && !state.unlocked) setShowEncryption(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) {
+      setConflicts([]);
+      return;
     }
+    return subscribeConflicts(setConflicts);
+  }, [userId]);
 
-    // Use div for paragraphs to avoid default block margin issues
-    document.execCommand('defaultParagraphSeparator', false, 'div');
+  // Join the user's other tabs and compete to become the one that syncs
+  useEffect(() => {
+    if (!userId) return;
+    const leaveTabs = openTabChannel(userId);
+    postToTabs({ type: 'sync-status-request' });
+    const stopLeading = runAsLeader(userId, () => {
+      setSyncStatusMirror(null);
+      setIsSyncLeader(true);
+      return () => setIsSyncLeader(false);
+    });
+    return () => {
+      stopLeading();
+      leaveTabs();
+    };
+  }, [userId]);
 
-    const localData = loadEntries();
-    setEntries(localData);
-    
-    fetchAndMergeEntries(localData).then(mergedData => {
-      if (JSON.stringify(mergedData) !== JSON.stringify(localData)) {
-        setEntries(mergedData);
-        saveEntries(mergedData);
-        
-        const updatedCurrentEntry = mergedData[dateKey];
-        if (updatedCurrentEntry) {
-          setEditorContent(updatedCurrentEntry.content);
-          if (editorRef.current) {
-            editorRef.current.innerHTML = updatedCurrentEntry.content;
-          }
-        }
+  useEffect(() => {
+    return subscribeTabs(message => {
+      switch (message.type) {
+        case 'entries':
+          receiveEntries(message.entries, 'tab');
+          break;
+        case 'outbox':
+          if (isSyncLeaderRef.current) reloadOutbox().catch(handleStorageError);
+          break;
+        case 'conflicts':
+          reloadConflicts().catch(err => console.error('Failed to load conflicts', err));
+          break;
+        case 'sync-status':
+          if (!isSyncLeaderRef.current) setSyncStatusMirror(message.status);
+          break;
+        case 'sync-status-request':
+          if (isSyncLeaderRef.current) postToTabs({ type: 'sync-status', status: getSyncStatus() });
+          break;
+        case 'encryption':
+          refreshEncryption()
+            .then(() => isSyncLeaderRef.current && resumeSyncAfterKeyChange(message.requeue))
+            .catch(handleStorageError);
+          break;
       }
     });
+  }, []);
+
+  useEffect(() => subscribeRemoteEditors(setRemoteEditors), []);
+
+  // The leader shares its sync status so every tab shows the same thing
+  useEffect(() => {
+    if (!isSyncLeader) return;
+    return subscribeSyncStatus(status => postToTabs({ type: 'sync-status', status }));
+  }, [isSyncLeader]);
+
+  // Replay queued changes while signed in (covers app start and session restore)
+  useEffect(() => {
+    if (!userId || !isSyncLeader) return;
+    return startOutbox();
+  }, [userId, isSyncLeader]);
+
+  // Live changes from other devices; after a reconnect, fetch whatever was missed
+  useEffect(() => {
+    if (!userId || isGuest || !isSyncLeader) return;
+    return connectRealtime(getSyncBackend().changes(userId), () => {
+      pullRemoteEntries().catch(handleStorageError);
+    });
+  }, [userId, isSyncLeader]);
 
+  // The leader catches up with the server once local entries are on screen
+  useEffect(() => {
+    if (!userId || !isSyncLeader || !entriesLoaded) return;
+
+    (async () => {
+      await pullRemoteEntries();
+      const purged = await purgeExpiredTombstones(await loadEntries());
+      if (purged.length > 0) {
+        setEntries(prev => {
+          const next = { ...prev };
+          purged.forEach(id => delete next[id]);
+          return next;
+        });
+      }
+    })().catch(handleStorageError);
+  }, [userId, isSyncLeader, entriesLoaded]);
+
+  // --- Data Loading Effect ---
+  useEffect(() => {
+    if (!userId) return;
+
+    // Use div for paragraphs to avoid default block margin issues
+    document.execCommand('defaultParagraphSeparator', false, 'div');
+
+    loadEntries().then(localData => {
+      setEntries(localData);
+      setEntriesLoaded(true);
+      // Loading may have queued entries migrated from older versions
+      if (isSyncLeaderRef.current) reloadOutbox().catch(handleStorageError);
+      // Files released in an earlier session (flushes do this too, but guests never flush)
+      return collectReleasedAttachments();
+    }).catch(handleStorageError);
+
+    // Each account keeps its own settings
+    const userSettings = loadSettings();
     const defaultLightColor = '#111827';
     const defaultDarkColor = '#F3F4F6';
-    if (settings.darkMode && settings.editorColor === defaultLightColor) {
-      setSettings(prev => ({ ...prev, editorColor: defaultDarkColor }));
+    if (userSettings.darkMode && userSettings.editorColor === defaultLightColor) {
+      userSettings.editorColor = defaultDarkColor;
     }
-  }, [session]);
+    setSettings(userSettings);
+
+    // Then whatever the account has (newer changes from other devices win)
+    pullRemoteSettings()
+      .then(remoteSettings => {
+        if (remoteSettings) setSettings(remoteSettings);
+      })
+      .catch(err => console.error('Failed to sync settings', err));
+  }, [userId]);
 
   // Update theme when settings change
   useEffect(() => {
@@ -108,65 +465,228 @@ const App: React.FC = () => {
     saveSettings(settings);
   }, [settings]);
 
-  // Load entry into editor when date changes
+  // The editor's content as it is saved (attachment images without their display URLs)
+  const readEditor = () => editorHtml(editorRef.current);
+
+  // Everything shown in the editor goes through here, so it is sanitized here too
+  const loadIntoEditor = (html: string) => {
+    const content = sanitizeHtml(html);
+    setEditorContent(content);
+    if (editorRef.current && readEditor() !== content) {
+      editorRef.current.innerHTML = content;
+      showAttachmentImages(editorRef.current);
+    }
+  };
+
+  // Opening a day shows its latest entry in the active journal, or a new one if there is none.
+  // An entry of that day that was opened explicitly (e.g. from search) stays open.
+  useEffect(() => {
+    const day = getDayEntries(filterByJournal(entriesRef.current, journals, activeJournal), dateKey);
+    setEntryId(current =>
+      day.some(entry => entry.id === current) ? current : day.length > 0 ? day[day.length - 1].id : newEntryId()
+    );
+  }, [dateKey, activeJournal, entriesLoaded]);
+
+  // Load entry into editor when another entry is opened (or once entries are loaded).
+  // Later changes to `entries` come from the editor itself or are applied explicitly,
+  // so re-running on every change would only reset the caret while typing.
   useEffect(() => {
-    const entry = entries[dateKey];
-    if (entry) {
-      setEditorContent(entry.content);
-      if (editorRef.current) {
-        editorRef.current.innerHTML = entry.content;
+    const entry = entries[entryId];
+    const live = entry && !isDeleted(entry);
+    const template = !entry ? getWeekdayTemplate(settings.templates, dateKey) : null;
+    draftRef.current = template
+      ? { content: sanitizeHtml(templateHtml(template, dateKey)), title: fillPlaceholders(template.title, dateKey).trim(), tags: template.tags }
+      : { content: '', title: '', tags: [] };
+    loadIntoEditor(live ? entry.content : draftRef.current.content);
+    setTitle(live ? entry.title ?? '' : draftRef.current.title);
+    setTags(live ? entry.tags : draftRef.current.tags);
+    setMood(live ? entry.mood ?? null : null);
+    setAttachments(live ? entry.attachments ?? [] : []);
+    setCheckedHabits(live ? entry.habits ?? [] : []);
+    // New entries go to the journal on screen (the default one when showing all)
+    setEntryJournal(live ? getEntryJournalId(entry, journals) : activeJournal ?? DEFAULT_JOURNAL_ID);
+  }, [entryId, entriesLoaded]);
+
+  // Applies entries that changed outside the editor (server fetch, realtime, merges).
+  // The open entry is swapped in directly unless the user is typing in it, in which
+  // case the new version waits behind a notice and the next save merges against it.
+  const receiveEntries = (incoming: DiaryEntry[], from: 'server' | 'tab' = 'server') => {
+    const current = incoming.find(entry => entry.id === entryIdRef.current);
+    if (current) {
+      const previous = entriesRef.current[current.id];
+      // Title, tags, mood, attachments, habits and journal follow the incoming version unless they were edited here
+      if ((previous?.title ?? '') === titleRef.current.trim()) {
+        setTitle(isDeleted(current) ? '' : current.title ?? '');
       }
-    } else {
-      setEditorContent('');
-      if (editorRef.current) {
-        editorRef.current.innerHTML = '';
+      if (sameTags(previous?.tags ?? [], tagsRef.current)) {
+        setTags(isDeleted(current) ? [] : current.tags);
+      }
+      if ((previous?.mood ?? null) === moodRef.current) {
+        setMood(isDeleted(current) ? null : current.mood ?? null);
+      }
+      if (sameAttachments(previous?.attachments, attachmentsRef.current)) {
+        setAttachments(isDeleted(current) ? [] : current.attachments ?? []);
+      }
+      if (sameHabits(previous?.habits, checkedHabitsRef.current)) {
+        setCheckedHabits(isDeleted(current) ? [] : current.habits ?? []);
+      }
+      if (previous && getEntryJournalId(previous, journalsRef.current) === entryJournalRef.current && !isDeleted(current)) {
+        setEntryJournal(getEntryJournalId(current, journalsRef.current));
+      }
+
+      const previousContent = previous && !isDeleted(previous) ? previous.content : '';
+      const incomingContent = isDeleted(current) ? '' : current.content;
+      const editorHtml = readEditor();
+
+      const hasUnsavedTyping = editorHtml !== previousContent;
+      const recentlyTyped = Date.now() - lastInputAtRef.current < ACTIVE_EDIT_MS
+        && document.activeElement === editorRef.current;
+
+      if (incomingContent === editorHtml) {
+        setRemoteUpdate(null);
+      } else if (incomingContent === previousContent) {
+        // Only the revision metadata changed (e.g. our own save was uploaded)
+      } else if (!hasUnsavedTyping && !recentlyTyped) {
+        loadIntoEditor(incomingContent);
+      } else {
+        // Keep the oldest base: that is the version the typing actually started from
+        setRemoteUpdate(prev => ({
+          entry: current,
+          base: prev ? prev.base : { rev: previous?.rev, baseContent: previousContent },
+          from
+        }));
       }
     }
-  }, [dateKey, entries]);
+
+    setEntries(prev => {
+      const next = { ...prev };
+      incoming.forEach(entry => {
+        next[entry.id] = entry;
+      });
+      return next;
+    });
+  };
+
+  // Fetches server changes since the last sync into the local store and the UI, page by page
+  const pullRemoteEntries = async () => {
+    return pullRemoteChanges(await getPendingIds(), pulled => {
+      receiveEntries(pulled);
+      postToTabs({ type: 'entries', entries: pulled });
+    });
+  };
+
+  // Entries rewritten by sync: new revisions, auto-merged content, resolved conflicts, realtime
+  useEffect(() => {
+    return subscribeEntryUpdates(updated => receiveEntries([updated]));
+  }, []);
+
+  useEffect(() => {
+    setRemoteUpdate(null);
+  }, [entryId]);
+
+  useEffect(() => {
+    refreshRecoveredCopies();
+  }, [entryId, conflicts]);
+
+  const handleStorageError = (error: unknown) => {
+    console.error('Local storage error', error);
+    setStorageError(describeStorageError(error));
+  };
 
   // Save logic
   const handleSave = useCallback(() => {
     setSaving(true);
-    const content = editorRef.current?.innerHTML || '';
+    const content = readEditor();
+    const stored = entries[entryId];
     
     const newEntry: DiaryEntry = {
-      id: dateKey,
-      date: dateKey,
+      id: entryId,
+      date: stored?.date ?? dateKey,
+      title: title.trim() || undefined,
       content,
-      tags: [],
+      tags,
+      mood,
+      journalId: entryJournal,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      habits: checkedHabits.length > 0 ? checkedHabits : undefined,
+      // Day-keyed entries have none and keep it that way, so they stay first in their day
+      createdAt: stored && !isDeleted(stored) ? stored.createdAt : Date.now(),
       updatedAt: Date.now()
     };
 
-    const newEntries = { ...entries, [dateKey]: newEntry };
+    // The version being replaced goes into the history (spaced out, see utils/history.ts)
+    recordRevision(stored, { sync: settings.syncHistory })
+      .catch(err => console.error('Failed to record revision', err));
+
+    const newEntries = { ...entries, [entryId]: newEntry };
     setEntries(newEntries);
-    saveEntries(newEntries); 
-    
-    if (session) {
-      upsertEntryToSupabase(newEntry).then(() => {
-          setSaving(false);
-      }).catch(() => {
-          setSaving(false);
-      });
-    } else {
-      setSaving(false);
-    }
-    
-  }, [dateKey, entries, session]);
+
+    // Typing that started before a remote update is saved against its original base,
+    // so the sync engine merges both versions instead of overwriting the remote one
+    const base = remoteUpdate?.entry.id === entryId ? remoteUpdate.base : undefined;
+    setRemoteUpdate(null);
+
+    saveLocalChange(newEntry, base)
+      .then(saved => {
+        // Merged with an edit another tab saved meanwhile: show the combined text, or if the
+        // user kept typing, keep it as the base the next save merges against
+        if (saved.content !== content) {
+          const typedSince = readEditor() !== content;
+          if (typedSince) {
+            setRemoteUpdate({ entry: saved, base: { rev: saved.rev, baseContent: content }, from: 'tab' });
+          } else {
+            loadIntoEditor(saved.content);
+          }
+        }
+        // Overlapping edits from another tab are kept as a recovered copy
+        if (base) refreshRecoveredCopies();
+        // Pick up the revision metadata unless the entry changed again meanwhile
+        setEntries(prev => prev[saved.id] === newEntry ? { ...prev, [saved.id]: saved } : prev);
+      })
+      .catch(handleStorageError)
+      .finally(() => setSaving(false));
+  }, [entryId, dateKey, title, tags, mood, attachments, checkedHabits, entryJournal, entries, remoteUpdate, settings.syncHistory]);
+
+  const hasUnsavedChanges = () => {
+    const stored = entries[entryId];
+    const base = stored ?? draftRef.current;
+    const contentChanged = readEditor() !== (base.content || '');
+    const titleChanged = title.trim() !== (base.title ?? '');
+    const tagsChanged = !sameTags(tags, base.tags);
+    const moodChanged = mood !== (stored?.mood ?? null);
+    const attachmentsChanged = !sameAttachments(attachments, stored?.attachments);
+    const habitsChanged = !sameHabits(checkedHabits, stored?.habits);
+    // A new entry is not saved just because it has a journal
+    const journalChanged = !!stored && getEntryJournalId(stored, journals) !== entryJournal;
+    return !!editorRef.current && (contentChanged || titleChanged || tagsChanged || moodChanged || attachmentsChanged || habitsChanged || journalChanged);
+  };
 
   // Auto-save debounce
   useEffect(() => {
     const timer = setTimeout(() => {
-      const currentStored = entries[dateKey];
-      const currentHtml = editorRef.current?.innerHTML || '';
-      
-      const contentChanged = currentHtml !== (currentStored?.content || '');
-
-      if (editorRef.current && contentChanged) {
+      if (hasUnsavedChanges()) {
         handleSave();
       }
     }, 2000);
     return () => clearTimeout(timer);
-  }, [editorContent, handleSave, dateKey, entries]);
+  }, [editorContent, title, tags, mood, attachments, checkedHabits, entryJournal, handleSave, entryId, entries]);
+
+  // Switching entries saves pending typing first instead of waiting for the autosave
+  const openEntry = (id: string, date?: Date) => {
+    if (id !== entryId && hasUnsavedChanges()) handleSave();
+    setEntryId(id);
+    if (date) setCurrentDate(date);
+  };
+
+  const handleDateSelect = (date: Date) => {
+    if (hasUnsavedChanges()) handleSave();
+    setCurrentDate(date);
+  };
+
+  const handleNewEntry = () => {
+    openEntry(newEntryId());
+    editorRef.current?.focus();
+  };
 
   // --- Font Size & Formatting Logic ---
 
@@ -269,7 +789,7 @@ const App: React.FC = () => {
     } else {
       // === CURSOR MODE (NO SELECTION) ===
       // Update global setting for FUTURE typing
-      updateSetting('editorFontSize', size);
+      handleEditorSettingChange('editorFontSize', size);
       setSelectionFontSize(size);
 
       // Insert invisible character with new style to force browser to adopt it
@@ -292,7 +812,7 @@ const App: React.FC = () => {
     }
     
     // Force React sync
-    setEditorContent(editorRef.current.innerHTML);
+    setEditorContent(readEditor());
     editorRef.current.focus();
   };
 
@@ -303,7 +823,154 @@ const App: React.FC = () => {
       document.execCommand(command, false, value);
       editorRef.current?.focus();
       checkSelectionStyle();
-      setEditorContent(editorRef.current?.innerHTML || '');
+      setEditorContent(readEditor());
+    }
+  };
+
+  // Inserts markup where the caret was last in the editor (at the end if it never was there)
+  const insertIntoEditor = (html: string) => {
+    const editor = editorRef.current;
+    const selection = window.getSelection();
+    if (!editor || !selection) return;
+    editor.focus();
+    const range = lastRangeRef.current;
+    if (range && editor.contains(range.startContainer)) {
+      selection.removeAllRanges();
+      selection.addRange(range);
+    } else {
+      selection.selectAllChildren(editor);
+      selection.collapseToEnd();
+    }
+    document.execCommand('insertHTML', false, html);
+  };
+
+  const handleToggleHabit = (habitId: string) => {
+    setCheckedHabits(prev => (prev.includes(habitId) ? prev.filter(id => id !== habitId) : [...prev, habitId]));
+  };
+
+  // Shows the date autocomplete while a [[link is typed before the caret
+  const updateLinkMenu = () => {
+    const query = getOpenDateLinkQuery();
+    const selection = window.getSelection();
+    if (query === null || !selection || selection.rangeCount === 0) {
+      setLinkMenu(null);
+      return;
+    }
+    const rect = selection.getRangeAt(0).getBoundingClientRect();
+    if (linkMenu?.query !== query) setLinkIndex(0);
+    setLinkMenu({ query, top: rect.bottom + 4, left: rect.left });
+  };
+
+  const handlePickDateLink = (date: string) => {
+    if (insertDateLinkAtCaret(date)) setEditorContent(readEditor());
+    setLinkMenu(null);
+  };
+
+  const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!linkMenu || linkSuggestions.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setLinkIndex((linkIndex + step + linkSuggestions.length) % linkSuggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      handlePickDateLink(linkSuggestions[Math.min(linkIndex, linkSuggestions.length - 1)].date);
+    } else if (e.key === 'Escape') {
+      setLinkMenu(null);
+    }
+  };
+
+  // Date links open their day; other clicks only move the caret
+  const handleEditorClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const date = (e.target as HTMLElement).closest('a[data-date-link]')?.getAttribute('data-date-link');
+    if (date) {
+      handleDateSelect(parseISO(date));
+      return;
+    }
+    checkSelectionStyle();
+    updateLinkMenu();
+  };
+
+  // Fills an empty entry with the template, or inserts its text at the caret. The title is only
+  // set when there is none yet; the template's tags are added to the entry's.
+  const handleApplyTemplate = (template: EntryTemplate) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    const html = templateHtml(template, dateKey);
+    if (!editor.textContent?.trim() && !editor.querySelector('img')) {
+      editor.innerHTML = sanitizeHtml(html);
+    } else {
+      insertIntoEditor(html);
+    }
+    setEditorContent(readEditor());
+    const templateTitle = fillPlaceholders(template.title, dateKey).trim();
+    if (!title.trim() && templateTitle) setTitle(templateTitle);
+    setTags(prev => Array.from(new Set([...prev, ...template.tags])));
+    lastInputAtRef.current = Date.now();
+  };
+
+  // Stores the files and adds them to the open entry: images also go into the text at the caret
+  const handleAttachFiles = async (files: File[]) => {
+    const targetId = entryId;
+    const added: Attachment[] = [];
+    for (const file of files) {
+      try {
+        added.push(await addAttachment(file));
+      } catch (err) {
+        console.error('Failed to attach file', err);
+        setStorageError(err instanceof AttachmentTooLargeError ? err.message : `"${file.name}" could not be attached.`);
+      }
+    }
+    if (added.length === 0) return;
+    // Another entry was opened while the files were being prepared
+    if (entryIdRef.current !== targetId) {
+      releaseAttachments(added.map(attachment => attachment.id)).catch(handleStorageError);
+      return;
+    }
+
+    const images = added.filter(isImageAttachment);
+    if (images.length > 0 && editorRef.current) {
+      insertIntoEditor(images.map(attachmentImageHtml).join(''));
+      showAttachmentImages(editorRef.current);
+      setEditorContent(readEditor());
+    }
+    setAttachments(prev => [...prev, ...added]);
+  };
+
+  // Takes the attachment out of the entry (and the text); its file goes once nothing shows it
+  const handleRemoveAttachment = (attachment: Attachment) => {
+    editorRef.current?.querySelectorAll(`img[data-attachment="${attachment.id}"]`).forEach(image => image.remove());
+    setEditorContent(readEditor());
+    setAttachments(prev => prev.filter(item => item.id !== attachment.id));
+    releaseAttachments([attachment.id]).catch(handleStorageError);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    const files = Array.from(e.dataTransfer.files) as File[];
+    if (files.length === 0) return;
+    e.preventDefault();
+    const range = document.caretRangeFromPoint?.(e.clientX, e.clientY);
+    if (range) lastRangeRef.current = range;
+    handleAttachFiles(files);
+  };
+
+  // Pasted HTML keeps only GrayNote's own formatting; scripts, styles and foreign images are dropped.
+  // Pasted files (e.g. a screenshot) are attached.
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const files = Array.from(e.clipboardData.files) as File[];
+    if (files.length > 0) {
+      const selection = window.getSelection();
+      if (selection && selection.rangeCount > 0) lastRangeRef.current = selection.getRangeAt(0);
+      handleAttachFiles(files);
+      return;
+    }
+    const html = e.clipboardData.getData('text/html');
+    const text = e.clipboardData.getData('text/plain');
+    if (html) {
+      document.execCommand('insertHTML', false, sanitizeHtml(html));
+    } else if (text) {
+      document.execCommand('insertText', false, text);
     }
   };
 
@@ -318,23 +985,380 @@ const App: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
+  // What the editor shows right now, including typing the autosave has not picked up yet
+  const editorVersion = (): DiaryEntry | undefined => {
+    const stored = entries[entryId];
+    const content = readEditor();
+    if (stored && !isDeleted(stored) && stored.content === content) return stored;
+    return content ? { id: entryId, date: dateKey, content, tags, updatedAt: Date.now() } : undefined;
+  };
+
   const handleDelete = () => {
-    if (window.confirm('Are you sure you want to clear this entry?')) {
-      const { [dateKey]: deleted, ...rest } = entries;
-      setEntries(rest);
-      saveEntries(rest); 
-      if (session) {
-        deleteEntryFromSupabase(dateKey); 
+    if (window.confirm('Are you sure you want to delete this entry?')) {
+      recordRevision(editorVersion(), { force: true, sync: settings.syncHistory })
+        .catch(err => console.error('Failed to record revision', err));
+
+      // Keep a tombstone instead of removing the entry so the deletion syncs too
+      const tombstone = createTombstone(currentEditorEntry());
+      const newEntries = { ...entries, [entryId]: tombstone };
+      setEntries(newEntries);
+      saveLocalChange(tombstone).catch(handleStorageError);
+      // Its files go with it, once the history kept above no longer shows them
+      const files = [...(entries[entryId]?.attachments ?? []), ...attachments].map(attachment => attachment.id);
+      releaseAttachments([...new Set(files)]).catch(handleStorageError);
+
+      // Move on to the day's latest remaining entry (or a new one)
+      const remaining = getDayEntries(newEntries, dateKey);
+      setEntryId(remaining.length > 0 ? remaining[remaining.length - 1].id : newEntryId());
+    }
+  };
+
+  // The open entry with everything typed so far, for changes that rewrite it right away
+  const currentEditorEntry = (): DiaryEntry => {
+    const open = entries[entryId];
+    return {
+      ...(open && !isDeleted(open) ? open : { id: entryId, date: dateKey, createdAt: Date.now() }),
+      title: title.trim() || undefined,
+      content: readEditor(),
+      tags,
+      mood,
+      journalId: entryJournal,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      habits: checkedHabits.length > 0 ? checkedHabits : undefined,
+      updatedAt: Date.now()
+    };
+  };
+
+  // Stores entries rewritten outside the editor, often several at once
+  const saveRewrittenEntries = (updated: DiaryEntry[]) => {
+    setEntries(prev => {
+      const next = { ...prev };
+      updated.forEach(entry => {
+        next[entry.id] = entry;
+      });
+      return next;
+    });
+    Promise.all(updated.map(entry => saveLocalChange(entry))).catch(handleStorageError);
+  };
+
+  // Renames a tag in every entry (merging it into `to` if that exists), or removes it with
+  // `to` null. The open entry is taken as it stands in the editor, so unsaved typing is kept.
+  const handleRetag = (from: string, to: string | null) => {
+    const candidates = { ...getLiveEntries(entries), [entryId]: currentEditorEntry() };
+    const updated = (Object.values(candidates) as DiaryEntry[])
+      .map(entry => retagEntry(entry, from, to))
+      .filter((entry): entry is DiaryEntry => !!entry);
+    if (updated.length === 0) return;
+
+    updated.forEach(entry => {
+      if (entry.content !== candidates[entry.id].content) {
+        recordRevision(entries[entry.id], { sync: settings.syncHistory })
+          .catch(err => console.error('Failed to record revision', err));
       }
-      
-      setEditorContent('');
-      if (editorRef.current) editorRef.current.innerHTML = '';
+    });
+    saveRewrittenEntries(updated);
+
+    const openUpdated = updated.find(entry => entry.id === entryId);
+    if (openUpdated) {
+      loadIntoEditor(openUpdated.content);
+      setTags(openUpdated.tags);
+    }
+    if (filters.tag === from) setFilters({ ...filters, tag: to });
+  };
+
+  // Pending typing is saved first, since the view may switch to another entry
+  const handleSelectJournal = (id: string | null) => {
+    if (hasUnsavedChanges()) handleSave();
+    setActiveJournal(id);
+  };
+
+  // Moves the open entry right away, so the journal view can follow it there
+  const handleMoveEntry = (journalId: string) => {
+    setEntryJournal(journalId);
+    const moved = { ...currentEditorEntry(), journalId };
+    if (entries[entryId] || moved.content) saveRewrittenEntries([moved]);
+    if (activeJournal) setActiveJournal(journalId);
+  };
+
+  const handleSaveJournal = (fields: Pick<Journal, 'name' | 'color' | 'icon' | 'settings'>) => {
+    if (editingJournal === 'new') {
+      const journal = createJournal(fields);
+      updateSetting('journals', [...journals, journal]);
+      handleSelectJournal(journal.id);
+    } else if (editingJournal) {
+      updateSetting('journals', journals.map(j => (j.id === editingJournal.id ? { ...j, ...fields } : j)));
+    }
+    setEditingJournal(null);
+  };
+
+  // The journal's entries move to the default journal rather than being deleted with it
+  const handleDeleteJournal = (journal: Journal) => {
+    const orphaned = (Object.values(getLiveEntries(entries)) as DiaryEntry[])
+      .filter(entry => getEntryJournalId(entry, journals) === journal.id)
+      .map(entry => (entry.id === entryId ? currentEditorEntry() : entry))
+      .map(entry => ({ ...entry, journalId: DEFAULT_JOURNAL_ID, updatedAt: Date.now() }));
+    if (orphaned.length > 0) saveRewrittenEntries(orphaned);
+
+    updateSetting('journals', journals.filter(j => j.id !== journal.id));
+    if (entryJournal === journal.id) setEntryJournal(DEFAULT_JOURNAL_ID);
+    if (activeJournal === journal.id) setActiveJournal(null);
+    setEditingJournal(null);
+  };
+
+  // Toolbar changes to a setting the open entry's journal sets apply to the journal
+  const handleEditorSettingChange = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
+    const journal = findJournal(journals, entryJournal);
+    if (key in journal.settings) {
+      const settings: JournalSettings = { ...journal.settings, [key]: value };
+      updateSetting('journals', journals.map(j => (j.id === journal.id ? { ...j, settings } : j)));
+    } else {
+      updateSetting(key, value);
+    }
+  };
+
+  const handleLoadRemoteUpdate = () => {
+    if (!remoteUpdate) return;
+    if (!window.confirm('Discard your unsaved changes and show the latest version?')) return;
+
+    loadIntoEditor(isDeleted(remoteUpdate.entry) ? '' : remoteUpdate.entry.content);
+    setRemoteUpdate(null);
+  };
+
+  const refreshRecoveredCopies = () => {
+    loadRecoveredCopies(entryId)
+      .then(setRecoveredCopies)
+      .catch(err => console.error('Failed to load recovered copies', err));
+  };
+
+  const handleResolveConflict = (keep: 'local' | 'remote') => {
+    if (conflicts.length === 0) return;
+    resolveConflict(conflicts[0].id, keep).catch(handleStorageError);
+  };
+
+  // Swap a recovered copy in; what was in the editor becomes a recovered copy itself
+  const handleRestoreCopy = async (copy: RecoveredCopy) => {
+    const currentContent = readEditor();
+    try {
+      if (currentContent) {
+        await saveRecoveredCopy({
+          id: `${entryId}:${Date.now()}`,
+          entryId,
+          date: dateKey,
+          content: currentContent,
+          source: 'local',
+          savedAt: Date.now()
+        });
+      }
+      await deleteRecoveredCopy(copy.id);
+    } catch (error) {
+      handleStorageError(error);
+      return;
+    }
+    loadIntoEditor(copy.content);
+    handleSave();
+    refreshRecoveredCopies();
+  };
+
+  // The open entry's versions, and those of the day's deleted entries so a delete can be undone
+  const showHistory = (sync: boolean) => {
+    Promise.all([loadHistory(entryId, sync), loadDeletedHistory(dateKey, entries, sync)])
+      .then(([revisions, deleted]) => setHistory({ revisions, deleted }))
+      .catch(handleStorageError);
+  };
+
+  const handleShowHistory = () => showHistory(settings.syncHistory);
+
+  // The text being replaced is kept in the history, so a restore can itself be undone
+  const handleRestoreRevision = async (revision: EntryRevision) => {
+    try {
+      await recordRevision(editorVersion(), { force: true, sync: settings.syncHistory });
+    } catch (error) {
+      handleStorageError(error);
+      return;
+    }
+    setHistory(null);
+    loadIntoEditor(revision.content);
+    handleSave();
+  };
+
+  // Brings a deleted entry back with the chosen version's text, under its own id so the
+  // restore replaces the tombstone everywhere
+  const handleRestoreDeletedEntry = (revision: EntryRevision) => {
+    // The tombstone kept the entry's other fields; it is gone once purged, and so are they
+    const tombstone = entries[revision.entryId];
+    const restored: DiaryEntry = {
+      ...tombstone,
+      id: revision.entryId,
+      date: revision.date,
+      content: revision.content,
+      tags: tombstone?.tags ?? [],
+      journalId: tombstone ? tombstone.journalId : activeJournal ?? undefined,
+      createdAt: tombstone?.createdAt ?? revision.savedAt,
+      updatedAt: Date.now(),
+      deletedAt: null,
+    };
+    setHistory(null);
+    saveRewrittenEntries([restored]);
+    openEntry(restored.id, parseISO(restored.date));
+  };
+
+  const handleToggleHistorySync = (enabled: boolean) => {
+    updateSetting('syncHistory', enabled);
+    // Upload what this device already has for the open entry
+    if (enabled) showHistory(true);
+  };
+
+  const handleDiscardCopy = (copy: RecoveredCopy) => {
+    if (!window.confirm('Discard this recovered copy? This cannot be undone.')) return;
+    deleteRecoveredCopy(copy.id)
+      .then(refreshRecoveredCopies)
+      .catch(handleStorageError);
+  };
+
+  const handleRetrySync = () => {
+    enableRemoteSync();
+    pushSettings();
+    refreshEncryption().then(() => {
+      flushOutbox();
+      pullRemoteEntries().catch(handleStorageError);
+    });
+  };
+
+  // Runs in the sync leader once the key changed in any tab. With `requeue`, everything is
+  // uploaded again so the server copy matches the new key (or is plain text again).
+  const resumeSyncAfterKeyChange = async (requeue: boolean) => {
+    if (requeue) {
+      await requeueAllEntries();
+      await requeueAllAttachments();
+      if (loadSettings().syncHistory) await pushRevisions(await loadAllRevisions());
+    }
+    flushOutbox();
+    await pullRemoteEntries();
+  };
+
+  const afterKeyChange = async (requeue: boolean) => {
+    postToTabs({ type: 'encryption', requeue });
+    if (isSyncLeaderRef.current) resumeSyncAfterKeyChange(requeue).catch(handleStorageError);
+  };
+
+  // Files are re-uploaded under a new key from local copies, so fetch the ones this device lacks first
+  const prepareKeyChange = () => storeMissingAttachments(Object.values(getLiveEntries(entriesRef.current)) as DiaryEntry[]);
+
+  const handleSetPassphrase = async (passphrase: string) => {
+    await prepareKeyChange();
+    await setEncryptionPassphrase(passphrase);
+    await afterKeyChange(true);
+  };
+
+  const handleUnlock = async (passphrase: string) => {
+    await unlockEncryption(passphrase);
+    await afterKeyChange(false);
+  };
+
+  const handleChangePassphrase = async (current: string, next: string) => {
+    if (!(await verifyPassphrase(current))) throw new WrongPassphraseError();
+    await prepareKeyChange();
+    await setEncryptionPassphrase(next);
+    await afterKeyChange(true);
+  };
+
+  const handleDisableEncryption = async (current: string) => {
+    if (!(await verifyPassphrase(current))) throw new WrongPassphraseError();
+    await prepareKeyChange();
+    await disableEncryption();
+    await afterKeyChange(true);
+  };
+
+  const handleLockEncryption = async () => {
+    await lockEncryption();
+    postToTabs({ type: 'encryption', requeue: false });
+  };
+
+  const handleAppUnlock = async (secret: string) => {
+    const result = userId ? await verifyAppLock(userId, secret) : { ok: true as const };
+    if (result.ok) setLocked(false);
+    return result;
+  };
+
+  const handleSaveAppLock = async (secret: string, options: AppLockOptions) => {
+    if (!userId) return;
+    await saveAppLock(userId, secret, options);
+    setAppLock(loadAppLock(userId));
+  };
+
+  const handleChangeAppLockOptions = (options: Pick<AppLockOptions, 'idleMinutes' | 'lockWhenHidden'>) => {
+    if (!userId) return;
+    updateAppLockOptions(userId, options);
+    setAppLock(loadAppLock(userId));
+  };
+
+  const handleRemoveAppLock = () => {
+    if (!userId) return;
+    removeAppLock(userId);
+    setAppLock(null);
+  };
+
+  const handleLockNow = () => {
+    setShowAppLock(false);
+    setLocked(true);
+  };
+
+  const handleDeleteAccount = async () => {
+    const deletedUser = userId;
+    await getSyncBackend().auth.deleteAccount();
+    setEntries({});
+    if (deletedUser) {
+      clearLocalData(deletedUser).catch(err => console.error('Failed to clear local data', err));
     }
   };
 
-  const handleLogout = async () => {
-    await supabase.auth.signOut();
+  // --- Guest mode ---
+
+  const handleContinueAsGuest = () => {
+    setGuestMode('active');
+    setStorageScope(GUEST_SCOPE);
+    setGuestModeState('active');
+  };
+
+  // Leaves the guest diary for the sign-in screen; it is imported once the user signs in
+  const handleStartAttach = () => {
+    handleSave();
+    setGuestMode('attaching');
+    setStorageScope(null);
     setEntries({});
+    setEntriesLoaded(false);
+    setShowSyncPanel(false);
+    setGuestModeState('attaching');
+  };
+
+  const handleCancelAttach = () => {
+    setGuestMode('active');
+    setStorageScope(GUEST_SCOPE);
+    setGuestModeState('active');
+  };
+
+  useEffect(() => {
+    if (!session || guestMode !== 'attaching' || !entriesLoaded) return;
+    attachGuestDiary()
+      .then(({ added, conflicts }) => {
+        setGuestModeState(null);
+        const decide = conflicts > 0 ? ` ${conflicts} already existed in your account — choose which version to keep.` : '';
+        setNotice(`Your diary from this device was added to your account (${added} ${added === 1 ? 'entry' : 'entries'}).${decide}`);
+      })
+      .catch(err => {
+        console.error('Failed to attach the guest diary', err);
+        setStorageError(`Your diary from this device could not be added to your account yet: ${describeStorageError(err)}`);
+      });
+  }, [userId, guestMode, entriesLoaded]);
+
+  const handleLogout = async (clearData: boolean) => {
+    setShowSignOut(false);
+    const signedOutUser = userId;
+    await getSyncBackend().auth.signOut();
+    setEntries({});
+    if (clearData && signedOutUser) {
+      clearLocalData(signedOutUser).catch(err => console.error('Failed to clear local data', err));
+    }
   };
 
   const updateSetting = (key: keyof AppSettings, value: any) => {
@@ -356,6 +1380,43 @@ const App: React.FC = () => {
     });
   };
 
+  const liveEntries = useMemo(() => getLiveEntries(entries), [entries]);
+  // What the calendar, search, timeline and mood trends show
+  const journalEntries = useMemo(
+    () => filterByJournal(liveEntries, journals, activeJournal),
+    [liveEntries, journals, activeJournal]
+  );
+  const journalCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    (Object.values(liveEntries) as DiaryEntry[]).forEach(entry => {
+      const id = getEntryJournalId(entry, journals);
+      counts[id] = (counts[id] || 0) + 1;
+    });
+    return counts;
+  }, [liveEntries, journals]);
+  const dayEntries = useMemo(() => getDayEntries(journalEntries, dateKey), [journalEntries, dateKey]);
+  // An empty entry shows the day's prompt; a new entry on a day that has some gets the next one
+  const entryIndex = dayEntries.findIndex(entry => entry.id === entryId);
+  const prompt = getDailyPrompt(settings.prompts, dateKey, entryIndex === -1 ? dayEntries.length : entryIndex) ?? 'Start writing...';
+  // Tag suggestions and the tag manager cover every journal; the sidebar lists the visible ones
+  const allTags = useMemo(() => collectTags(liveEntries), [liveEntries]);
+  const journalTags = useMemo(() => collectTags(journalEntries), [journalEntries]);
+  const openJournal = findJournal(journals, entryJournal);
+  const editorSettings = applyJournalSettings(settings, openJournal);
+  const hashtags = useMemo(() => extractHashtags(editorContent), [editorContent]);
+  // Habits the day already has from its other entries
+  const habitsDoneElsewhere = useMemo(() => {
+    const others = dayEntries.filter(entry => entry.id !== entryId);
+    return new Set(others.flatMap(entry => entry.habits ?? []));
+  }, [dayEntries, entryId]);
+  const backlinks = useMemo(() => getBacklinks(journalEntries, dateKey), [journalEntries, dateKey]);
+  const linkSuggestions = useMemo(
+    () => (linkMenu ? suggestDateLinks(linkMenu.query, dateKey, journalEntries) : []),
+    [linkMenu?.query, dateKey, journalEntries]
+  );
+  const editedInOtherTab = remoteEditors.some(editor => editor.entryId === entryId);
+  const unsyncedIds = useMemo(() => new Set(syncStatus.pendingIds), [syncStatus.pendingIds]);
+
   const fontClass = {
     'inter': 'font-inter',
     'roboto': 'font-roboto',
@@ -363,7 +1424,7 @@ const App: React.FC = () => {
     'montserrat': 'font-montserrat',
     'serif': 'font-serif',
     'mono': 'font-mono'
-  }[settings.editorFont];
+  }[editorSettings.editorFont];
 
   // --- RENDER ---
 
@@ -375,88 +1436,452 @@ const App: React.FC = () => {
     );
   }
 
-  if (!session) {
-    return <Auth />;
+  if (!session && !isGuest) {
+    return (
+      <Auth
+        attaching={guestMode === 'attaching'}
+        onContinueAsGuest={handleContinueAsGuest}
+        onCancelAttach={handleCancelAttach}
+      />
+    );
   }
 
   return (
-    <div className="flex h-screen bg-bgMain overflow-hidden">
-      
-      {/* Mobile Sidebar Toggle */}
-      <button 
-        className="md:hidden fixed z-40 bottom-4 right-4 bg-primary text-white p-3 rounded-full shadow-lg"
-        onClick={() => setSidebarOpen(!sidebarOpen)}
+    <>
+      {locked && appLock && (
+        <LockScreen
+          kind={appLock.kind}
+          email={session?.user.email ?? null}
+          initialRetryAt={userId ? getLockout(userId) : null}
+          pendingChanges={syncStatus.pendingIds.length}
+          onUnlock={handleAppUnlock}
+          onReset={isGuest ? undefined : () => handleLogout(true)}
+        />
+      )}
+
+      {/* While locked the diary stays mounted (sync keeps running and the editor keeps its state),
+          but `inert` takes it out of focus, selection, keyboard and screen readers */}
+      <div
+        ref={diaryRef}
+        className={`flex h-screen bg-bgMain overflow-hidden ${locked ? 'blur-xl pointer-events-none select-none' : ''}`}
+        aria-hidden={locked}
+        inert={locked}
       >
-        {sidebarOpen ? <X /> : <Menu />}
-      </button>
-
-      {/* Sidebar */}
-      <Sidebar 
-        currentDate={currentDate}
-        onDateSelect={setCurrentDate}
-        entries={entries}
-        searchQuery={searchQuery}
-        onSearchChange={setSearchQuery}
-        isOpen={sidebarOpen}
-        onCloseMobile={() => setSidebarOpen(false)}
-        onLogout={handleLogout}
-      />
+      
+        {/* Mobile Sidebar Toggle */}
+        <button 
+          className="md:hidden fixed z-40 bottom-4 right-4 bg-primary text-white p-3 rounded-full shadow-lg"
+          onClick={() => setSidebarOpen(!sidebarOpen)}
+        >
+          {sidebarOpen ? <X /> : <Menu />}
+        </button>
 
-      {/* Main Content */}
-      <main className="flex-1 flex flex-col relative w-full h-full bg-bgSurface transition-colors">
-        
-        {/* Toolbar */}
-        <EditorToolbar 
-          settings={settings}
-          selectionFontSize={selectionFontSize}
-          onSettingChange={updateSetting}
-          onFormat={handleFormat}
-          onSave={handleSave}
-          onExport={handleExport}
-          onDelete={handleDelete}
-          saving={saving}
+        {/* Sidebar */}
+        <Sidebar 
+          currentDate={currentDate}
+          onDateSelect={handleDateSelect}
+          onEntrySelect={entry => openEntry(entry.id, parseISO(entry.date))}
+          entries={journalEntries}
+          unsyncedIds={isGuest ? undefined : unsyncedIds}
+          journalSwitcher={
+            <JournalSwitcher
+              journals={journals}
+              activeId={activeJournal}
+              counts={journalCounts}
+              onSelect={handleSelectJournal}
+              onCreate={() => setEditingJournal('new')}
+              onEdit={setEditingJournal}
+            />
+          }
+          filters={filters}
+          onFiltersChange={setFilters}
+          tags={journalTags}
+          moodScale={settings.moodScale}
+          habits={settings.habits}
+          onManageTags={() => setShowTagManager(true)}
+          isOpen={sidebarOpen}
+          onCloseMobile={() => setSidebarOpen(false)}
+          onLogout={isGuest ? undefined : () => setShowSignOut(true)}
+          onSignIn={isGuest ? handleStartAttach : undefined}
+          onOpenAppLock={() => setShowAppLock(true)}
+          onOpenAccount={isGuest ? undefined : () => setAccount('open')}
         />
 
-        {/* Date Header */}
-        <div className="px-8 py-6 pb-4">
-           <h2 className="text-3xl font-bold text-textMain font-serif capitalize">
-             {formatDateForDisplay(dateKey)}
-           </h2>
-        </div>
-
-        {/* Editor Area */}
-        <div className="flex-1 overflow-y-auto px-8 pb-20 custom-scrollbar" onClick={() => editorRef.current?.focus()}>
-          <div
-            ref={editorRef}
-            contentEditable
-            suppressContentEditableWarning
-            className={`
-              w-full min-h-[60vh] outline-none max-w-4xl text-left editor-content
-              ${fontClass}
-            `}
-            // Removed global fontSize to allow inline styles to win
-            style={{ 
-              color: settings.editorColor,
-              lineHeight: '1.6'
+        {/* Main Content */}
+        <main className="flex-1 flex flex-col relative w-full h-full bg-bgSurface transition-colors">
+        
+          {/* Toolbar */}
+          <EditorToolbar 
+            settings={editorSettings}
+            selectionFontSize={selectionFontSize}
+            onSettingChange={handleEditorSettingChange}
+            onAttach={handleAttachFiles}
+            onApplyTemplate={handleApplyTemplate}
+            onManageTemplates={() => setShowTemplates(true)}
+            onFormat={handleFormat}
+            onSave={handleSave}
+            onExport={handleExport}
+            onHistory={handleShowHistory}
+            onOpenSettings={() => setShowSettingsSync(true)}
+            encrypted={encryption.enabled}
+            onOpenEncryption={isGuest ? undefined : () => setShowEncryption(true)}
+            onDelete={handleDelete}
+            saving={saving}
+          />
+
+          {notice && (
+            <div className="mx-8 mt-4 p-3 rounded-lg bg-primary/10 flex items-start gap-2 text-sm text-primary">
+              <span className="flex-1">{notice}</span>
+              <button onClick={() => setNotice(null)} className="shrink-0">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+
+          {storageError && (
+            <div className="mx-8 mt-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 flex items-start gap-2 text-sm text-red-600 dark:text-red-400">
+              <AlertCircle className="w-5 h-5 shrink-0" />
+              <span className="flex-1">{storageError}</span>
+              <button onClick={() => setStorageError(null)} className="shrink-0 hover:text-red-800 dark:hover:text-red-200">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+
+          {/* Date Header */}
+          <div className="px-8 py-6 pb-4 flex flex-wrap items-center gap-3">
+             <h2 className="text-3xl font-bold text-textMain font-serif capitalize">
+               {formatDateForDisplay(dateKey)}
+             </h2>
+             <MoodPicker scale={settings.moodScale} value={mood} onChange={setMood} />
+             <label
+               className="flex items-center gap-1.5 pl-2 pr-1 py-1 rounded-full border border-borderSoft text-sm hover:border-primary"
+               title="Journal of this entry"
+             >
+               <JournalIconView icon={openJournal.icon} color={openJournal.color} className="w-4 h-4" />
+               <select
+                 value={openJournal.id}
+                 onChange={e => handleMoveEntry(e.target.value)}
+                 className="bg-transparent text-textMain outline-none cursor-pointer"
+               >
+                 {journals.map(journal => (
+                   <option key={journal.id} value={journal.id}>{journal.name}</option>
+                 ))}
+               </select>
+             </label>
+             <button
+               onClick={() => setShowMoodTrends(true)}
+               className="p-1.5 rounded-full text-textSecondary hover:text-primary hover:bg-primary/10 transition-colors"
+               title="Mood over time"
+             >
+               <LineChart className="w-4 h-4" />
+             </button>
+             <button
+               onClick={() => setShowHabits(true)}
+               className="p-1.5 rounded-full text-textSecondary hover:text-primary hover:bg-primary/10 transition-colors"
+               title="Habits"
+             >
+               <ListChecks className="w-4 h-4" />
+             </button>
+             <button
+               onClick={() => setShowGallery(true)}
+               className="p-1.5 rounded-full text-textSecondary hover:text-primary hover:bg-primary/10 transition-colors"
+               title="Images and files"
+             >
+               <Images className="w-4 h-4" />
+             </button>
+          </div>
+
+          <HabitChecklist
+            habits={settings.habits}
+            checked={checkedHabits}
+            doneElsewhere={habitsDoneElsewhere}
+            onToggle={handleToggleHabit}
+          />
+
+          <DayTimeline
+            entries={dayEntries}
+            selectedId={entryId}
+            onSelect={id => openEntry(id)}
+            onNew={handleNewEntry}
+          />
+
+          <TagInput
+            tags={tags}
+            hashtags={hashtags}
+            suggestions={allTags.map(item => item.tag)}
+            onChange={setTags}
+          />
+
+          {editedInOtherTab && (
+            <div className="mx-8 mb-2 px-3 py-2 rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 flex items-center gap-2 text-sm text-amber-700 dark:text-amber-300">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              <span>This entry is also being edited in another tab. Changes are merged, but editing in one place avoids surprises.</span>
+            </div>
+          )}
+
+          {remoteUpdate && (
+            <div className="mx-8 mb-2 px-3 py-2 rounded-lg border border-accent/30 bg-blue-50 dark:bg-blue-900/20 flex items-center gap-2 text-sm text-accent">
+              <RefreshCw className="w-4 h-4 shrink-0" />
+              <span className="flex-1">
+                {remoteUpdate.from === 'tab' ? 'Changed in another tab.' : 'Updated on another device.'} Your changes will be merged with it when saved.
+              </span>
+              <button onClick={handleLoadRemoteUpdate} className="shrink-0 text-xs font-semibold hover:underline">
+                Show latest version
+              </button>
+            </div>
+          )}
+
+          <AttachmentStrip
+            attachments={attachments}
+            onRemove={handleRemoveAttachment}
+            onError={setStorageError}
+          />
+
+          <RecoveredCopies
+            copies={recoveredCopies}
+            onRestore={handleRestoreCopy}
+            onDiscard={handleDiscardCopy}
+          />
+
+          {/* Editor Area */}
+          <div className="flex-1 overflow-y-auto px-8 pb-20 custom-scrollbar" onClick={() => editorRef.current?.focus()}>
+            <input
+              type="text"
+              placeholder="Title (optional)"
+              value={title}
+              onClick={e => e.stopPropagation()}
+              onChange={e => {
+                lastInputAtRef.current = Date.now();
+                reportEditing(entryId);
+                setTitle(e.target.value);
+              }}
+              onBlur={() => reportEditing(null)}
+              className={`w-full max-w-4xl mb-3 bg-transparent text-xl font-semibold text-textMain outline-none placeholder:text-textSecondary/50 ${fontClass}`}
+            />
+            <div
+              ref={editorRef}
+              contentEditable
+              suppressContentEditableWarning
+              placeholder={prompt}
+              className={`
+                w-full min-h-[60vh] outline-none max-w-4xl text-left editor-content
+                ${fontClass}
+              `}
+              // Removed global fontSize to allow inline styles to win
+              style={{ 
+                color: editorSettings.editorColor,
+                lineHeight: '1.6'
+              }}
+              onInput={(e) => {
+                lastInputAtRef.current = Date.now();
+                reportEditing(entryId);
+                completeDateLinkAtCaret(dateKey);
+                setEditorContent(readEditor());
+                checkSelectionStyle();
+                updateLinkMenu();
+              }}
+              onKeyDown={handleEditorKeyDown}
+              onPaste={handlePaste}
+              onDragOver={(e) => {
+                if (e.dataTransfer.types.includes('Files')) e.preventDefault();
+              }}
+              onDrop={handleDrop}
+              onMouseUp={checkSelectionStyle}
+              onKeyUp={(e) => {
+                checkSelectionStyle();
+                // Typing is handled on input; moving the caret can enter or leave a link being typed
+                if (['ArrowLeft', 'ArrowRight', 'Home', 'End'].includes(e.key) || (!linkMenu && e.key.startsWith('Arrow'))) {
+                  updateLinkMenu();
+                }
+              }}
+              onClick={handleEditorClick}
+              onBlur={() => {
+                setLinkMenu(null);
+                const selection = window.getSelection();
+                if (selection && selection.rangeCount > 0) lastRangeRef.current = selection.getRangeAt(0).cloneRange();
+                checkSelectionStyle();
+                reportEditing(null);
+              }}
+            />
+            <BacklinksPanel
+              backlinks={backlinks}
+              onOpenEntry={entry => openEntry(entry.id, parseISO(entry.date))}
+            />
+          </div>
+
+          {linkMenu && (
+            <DateLinkSuggestions
+              suggestions={linkSuggestions}
+              activeIndex={linkIndex}
+              position={linkMenu}
+              onPick={handlePickDateLink}
+            />
+          )}
+
+          {/* Status Bar */}
+          <div className="absolute bottom-0 left-0 right-0 bg-white/80 dark:bg-gray-800/80 backdrop-blur text-xs text-textSecondary py-1 px-4 border-t border-borderSoft flex justify-between">
+             <span>Words: {countWords(editorContent)}</span>
+             <button
+               onClick={() => setShowSyncPanel(true)}
+               className={`hover:underline ${
+                 syncStatus.state === 'disabled' ? 'text-red-500' : syncStatus.state === 'error' ? 'text-amber-600 dark:text-amber-400' : ''
+               }`}
+             >
+               {describeSyncState(syncStatus)}
+             </button>
+          </div>
+        </main>
+
+        {showSignOut && (
+          <SignOutDialog
+            pendingChanges={syncStatus.pendingIds.length}
+            onConfirm={handleLogout}
+            onCancel={() => setShowSignOut(false)}
+          />
+        )}
+
+        {showSyncPanel && (
+          <SyncStatusPanel
+            status={syncStatus}
+            onRetry={handleRetrySync}
+            onSignIn={isGuest ? handleStartAttach : undefined}
+            onClose={() => setShowSyncPanel(false)}
+          />
+        )}
+
+        {showSettingsSync && (
+          <SettingsSyncDialog
+            settings={settings}
+            onChange={deviceOnly => updateSetting('deviceOnly', deviceOnly)}
+            onClose={() => setShowSettingsSync(false)}
+          />
+        )}
+
+        {showEncryption && (
+          <EncryptionDialog
+            state={encryption}
+            onSetPassphrase={handleSetPassphrase}
+            onUnlock={handleUnlock}
+            onChangePassphrase={handleChangePassphrase}
+            onDisable={handleDisableEncryption}
+            onLock={handleLockEncryption}
+            onClose={() => setShowEncryption(false)}
+          />
+        )}
+
+        {account && (
+          <AccountPage
+            email={session?.user.email ?? null}
+            recovery={account === 'recovery'}
+            onUpdateEmail={email => getSyncBackend().auth.updateEmail(email)}
+            onUpdatePassword={password => getSyncBackend().auth.updatePassword(password)}
+            onDeleteAccount={handleDeleteAccount}
+            onClose={() => setAccount(null)}
+          />
+        )}
+
+        {showTagManager && (
+          <TagManager
+            tags={allTags}
+            onRename={handleRetag}
+            onDelete={tag => handleRetag(tag, null)}
+            onClose={() => setShowTagManager(false)}
+          />
+        )}
+
+        {showMoodTrends && (
+          <MoodTrends
+            entries={journalEntries}
+            scale={settings.moodScale}
+            onChangeScale={scale => updateSetting('moodScale', scale)}
+            onClose={() => setShowMoodTrends(false)}
+          />
+        )}
+
+        {showGallery && (
+          <AttachmentGallery
+            entries={journalEntries}
+            onOpenEntry={entry => {
+              openEntry(entry.id, parseISO(entry.date));
+              setShowGallery(false);
             }}
-            onInput={(e) => {
-              setEditorContent(e.currentTarget.innerHTML);
-              checkSelectionStyle();
+            onClose={() => setShowGallery(false)}
+          />
+        )}
+
+        {showHabits && (
+          <HabitGrid
+            entries={journalEntries}
+            habits={settings.habits}
+            initialMonth={currentDate}
+            onChangeHabits={habits => updateSetting('habits', habits)}
+            onOpenDay={date => {
+              handleDateSelect(date);
+              setShowHabits(false);
+            }}
+            onClose={() => setShowHabits(false)}
+          />
+        )}
+
+        {showTemplates && (
+          <TemplatesDialog
+            templates={settings.templates}
+            prompts={settings.prompts}
+            onSave={(templates, prompts) => {
+              updateSetting('templates', templates);
+              updateSetting('prompts', prompts);
+              setShowTemplates(false);
             }}
-            onMouseUp={checkSelectionStyle}
-            onKeyUp={checkSelectionStyle}
-            onClick={checkSelectionStyle}
-            onBlur={checkSelectionStyle}
+            onClose={() => setShowTemplates(false)}
+          />
+        )}
+
+        {editingJournal && (
+          <JournalDialog
+            journal={editingJournal === 'new' ? null : editingJournal}
+            entryCount={editingJournal === 'new' ? 0 : journalCounts[editingJournal.id] || 0}
+            onSave={handleSaveJournal}
+            onDelete={() => editingJournal !== 'new' && handleDeleteJournal(editingJournal)}
+            onClose={() => setEditingJournal(null)}
+          />
+        )}
+
+        {showAppLock && (
+          <AppLockDialog
+            options={appLock}
+            onSave={handleSaveAppLock}
+            onVerify={secret => userId ? verifyAppLock(userId, secret) : Promise.resolve({ ok: true as const })}
+            onChangeOptions={handleChangeAppLockOptions}
+            onRemove={handleRemoveAppLock}
+            onLockNow={handleLockNow}
+            onClose={() => setShowAppLock(false)}
           />
-        </div>
-
-        {/* Status Bar */}
-        <div className="absolute bottom-0 left-0 right-0 bg-white/80 dark:bg-gray-800/80 backdrop-blur text-xs text-textSecondary py-1 px-4 border-t border-borderSoft flex justify-between">
-           <span>Words: {editorContent.replace(/<[^>]*>/g, '').split(/\s+/).filter(w => w.length > 0).length}</span>
-           <span>{saving ? 'Syncing...' : 'All changes saved'}</span>
-        </div>
-      </main>
-    </div>
+        )}
+
+        {history && (
+          <HistoryPanel
+            date={dateKey}
+            revisions={history.revisions}
+            deletedRevisions={history.deleted}
+            currentContent={editorContent}
+            syncEnabled={settings.syncHistory}
+            onToggleSync={handleToggleHistorySync}
+            onRestore={handleRestoreRevision}
+            onRestoreDeleted={handleRestoreDeletedEntry}
+            onClose={() => setHistory(null)}
+          />
+        )}
+
+        {conflicts.length > 0 && (
+          <ConflictDialog
+            conflict={conflicts[0]}
+            remainingCount={conflicts.length - 1}
+            onResolve={handleResolveConflict}
+          />
+        )}
+      </div>
+    </>
   );
 };
 
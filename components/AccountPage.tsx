@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { UserRound, X, Mail, Lock, Trash2, AlertTriangle } from 'lucide-react';
+import { Button } from './Button';
+
+interface AccountPageProps {
+  email: string | null;
+  // Opened from a password reset link: the user is signed in and should choose a new password
+  recovery: boolean;
+  onUpdateEmail: (email: string) => Promise<{ needsConfirmation: boolean }>;
+  onUpdatePassword: (password: string) => Promise<void>;
+  onDeleteAccount: () => Promise<void>;
+  onClose: () => void;
+}
+
+const MIN_PASSWORD_LENGTH = 6;
+const DELETE_CONFIRMATION = 'DELETE';
+
+const inputClass = "w-full px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-primary focus:outline-none";
+
+type Feedback = { section: 'email' | 'password' | 'delete'; kind: 'error' | 'success'; text: string };
+
+export const AccountPage: React.FC<AccountPageProps> = ({
+  email,
+  recovery,
+  onUpdateEmail,
+  onUpdatePassword,
+  onDeleteAccount,
+  onClose
+}) => {
+  const [newEmail, setNewEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [deleteText, setDeleteText] = useState('');
+  const [busy, setBusy] = useState<Feedback['section'] | null>(null);
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+
+  const passwordError =
+    password.length < MIN_PASSWORD_LENGTH ? `Use at least ${MIN_PASSWORD_LENGTH} characters.`
+    : password !== confirmation ? 'The passwords do not match.'
+    : null;
+
+  const run = async (section: Feedback['section'], action: () => Promise<string | null>) => {
+    setBusy(section);
+    setFeedback(null);
+    try {
+      const success = await action();
+      if (success) setFeedback({ section, kind: 'success', text: success });
+    } catch (err: any) {
+      setFeedback({ section, kind: 'error', text: err?.message || 'Something went wrong.' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleEmail = (e: React.FormEvent) => {
+    e.preventDefault();
+    run('email', async () => {
+      const { needsConfirmation } = await onUpdateEmail(newEmail.trim());
+      setNewEmail('');
+      return needsConfirmation
+        ? 'Check both inboxes: the change takes effect once you confirm it.'
+        : 'Your email address was changed.';
+    });
+  };
+
+  const handlePassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    run('password', async () => {
+      await onUpdatePassword(password);
+      setPassword('');
+      setConfirmation('');
+      return 'Your password was changed.';
+    });
+  };
+
+  const handleDelete = (e: React.FormEvent) => {
+    e.preventDefault();
+    run('delete', async () => {
+      await onDeleteAccount();
+      return null;
+    });
+  };
+
+  const renderFeedback = (section: Feedback['section']) => feedback?.section === section && (
+    <p className={`text-xs ${feedback.kind === 'error' ? 'text-red-600 dark:text-red-400' : 'text-primary'}`}>
+      {feedback.text}
+    </p>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+      <div className="w-full max-w-md max-h-[90vh] overflow-y-auto custom-scrollbar bg-bgSurface rounded-2xl shadow-xl border border-borderSoft p-6 flex flex-col gap-6">
+        <div className="flex items-center gap-2 text-lg font-bold text-textMain font-serif">
+          <UserRound className="w-5 h-5 text-primary" />
+          <span className="flex-1">Account</span>
+          <button onClick={onClose} className="text-textSecondary hover:text-textMain">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {recovery && (
+          <p className="p-3 rounded-lg bg-primary/10 text-sm text-primary">
+            You opened a password reset link. Choose a new password below.
+          </p>
+        )}
+
+        <form onSubmit={handlePassword} className="flex flex-col gap-2">
+          <h3 className="flex items-center gap-2 text-sm font-semibold text-textMain">
+            <Lock className="w-4 h-4" /> {recovery ? 'New password' : 'Change password'}
+          </h3>
+          <input
+            type="password"
+            autoFocus={recovery}
+            placeholder="New password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className={inputClass}
+          />
+          <input
+            type="password"
+            placeholder="Repeat new password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            className={inputClass}
+          />
+          {password && passwordError && <p className="text-xs text-textSecondary">{passwordError}</p>}
+          {renderFeedback('password')}
+          <Button
+            type="submit"
+            variant="primary"
+            className="self-end"
+            label={busy === 'password' ? 'Saving...' : 'Save password'}
+            disabled={!!passwordError || busy !== null}
+          />
+        </form>
+
+        {!recovery && (
+          <form onSubmit={handleEmail} className="flex flex-col gap-2 pt-4 border-t border-borderSoft">
+            <h3 className="flex items-center gap-2 text-sm font-semibold text-textMain">
+              <Mail className="w-4 h-4" /> Email
+            </h3>
+            <p className="text-xs text-textSecondary">Currently {email || 'not set'}.</p>
+            <input
+              type="email"
+              required
+              placeholder="New email address"
+              value={newEmail}
+              onChange={(e) => setNewEmail(e.target.value)}
+              className={inputClass}
+            />
+            {renderFeedback('email')}
+            <Button
+              type="submit"
+              variant="secondary"
+              className="self-end"
+              label={busy === 'email' ? 'Saving...' : 'Change email'}
+              disabled={!newEmail.trim() || busy !== null}
+            />
+          </form>
+        )}
+
+        {!recovery && (
+          <form onSubmit={handleDelete} className="flex flex-col gap-2 pt-4 border-t border-borderSoft">
+            <h3 className="flex items-center gap-2 text-sm font-semibold text-red-600 dark:text-red-400">
+              <Trash2 className="w-4 h-4" /> Delete account
+            </h3>
+            <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 flex items-start gap-2 text-sm text-red-600 dark:text-red-400">
+              <AlertTriangle className="w-5 h-5 shrink-0" />
+              <span>
+                Deletes your account and every entry, revision and setting stored in it, and clears this
+                device. This cannot be undone — export anything you want to keep first.
+              </span>
+            </div>
+            <input
+              type="text"
+              placeholder={`Type ${DELETE_CONFIRMATION} to confirm`}
+              value={deleteText}
+              onChange={(e) => setDeleteText(e.target.value)}
+              className={inputClass}
+            />
+            {renderFeedback('delete')}
+            <Button
+              type="submit"
+              variant="danger"
+              className="self-end"
+              label={busy === 'delete' ? 'Deleting...' : 'Delete my account'}
+              disabled={deleteText !== DELETE_CONFIRMATION || busy !== null}
+            />
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { Lock, X } from 'lucide-react';
+import { AppLockKind, AppLockOptions, UnlockResult } from '../utils/appLock';
+import { Button } from './Button';
+
+interface AppLockDialogProps {
+  options: AppLockOptions | null; // null when no lock is set up
+  onSave: (secret: string, options: AppLockOptions) => Promise<void>;
+  onVerify: (secret: string) => Promise<UnlockResult>;
+  onChangeOptions: (options: Pick<AppLockOptions, 'idleMinutes' | 'lockWhenHidden'>) => void;
+  onRemove: () => void;
+  onLockNow: () => void;
+  onClose: () => void;
+}
+
+const IDLE_CHOICES: { value: number | null; label: string }[] = [
+  { value: null, label: 'Never' },
+  { value: 1, label: 'After 1 minute' },
+  { value: 5, label: 'After 5 minutes' },
+  { value: 15, label: 'After 15 minutes' },
+  { value: 30, label: 'After 30 minutes' },
+  { value: 60, label: 'After 1 hour' },
+];
+
+const inputClass = "w-full px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-primary focus:outline-none";
+
+const validate = (kind: AppLockKind, secret: string, confirmation: string): string | null => {
+  if (kind === 'pin' && !/^\d{4,}$/.test(secret)) return 'A PIN has at least 4 digits.';
+  if (kind === 'passphrase' && secret.length < 6) return 'Use at least 6 characters.';
+  if (secret !== confirmation) return 'They do not match.';
+  return null;
+};
+
+export const AppLockDialog: React.FC<AppLockDialogProps> = ({
+  options,
+  onSave,
+  onVerify,
+  onChangeOptions,
+  onRemove,
+  onLockNow,
+  onClose
+}) => {
+  // Changing or removing an existing lock asks for it first
+  const [action, setAction] = useState<'change' | 'remove' | null>(null);
+  const [current, setCurrent] = useState('');
+  const [kind, setKind] = useState<AppLockKind>(options?.kind ?? 'pin');
+  const [secret, setSecret] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [idleMinutes, setIdleMinutes] = useState<number | null>(options?.idleMinutes ?? 5);
+  const [lockWhenHidden, setLockWhenHidden] = useState(options?.lockWhenHidden ?? false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const choosing = !options || action === 'change';
+  const secretError = validate(kind, secret, confirmation);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      if (options) {
+        const result = await onVerify(current);
+        if (!result.ok) {
+          setError(result.retryAt ? 'Too many wrong attempts. Try again later.' : 'That is not your current PIN or passphrase.');
+          return;
+        }
+        if (action === 'remove') {
+          onRemove();
+          onClose();
+          return;
+        }
+      }
+      await onSave(secret, { kind, idleMinutes, lockWhenHidden });
+      onClose();
+    } catch (err: any) {
+      setError(err?.message || 'Something went wrong.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const changeIdle = (value: number | null) => {
+    setIdleMinutes(value);
+    if (options && !action) onChangeOptions({ idleMinutes: value, lockWhenHidden });
+  };
+
+  const changeHidden = (value: boolean) => {
+    setLockWhenHidden(value);
+    if (options && !action) onChangeOptions({ idleMinutes, lockWhenHidden: value });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-md bg-bgSurface rounded-2xl shadow-xl border border-borderSoft p-6 flex flex-col gap-4"
+      >
+        <div className="flex items-center gap-2 text-lg font-bold text-textMain font-serif">
+          <Lock className="w-5 h-5 text-primary" />
+          <span className="flex-1">App lock</span>
+          <button type="button" onClick={onClose} className="text-textSecondary hover:text-textMain">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-textSecondary">
+          Ask for a PIN or passphrase before showing your diary on this device, even while you stay signed in.
+        </p>
+
+        {options && action && (
+          <input
+            type="password"
+            autoFocus
+            placeholder={`Current ${options.kind === 'pin' ? 'PIN' : 'passphrase'}`}
+            value={current}
+            onChange={(e) => setCurrent(e.target.value)}
+            className={inputClass}
+          />
+        )}
+
+        {choosing && (
+          <>
+            <div className="flex gap-2">
+              {(['pin', 'passphrase'] as AppLockKind[]).map(k => (
+                <button
+                  key={k}
+                  type="button"
+                  onClick={() => setKind(k)}
+                  className={`flex-1 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                    kind === k ? 'bg-primary/10 text-primary' : 'bg-gray-100 dark:bg-gray-800 text-textSecondary'
+                  }`}
+                >
+                  {k === 'pin' ? 'PIN' : 'Passphrase'}
+                </button>
+              ))}
+            </div>
+            <input
+              type="password"
+              inputMode={kind === 'pin' ? 'numeric' : undefined}
+              autoFocus={!options}
+              placeholder={kind === 'pin' ? 'New PIN' : 'New passphrase'}
+              value={secret}
+              onChange={(e) => setSecret(e.target.value)}
+              className={inputClass}
+            />
+            <input
+              type="password"
+              inputMode={kind === 'pin' ? 'numeric' : undefined}
+              placeholder="Repeat it"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              className={inputClass}
+            />
+            {secret && secretError && <p className="text-xs text-textSecondary">{secretError}</p>}
+          </>
+        )}
+
+        {action !== 'remove' && (
+          <div className="flex flex-col gap-3 text-sm">
+            <label className="flex items-center justify-between gap-3 text-textMain">
+              Lock when idle
+              <select
+                value={idleMinutes ?? ''}
+                onChange={(e) => changeIdle(e.target.value ? Number(e.target.value) : null)}
+                className="px-2 py-1 rounded-md bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700"
+              >
+                {IDLE_CHOICES.map(choice => (
+                  <option key={choice.label} value={choice.value ?? ''}>{choice.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-3 text-textMain cursor-pointer">
+              <input
+                type="checkbox"
+                checked={lockWhenHidden}
+                onChange={(e) => changeHidden(e.target.checked)}
+                className="accent-primary"
+              />
+              Lock when I switch to another tab or app
+            </label>
+          </div>
+        )}
+
+        {error && (
+          <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-600 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          {options && !action ? (
+            <>
+              <Button type="button" variant="danger" label="Remove lock" onClick={() => setAction('remove')} />
+              <Button type="button" variant="ghost" label="Change" onClick={() => setAction('change')} />
+              <Button type="button" variant="primary" icon={<Lock />} label="Lock now" onClick={onLockNow} />
+            </>
+          ) : (
+            <>
+              <Button type="button" variant="ghost" label="Cancel" onClick={options ? () => setAction(null) : onClose} />
+              <Button
+                type="submit"
+                variant={action === 'remove' ? 'danger' : 'primary'}
+                label={action === 'remove' ? 'Remove lock' : 'Save'}
+                disabled={busy || (choosing && !!secretError) || (!!options && !current)}
+              />
+            </>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useMemo, useState } from 'react';
+import { Images, X, FileText } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Attachment, DiaryEntry } from '../types';
+import { isImageAttachment, formatFileSize } from '../utils/attachments';
+import { entryLabel } from '../utils/entries';
+import { AttachmentThumbnail } from './AttachmentStrip';
+
+interface AttachmentGalleryProps {
+  entries: Record<string, DiaryEntry>;
+  onOpenEntry: (entry: DiaryEntry) => void;
+  onClose: () => void;
+}
+
+const shortDate = (date: string) => format(parseISO(date), 'd MMM yyyy', { locale: ptBR });
+
+interface GalleryItem {
+  attachment: Attachment;
+  entry: DiaryEntry;
+}
+
+type GalleryTab = 'images' | 'files';
+
+export const AttachmentGallery: React.FC<AttachmentGalleryProps> = ({ entries, onOpenEntry, onClose }) => {
+  const [tab, setTab] = useState<GalleryTab>('images');
+
+  // Newest entries first, each entry's attachments in the order they were added
+  const items = useMemo(() => {
+    const all: GalleryItem[] = [];
+    (Object.values(entries) as DiaryEntry[])
+      .sort((a, b) => b.date.localeCompare(a.date) || (b.createdAt ?? 0) - (a.createdAt ?? 0))
+      .forEach(entry => {
+        (entry.attachments || []).forEach(attachment => all.push({ attachment, entry }));
+      });
+    return all;
+  }, [entries]);
+
+  const images = items.filter(item => isImageAttachment(item.attachment));
+  const files = items.filter(item => !isImageAttachment(item.attachment));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+      <div className="w-full max-w-3xl max-h-[90vh] bg-bgSurface rounded-2xl shadow-xl border border-borderSoft p-6 flex flex-col gap-4">
+        <div className="flex items-center gap-2 text-lg font-bold text-textMain font-serif">
+          <Images className="w-5 h-5 text-primary" />
+          <span className="flex-1">Attachments</span>
+          <button onClick={onClose} className="text-textSecondary hover:text-textMain">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-1 self-start p-0.5 rounded-lg bg-gray-100 dark:bg-gray-800 text-xs">
+          {(['images', 'files'] as GalleryTab[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setTab(key)}
+              className={`px-3 py-1 rounded-md ${tab === key ? 'bg-bgSurface text-textMain shadow-sm' : 'text-textSecondary'}`}
+            >
+              {key === 'images' ? `Images (${images.length})` : `Files (${files.length})`}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar">
+          {tab === 'images' && (images.length > 0 ? (
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+              {images.map(({ attachment, entry }) => (
+                <button
+                  key={attachment.id}
+                  onClick={() => onOpenEntry(entry)}
+                  className="relative aspect-square rounded-lg overflow-hidden border border-borderSoft hover:ring-2 hover:ring-primary"
+                  title={`${entryLabel(entry)} · ${shortDate(entry.date)}`}
+                >
+                  <AttachmentThumbnail attachment={attachment} className="w-full h-full" />
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm italic text-textSecondary">
+              No images yet. Paste or drop a photo into an entry, or use the paperclip in the toolbar.
+            </p>
+          ))}
+
+          {tab === 'files' && (files.length > 0 ? (
+            <div className="divide-y divide-borderSoft border border-borderSoft rounded-xl">
+              {files.map(({ attachment, entry }) => (
+                <button
+                  key={attachment.id}
+                  onClick={() => onOpenEntry(entry)}
+                  className="w-full flex items-center gap-3 px-4 py-2 text-sm text-left hover:bg-gray-50 dark:hover:bg-gray-800"
+                >
+                  <FileText className="w-4 h-4 text-textSecondary shrink-0" />
+                  <span className="flex-1 truncate text-textMain">{attachment.name}</span>
+                  <span className="text-xs text-textSecondary">{formatFileSize(attachment.size)}</span>
+                  <span className="text-xs text-textSecondary w-32 truncate text-right">{shortDate(entry.date)}</span>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm italic text-textSecondary">No files attached yet.</p>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
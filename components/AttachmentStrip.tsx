@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { FileText, ImageOff, X, Download } from 'lucide-react';
+import { Attachment } from '../types';
+import { getAttachmentUrl, isImageAttachment, formatFileSize, downloadAttachment } from '../utils/attachments';
+
+// Thumbnail of an image attachment, loaded (and downloaded if needed) on first display
+export const AttachmentThumbnail: React.FC<{ attachment: Attachment; className?: string }> = ({ attachment, className }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [missing, setMissing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setUrl(null);
+    setMissing(false);
+    getAttachmentUrl(attachment.id)
+      .then(result => {
+        if (cancelled) return;
+        setUrl(result);
+        setMissing(!result);
+      })
+      .catch(err => {
+        console.error('Failed to load attachment', err);
+        if (!cancelled) setMissing(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment.id]);
+
+  if (url) return <img src={url} alt={attachment.name} className={`object-cover ${className}`} />;
+  return (
+    <div className={`flex items-center justify-center bg-gray-100 dark:bg-gray-800 text-textSecondary ${className}`}>
+      {missing && <ImageOff className="w-5 h-5" />}
+    </div>
+  );
+};
+
+interface AttachmentStripProps {
+  attachments: Attachment[];
+  onRemove: (attachment: Attachment) => void;
+  onError: (message: string) => void;
+}
+
+export const AttachmentStrip: React.FC<AttachmentStripProps> = ({ attachments, onRemove, onError }) => {
+  if (attachments.length === 0) return null;
+
+  const handleOpen = (attachment: Attachment) => {
+    downloadAttachment(attachment).catch(err => onError(err?.message || 'Could not open the attachment.'));
+  };
+
+  const handleRemove = (attachment: Attachment) => {
+    if (window.confirm(`Remove "${attachment.name}" from this entry? The file is deleted everywhere.`)) {
+      onRemove(attachment);
+    }
+  };
+
+  return (
+    <div className="mx-8 mb-2 flex gap-2 overflow-x-auto custom-scrollbar pb-1">
+      {attachments.map(attachment => (
+        <div
+          key={attachment.id}
+          className="group relative shrink-0 flex items-center gap-2 rounded-lg border border-borderSoft bg-bgSurface overflow-hidden"
+        >
+          <button
+            onClick={() => handleOpen(attachment)}
+            className="flex items-center gap-2 text-left"
+            title={`${attachment.name} (${formatFileSize(attachment.size)})`}
+          >
+            {isImageAttachment(attachment) ? (
+              <AttachmentThumbnail attachment={attachment} className="w-14 h-14" />
+            ) : (
+              <>
+                <FileText className="w-5 h-5 ml-3 text-textSecondary" />
+                <span className="flex flex-col pr-8 py-2">
+                  <span className="text-sm text-textMain max-w-[10rem] truncate">{attachment.name}</span>
+                  <span className="text-xs text-textSecondary flex items-center gap-1">
+                    <Download className="w-3 h-3" />
+                    {formatFileSize(attachment.size)}
+                  </span>
+                </span>
+              </>
+            )}
+          </button>
+          <button
+            onClick={() => handleRemove(attachment)}
+            className="absolute top-1 right-1 p-0.5 rounded-full bg-black/50 text-white opacity-0 group-hover:opacity-100 transition-opacity"
+            title="Remove attachment"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
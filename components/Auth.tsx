@@ -1,12 +1,38 @@
 import React, { useState } from 'react';
-import { supabase } from '../utils/supabaseClient';
-import { Mail, Lock, Eye, EyeOff, Loader, AlertCircle } from 'lucide-react';
+import { getSyncBackend } from '../utils/backends';
+import { config } from '../utils/config';
+import { Mail, Lock, Eye, EyeOff, Loader, AlertCircle, Wand2 } from 'lucide-react';
 import { Button } from './Button';
 import { Logo } from './Logo';
 
-export const Auth: React.FC = () => {
+type AuthMode = 'sign-in' | 'sign-up' | 'magic-link' | 'reset';
+
+const SUBTITLES: Record<AuthMode, string> = {
+  'sign-in': 'Welcome back to your thoughts',
+  'sign-up': 'Create your minimalist diary',
+  'magic-link': 'Sign in without a password',
+  'reset': 'Reset your password',
+};
+
+const SUBMIT_LABELS: Record<AuthMode, [idle: string, busy: string]> = {
+  'sign-in': ['Sign In', 'Signing in...'],
+  'sign-up': ['Sign Up', 'Creating account...'],
+  'magic-link': ['Email me a sign-in link', 'Sending...'],
+  'reset': ['Email me a reset link', 'Sending...'],
+};
+
+const providerLabel = (provider: string) => provider.charAt(0).toUpperCase() + provider.slice(1);
+
+interface AuthProps {
+  // A guest is signing in to keep their diary; it is added to the account afterwards
+  attaching?: boolean;
+  onContinueAsGuest?: () => void;
+  onCancelAttach?: () => void;
+}
+
+export const Auth: React.FC<AuthProps> = ({ attaching, onContinueAsGuest, onCancelAttach }) => {
   const [loading, setLoading] = useState(false);
-  const [isSignUp, setIsSignUp] = useState(false);
+  const [mode, setMode] = useState<AuthMode>('sign-in');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
@@ -20,19 +46,18 @@ export const Auth: React.FC = () => {
     setMessage(null);
 
     try {
-      if (isSignUp) {
-        const { error } = await supabase.auth.signUp({
-          email,
-          password,
-        });
-        if (error) throw error;
-        setMessage('Check your email for the confirmation link!');
+      const { auth } = getSyncBackend();
+      if (mode === 'sign-up') {
+        const { needsConfirmation } = await auth.signUp(email, password);
+        if (needsConfirmation) setMessage('Check your email for the confirmation link!');
+      } else if (mode === 'magic-link') {
+        await auth.signInWithMagicLink(email);
+        setMessage('Check your email for a link to sign in.');
+      } else if (mode === 'reset') {
+        await auth.requestPasswordReset(email);
+        setMessage('If an account exists for this address, we sent a link to choose a new password.');
       } else {
-        const { error } = await supabase.auth.signInWithPassword({
-          email,
-          password,
-        });
-        if (error) throw error;
+        await auth.signIn(email, password);
       }
     } catch (err: any) {
       setError(err.message || 'An error occurred during authentication.');
@@ -41,6 +66,24 @@ export const Auth: React.FC = () => {
     }
   };
 
+  // Redirects away; the session is picked up when the provider sends the user back
+  const handleProvider = async (provider: string) => {
+    setError(null);
+    try {
+      await getSyncBackend().auth.signInWithProvider(provider);
+    } catch (err: any) {
+      setError(err.message || 'An error occurred during authentication.');
+    }
+  };
+
+  const switchMode = (next: AuthMode) => {
+    setMode(next);
+    setError(null);
+    setMessage(null);
+  };
+
+  const needsPassword = mode === 'sign-in' || mode === 'sign-up';
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-bgMain px-4 transition-colors">
       <div className="w-full max-w-md bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-100 dark:border-gray-700 overflow-hidden">
@@ -52,13 +95,19 @@ export const Auth: React.FC = () => {
            </div>
            <h1 className="text-2xl font-bold text-textMain font-serif">GrayNote</h1>
            <p className="text-sm text-textSecondary mt-1">
-             {isSignUp ? 'Create your minimalist diary' : 'Welcome back to your thoughts'}
+             {SUBTITLES[mode]}
            </p>
         </div>
 
         {/* Form */}
         <div className="p-8">
           <form onSubmit={handleAuth} className="flex flex-col gap-5">
+
+            {attaching && (
+              <div className="p-3 rounded-lg bg-primary/10 text-sm text-primary">
+                Sign in or create an account. The diary you kept on this device will be added to it.
+              </div>
+            )}
             
             {error && (
               <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 flex items-start gap-2 text-sm text-red-600 dark:text-red-400">
@@ -88,50 +137,113 @@ export const Auth: React.FC = () => {
               </div>
             </div>
 
-            <div className="space-y-1.5">
-              <label className="text-sm font-medium text-textMain ml-1">Password</label>
-              <div className="relative group">
-                <Lock className="absolute left-3 top-2.5 w-5 h-5 text-gray-400 group-focus-within:text-primary transition-colors" />
-                <input
-                  type={showPassword ? 'text' : 'password'}
-                  required
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  placeholder="••••••••"
-                  className="w-full pl-10 pr-12 py-2.5 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary outline-none transition-all text-textMain placeholder-gray-400"
-                />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-3 top-2.5 text-gray-400 hover:text-textMain transition-colors"
-                >
-                  {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
-                </button>
+            {needsPassword && (
+              <div className="space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-medium text-textMain ml-1">Password</label>
+                  {mode === 'sign-in' && (
+                    <button
+                      type="button"
+                      onClick={() => switchMode('reset')}
+                      className="text-xs text-textSecondary hover:text-primary transition-colors"
+                    >
+                      Forgot password?
+                    </button>
+                  )}
+                </div>
+                <div className="relative group">
+                  <Lock className="absolute left-3 top-2.5 w-5 h-5 text-gray-400 group-focus-within:text-primary transition-colors" />
+                  <input
+                    type={showPassword ? 'text' : 'password'}
+                    required
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="••••••••"
+                    className="w-full pl-10 pr-12 py-2.5 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary outline-none transition-all text-textMain placeholder-gray-400"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-2.5 text-gray-400 hover:text-textMain transition-colors"
+                  >
+                    {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                  </button>
+                </div>
               </div>
-            </div>
+            )}
 
             <Button
               type="submit"
               variant="primary"
               disabled={loading}
               className="w-full py-3 mt-2 text-base shadow-md hover:shadow-lg transform active:scale-[0.98]"
-              label={loading ? (isSignUp ? 'Creating account...' : 'Signing in...') : (isSignUp ? 'Sign Up' : 'Sign In')}
+              label={SUBMIT_LABELS[mode][loading ? 1 : 0]}
               icon={loading ? <Loader className="animate-spin" /> : undefined}
             />
           </form>
 
+          {mode === 'sign-in' && (
+            <div className="mt-4 flex flex-col gap-2">
+              <Button
+                type="button"
+                variant="secondary"
+                className="w-full"
+                icon={<Wand2 />}
+                label="Email me a sign-in link"
+                onClick={() => switchMode('magic-link')}
+              />
+              {config.authProviders.map(provider => (
+                <Button
+                  key={provider}
+                  type="button"
+                  variant="secondary"
+                  className="w-full"
+                  label={`Continue with ${providerLabel(provider)}`}
+                  onClick={() => handleProvider(provider)}
+                />
+              ))}
+            </div>
+          )}
+
           <div className="mt-6 text-center">
-            <p className="text-sm text-textSecondary">
-              {isSignUp ? 'Already have an account?' : "Don't have an account?"}
+            {mode === 'sign-in' || mode === 'sign-up' ? (
+              <p className="text-sm text-textSecondary">
+                {mode === 'sign-up' ? 'Already have an account?' : "Don't have an account?"}
+                <button
+                  type="button"
+                  onClick={() => switchMode(mode === 'sign-up' ? 'sign-in' : 'sign-up')}
+                  className="ml-1 font-semibold text-primary hover:text-emerald-600 underline decoration-2 decoration-transparent hover:decoration-current transition-all"
+                >
+                  {mode === 'sign-up' ? 'Log in' : 'Create one'}
+                </button>
+              </p>
+            ) : (
               <button
                 type="button"
-                onClick={() => setIsSignUp(!isSignUp)}
-                className="ml-1 font-semibold text-primary hover:text-emerald-600 underline decoration-2 decoration-transparent hover:decoration-current transition-all"
+                onClick={() => switchMode('sign-in')}
+                className="text-sm font-semibold text-primary hover:text-emerald-600 transition-colors"
               >
-                {isSignUp ? 'Log in' : 'Create one'}
+                Back to sign in with a password
               </button>
-            </p>
+            )}
           </div>
+
+          {(attaching ? onCancelAttach : onContinueAsGuest) && (
+            <div className="mt-4 pt-4 border-t border-gray-100 dark:border-gray-700 text-center">
+              <button
+                type="button"
+                onClick={attaching ? onCancelAttach : onContinueAsGuest}
+                className="text-sm text-textSecondary hover:text-textMain transition-colors"
+              >
+                {attaching ? 'Back to my diary' : 'Use without an account'}
+              </button>
+              {!attaching && (
+                <p className="text-xs text-textSecondary mt-1">
+                  Everything stays on this device. You can sign in later to back it up.
+                </p>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
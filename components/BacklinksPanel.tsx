@@ -0,0 +1,36 @@
+import React from 'react';
+import { Link2 } from 'lucide-react';
+import { DiaryEntry } from '../types';
+import { dateLinkLabel } from '../utils/dateLinks';
+import { entryLabel } from '../utils/entries';
+
+interface BacklinksPanelProps {
+  backlinks: DiaryEntry[];
+  onOpenEntry: (entry: DiaryEntry) => void;
+}
+
+// Entries that link to the day on screen, below its text
+export const BacklinksPanel: React.FC<BacklinksPanelProps> = ({ backlinks, onOpenEntry }) => {
+  if (backlinks.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-4xl mt-10 pt-4 border-t border-borderSoft" onClick={e => e.stopPropagation()}>
+      <div className="flex items-center gap-2 mb-2 text-xs font-semibold uppercase tracking-wide text-textSecondary">
+        <Link2 className="w-4 h-4" />
+        Linked from {backlinks.length} {backlinks.length === 1 ? 'entry' : 'entries'}
+      </div>
+      <div className="flex flex-col">
+        {backlinks.map(entry => (
+          <button
+            key={entry.id}
+            onClick={() => onOpenEntry(entry)}
+            className="flex items-baseline gap-3 px-2 py-1.5 -mx-2 rounded-lg text-sm text-left hover:bg-gray-100 dark:hover:bg-gray-800"
+          >
+            <span className="shrink-0 w-24 text-xs text-textSecondary">{dateLinkLabel(entry.date)}</span>
+            <span className="flex-1 truncate text-textMain">{entryLabel(entry) || 'Untitled'}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { GitMerge, Laptop, Cloud } from 'lucide-react';
+import { DiaryEntry, EntryConflict } from '../types';
+import { formatDateForDisplay } from '../utils/dateUtils';
+import { sanitizeHtml } from '../utils/sanitize';
+import { Button } from './Button';
+
+interface ConflictDialogProps {
+  conflict: EntryConflict;
+  remainingCount: number;
+  onResolve: (keep: 'local' | 'remote') => void;
+}
+
+const VersionColumn: React.FC<{
+  title: string;
+  icon: React.ReactNode;
+  entry: DiaryEntry;
+  onKeep: () => void;
+}> = ({ title, icon, entry, onKeep }) => (
+  <div className="flex-1 min-w-0 flex flex-col border border-borderSoft rounded-xl overflow-hidden">
+    <div className="flex items-center justify-between gap-2 px-4 py-2 bg-gray-50 dark:bg-gray-900/50 border-b border-borderSoft">
+      <div className="flex items-center gap-2 text-sm font-semibold text-textMain">
+        {icon}
+        {title}
+      </div>
+      <span className="text-xs text-textSecondary">
+        {format(entry.updatedAt, 'dd/MM HH:mm')}
+      </span>
+    </div>
+    {entry.deletedAt ? (
+      <div className="flex-1 p-4 text-sm italic text-textSecondary">This version deleted the entry.</div>
+    ) : (
+      <div
+        className="flex-1 p-4 text-sm text-textMain overflow-y-auto max-h-[45vh] custom-scrollbar editor-content"
+        dangerouslySetInnerHTML={{ __html: sanitizeHtml(entry.content) }}
+      />
+    )}
+    <div className="p-3 border-t border-borderSoft">
+      <Button variant="secondary" label="Keep this version" onClick={onKeep} className="w-full" />
+    </div>
+  </div>
+);
+
+export const ConflictDialog: React.FC<ConflictDialogProps> = ({ conflict, remainingCount, onResolve }) => {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+      <div className="w-full max-w-5xl bg-bgSurface rounded-2xl shadow-xl border border-borderSoft flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-borderSoft">
+          <div className="flex items-center gap-2 text-lg font-bold text-textMain font-serif">
+            <GitMerge className="w-5 h-5 text-primary" />
+            This entry was edited on two devices
+          </div>
+          <p className="text-sm text-textSecondary mt-1">
+            <span className="capitalize">{formatDateForDisplay(conflict.local.date)}</span> was changed here and on another device in the same places.
+            Choose which version to keep — the other one is saved as a recovered copy you can restore later.
+            {remainingCount > 0 && ` ${remainingCount} more ${remainingCount === 1 ? 'entry needs' : 'entries need'} attention.`}
+          </p>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-4 p-6 overflow-y-auto">
+          <VersionColumn
+            title="This device"
+            icon={<Laptop className="w-4 h-4" />}
+            entry={conflict.local}
+            onKeep={() => onResolve('local')}
+          />
+          <VersionColumn
+            title="Other device"
+            icon={<Cloud className="w-4 h-4" />}
+            entry={conflict.remote}
+            onKeep={() => onResolve('remote')}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import { CalendarDays } from 'lucide-react';
+import { DateSuggestion, dateLinkLabel } from '../utils/dateLinks';
+
+interface DateLinkSuggestionsProps {
+  suggestions: DateSuggestion[];
+  activeIndex: number;
+  position: { top: number; left: number };
+  onPick: (date: string) => void;
+}
+
+// Autocomplete shown under the caret while a [[link is typed
+export const DateLinkSuggestions: React.FC<DateLinkSuggestionsProps> = ({ suggestions, activeIndex, position, onPick }) => {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div
+      className="fixed z-40 w-72 py-1 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 shadow-xl"
+      style={{ top: position.top, left: position.left }}
+    >
+      {suggestions.map((suggestion, index) => (
+        <button
+          key={suggestion.date}
+          // Keeps the caret in the editor
+          onMouseDown={e => e.preventDefault()}
+          onClick={() => onPick(suggestion.date)}
+          className={`w-full flex items-center gap-2 px-3 py-1.5 text-sm text-left ${
+            index === activeIndex ? 'bg-primary/10' : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+          }`}
+        >
+          <CalendarDays className="w-4 h-4 text-primary shrink-0" />
+          <span className="shrink-0 text-textMain">{dateLinkLabel(suggestion.date)}</span>
+          <span className="flex-1 truncate text-xs text-textSecondary text-right">{suggestion.hint}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
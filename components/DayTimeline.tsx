@@ -0,0 +1,53 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Plus } from 'lucide-react';
+import { DiaryEntry } from '../types';
+import { entryLabel } from '../utils/entries';
+
+interface DayTimelineProps {
+  entries: DiaryEntry[]; // The day's entries, oldest first
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+}
+
+// The entries of the open day. The open entry may be a new one that is not saved yet,
+// in which case it shows as a draft at the end.
+export const DayTimeline: React.FC<DayTimelineProps> = ({ entries, selectedId, onSelect, onNew }) => {
+  const isDraft = !entries.some(entry => entry.id === selectedId);
+  if (entries.length === 0) return null;
+
+  const itemClass = (selected: boolean) => `
+    shrink-0 max-w-[14rem] px-3 py-1.5 rounded-lg border text-left text-sm transition-colors
+    ${selected ? 'border-primary bg-primary/10 text-textMain' : 'border-borderSoft text-textSecondary hover:border-primary hover:text-textMain'}
+  `;
+
+  return (
+    <div className="mx-8 mb-3 flex items-center gap-2 overflow-x-auto custom-scrollbar pb-1">
+      {entries.map(entry => (
+        <button key={entry.id} onClick={() => onSelect(entry.id)} className={itemClass(entry.id === selectedId)}>
+          {entry.createdAt && (
+            <span className="block text-xs text-textSecondary">{format(entry.createdAt, 'HH:mm')}</span>
+          )}
+          <span className="block truncate">{entryLabel(entry, 40) || 'Untitled'}</span>
+        </button>
+      ))}
+
+      {isDraft ? (
+        <span className={itemClass(true)}>
+          <span className="block text-xs text-textSecondary">New</span>
+          <span className="block italic">Unsaved entry</span>
+        </span>
+      ) : (
+        <button
+          onClick={onNew}
+          className="shrink-0 flex items-center gap-1 px-3 py-2 rounded-lg text-sm text-textSecondary hover:text-primary hover:bg-primary/10 transition-colors"
+          title="Add another entry to this day"
+        >
+          <Plus className="w-4 h-4" />
+          New entry
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { 
   Type, 
   Bold, 
@@ -8,22 +8,46 @@ import {
   Trash2, 
   Save, 
   Download,
+  History,
   Moon,
   Sun,
   Smile,
-  ChevronDown
+  Settings,
+  Lock,
+  LockOpen,
+  ChevronDown,
+  Paperclip,
+  LayoutTemplate
 } from 'lucide-react';
 import { Button } from './Button';
 import { EmojiPicker } from './EmojiPicker';
-import { AppSettings, FontFamily } from '../types';
+import { AppSettings, EntryTemplate, FontFamily } from '../types';
+
+export const FONT_OPTIONS: { value: FontFamily; label: string }[] = [
+  { value: 'inter', label: 'Inter' },
+  { value: 'roboto', label: 'Roboto' },
+  { value: 'source', label: 'Source Sans 3' },
+  { value: 'montserrat', label: 'Montserrat' },
+  { value: 'serif', label: 'Serif' },
+  { value: 'mono', label: 'Monospace' },
+];
+
+export const FONT_SIZES = [8, 9, 10, 11, 12, 14, 16, 18, 20, 24, 30, 36, 48, 60, 72];
 
 interface EditorToolbarProps {
   settings: AppSettings;
   selectionFontSize: number | null;
-  onSettingChange: (key: keyof AppSettings, value: any) => void;
+  onSettingChange: <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => void;
   onFormat: (command: string, value?: string) => void;
+  onAttach: (files: File[]) => void;
+  onApplyTemplate: (template: EntryTemplate) => void;
+  onManageTemplates: () => void;
   onSave: () => void;
   onExport: () => void;
+  onHistory: () => void;
+  onOpenSettings: () => void;
+  encrypted: boolean;
+  onOpenEncryption?: () => void; // Hidden without an account
   onDelete: () => void;
   saving: boolean;
 }
@@ -33,24 +57,22 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({
   selectionFontSize,
   onSettingChange,
   onFormat,
+  onAttach,
+  onApplyTemplate,
+  onManageTemplates,
   onSave,
   onExport,
+  onHistory,
+  onOpenSettings,
+  encrypted,
+  onOpenEncryption,
   onDelete,
   saving
 }) => {
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   
-  const fontOptions: { value: FontFamily; label: string }[] = [
-    { value: 'inter', label: 'Inter' },
-    { value: 'roboto', label: 'Roboto' },
-    { value: 'source', label: 'Source Sans 3' },
-    { value: 'montserrat', label: 'Montserrat' },
-    { value: 'serif', label: 'Serif' },
-    { value: 'mono', label: 'Monospace' },
-  ];
-
-  const fontSizes = [8, 9, 10, 11, 12, 14, 16, 18, 20, 24, 30, 36, 48, 60, 72];
-
   const highlightColors = [
     { value: '#FEF3C7', label: 'Yellow', bg: 'bg-yellow-100' },
     { value: '#D1FAE5', label: 'Green', bg: 'bg-green-100' },
@@ -88,6 +110,12 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({
             onClick={onExport} 
             tooltip="Export Entry as TXT" 
           />
+          <Button 
+            variant="secondary" 
+            icon={<History />} 
+            onClick={onHistory} 
+            tooltip="Entry History" 
+          />
           <Button 
             variant="ghost" 
             className="text-red-500 hover:bg-red-50 hover:text-red-600 dark:hover:bg-red-900/20"
@@ -104,6 +132,20 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({
             onClick={() => onSettingChange('darkMode', !settings.darkMode)}
             tooltip="Toggle Theme"
           />
+          <Button 
+            variant="ghost" 
+            icon={<Settings />} 
+            onClick={onOpenSettings}
+            tooltip="Settings Sync"
+          />
+          {onOpenEncryption && (
+            <Button 
+              variant="ghost" 
+              icon={encrypted ? <Lock /> : <LockOpen />} 
+              onClick={onOpenEncryption}
+              tooltip={encrypted ? 'Encryption' : 'Encrypt Diary'}
+            />
+          )}
         </div>
       </div>
 
@@ -118,7 +160,7 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({
             onChange={(e) => onSettingChange('editorFont', e.target.value)}
             className="h-8 pl-8 pr-2 rounded-md border border-transparent hover:border-gray-200 dark:hover:border-gray-600 bg-transparent text-sm text-textMain focus:ring-2 focus:ring-primary/20 focus:outline-none font-medium cursor-pointer transition-all appearance-none min-w-[120px]"
           >
-            {fontOptions.map(font => (
+            {FONT_OPTIONS.map(font => (
               <option key={font.value} value={font.value}>{font.label}</option>
             ))}
           </select>
@@ -136,7 +178,7 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({
             className="h-8 w-16 pl-3 pr-1 rounded-md border border-transparent hover:border-gray-200 dark:hover:border-gray-600 bg-transparent text-sm text-textMain focus:ring-2 focus:ring-primary/20 focus:outline-none font-medium cursor-pointer transition-all appearance-none text-center"
             title="Font Size"
           >
-            {fontSizes.map(size => (
+            {FONT_SIZES.map(size => (
               <option key={size} value={size}>{size}</option>
             ))}
           </select>
@@ -228,6 +270,60 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({
           )}
         </div>
 
+        {/* Templates */}
+        <div className="relative">
+          <Button 
+            variant={showTemplates ? "secondary" : "ghost"}
+            icon={<LayoutTemplate className="w-4 h-4" />} 
+            onClick={() => setShowTemplates(!showTemplates)} 
+            className="h-8 w-8 px-0"
+            tooltip="Insert Template"
+          />
+          {showTemplates && (
+            <>
+              <div className="fixed inset-0 z-40" onClick={() => setShowTemplates(false)} />
+              <div className="absolute top-10 left-0 z-50 w-56 py-1 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 shadow-xl">
+                {settings.templates.map(template => (
+                  <button
+                    key={template.id}
+                    onClick={() => { setShowTemplates(false); onApplyTemplate(template); }}
+                    className="w-full px-3 py-2 text-sm text-left text-textMain truncate hover:bg-gray-100 dark:hover:bg-gray-700"
+                  >
+                    {template.name}
+                  </button>
+                ))}
+                {settings.templates.length > 0 && <div className="my-1 h-px bg-gray-200 dark:bg-gray-700" />}
+                <button
+                  onClick={() => { setShowTemplates(false); onManageTemplates(); }}
+                  className="w-full px-3 py-2 text-sm text-left text-textSecondary hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  Manage templates…
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Attachments: images go into the text, other files into the entry's attachment strip */}
+        <Button 
+          variant="ghost"
+          icon={<Paperclip className="w-4 h-4" />} 
+          onClick={() => fileInputRef.current?.click()} 
+          className="h-8 w-8 px-0"
+          tooltip="Attach Image or File"
+        />
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files || []);
+            e.target.value = '';
+            if (files.length > 0) onAttach(files);
+          }}
+        />
+
       </div>
     </div>
   );
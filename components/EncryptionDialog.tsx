@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { KeyRound, X, AlertTriangle, Lock, Unlock } from 'lucide-react';
+import { EncryptionState } from '../utils/encryption';
+import { Button } from './Button';
+
+interface EncryptionDialogProps {
+  state: EncryptionState;
+  onSetPassphrase: (passphrase: string) => Promise<void>; // Turns encryption on
+  onUnlock: (passphrase: string) => Promise<void>;
+  onChangePassphrase: (current: string, next: string) => Promise<void>;
+  onDisable: (current: string) => Promise<void>;
+  onLock: () => Promise<void>;
+  onClose: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+type View = 'overview' | 'change' | 'disable';
+
+const inputClass = "w-full px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-primary focus:outline-none";
+
+const LostPassphraseWarning: React.FC = () => (
+  <div className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 flex items-start gap-2 text-sm text-amber-700 dark:text-amber-300">
+    <AlertTriangle className="w-5 h-5 shrink-0" />
+    <span>
+      Your passphrase is never sent to the server and cannot be reset. If you forget it, your synced
+      diary cannot be decrypted by anyone, including us — it is lost for good.
+    </span>
+  </div>
+);
+
+export const EncryptionDialog: React.FC<EncryptionDialogProps> = ({
+  state,
+  onSetPassphrase,
+  onUnlock,
+  onChangePassphrase,
+  onDisable,
+  onLock,
+  onClose
+}) => {
+  const [view, setView] = useState<View>('overview');
+  const [current, setCurrent] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const choosing = !state.enabled || view === 'change';
+  const newPassphraseError =
+    passphrase.length < MIN_PASSPHRASE_LENGTH ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`
+    : passphrase !== confirmation ? 'The passphrases do not match.'
+    : null;
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      onClose();
+    } catch (err: any) {
+      setError(err?.message || 'Something went wrong.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!state.enabled) run(() => onSetPassphrase(passphrase));
+    else if (!state.unlocked) run(() => onUnlock(current));
+    else if (view === 'change') run(() => onChangePassphrase(current, passphrase));
+    else if (view === 'disable') run(() => onDisable(current));
+  };
+
+  const title = !state.enabled ? 'Encrypt your diary'
+    : !state.unlocked ? 'Unlock your diary'
+    : view === 'change' ? 'Change passphrase'
+    : view === 'disable' ? 'Turn off encryption'
+    : 'Encryption';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-md bg-bgSurface rounded-2xl shadow-xl border border-borderSoft p-6 flex flex-col gap-4"
+      >
+        <div className="flex items-center gap-2 text-lg font-bold text-textMain font-serif">
+          <KeyRound className="w-5 h-5 text-primary" />
+          <span className="flex-1">{title}</span>
+          <button type="button" onClick={onClose} className="text-textSecondary hover:text-textMain">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!state.enabled && (
+          <p className="text-sm text-textSecondary">
+            Entries and tags are encrypted on this device before they are synced, so only someone with
+            your passphrase can read them. You will enter it once on each device you use.
+          </p>
+        )}
+        {state.enabled && !state.unlocked && (
+          <p className="text-sm text-textSecondary">
+            Your diary is encrypted. Enter your passphrase to sync this device. Entries already on this
+            device stay available meanwhile.
+          </p>
+        )}
+        {state.enabled && state.unlocked && view === 'overview' && (
+          <p className="text-sm text-textSecondary">
+            Your entries are encrypted before they leave this device.
+          </p>
+        )}
+        {view === 'disable' && (
+          <p className="text-sm text-textSecondary">
+            Your entries will be uploaded again without encryption, readable by anyone with access to the server.
+          </p>
+        )}
+
+        {state.enabled && (!state.unlocked || view !== 'overview') && (
+          <input
+            type="password"
+            autoFocus
+            placeholder={state.unlocked ? 'Current passphrase' : 'Passphrase'}
+            value={current}
+            onChange={(e) => setCurrent(e.target.value)}
+            className={inputClass}
+          />
+        )}
+
+        {choosing && (
+          <>
+            <input
+              type="password"
+              autoFocus={!state.enabled}
+              placeholder="New passphrase"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              className={inputClass}
+            />
+            <input
+              type="password"
+              placeholder="Repeat new passphrase"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              className={inputClass}
+            />
+            {passphrase && newPassphraseError && (
+              <p className="text-xs text-textSecondary">{newPassphraseError}</p>
+            )}
+            <LostPassphraseWarning />
+            <label className="flex items-start gap-3 text-sm text-textMain cursor-pointer">
+              <input
+                type="checkbox"
+                checked={acknowledged}
+                onChange={(e) => setAcknowledged(e.target.checked)}
+                className="mt-0.5 accent-primary"
+              />
+              <span>I understand that a lost passphrase means a lost diary.</span>
+            </label>
+          </>
+        )}
+
+        {error && (
+          <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-600 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          {state.enabled && state.unlocked && view === 'overview' ? (
+            <>
+              <Button type="button" variant="danger" label="Turn off" onClick={() => setView('disable')} />
+              <Button type="button" variant="ghost" icon={<Lock />} label="Lock this device" onClick={() => run(onLock)} />
+              <Button type="button" variant="primary" label="Change passphrase" onClick={() => setView('change')} />
+            </>
+          ) : (
+            <>
+              <Button type="button" variant="ghost" label={state.unlocked ? 'Cancel' : 'Not now'} onClick={onClose} />
+              <Button
+                type="submit"
+                variant={view === 'disable' ? 'danger' : 'primary'}
+                icon={!state.unlocked ? <Unlock /> : undefined}
+                label={
+                  busy ? 'Working...'
+                  : !state.enabled ? 'Turn on encryption'
+                  : !state.unlocked ? 'Unlock'
+                  : view === 'disable' ? 'Turn off encryption'
+                  : 'Change passphrase'
+                }
+                disabled={busy || (choosing && (!!newPassphraseError || !acknowledged)) || (state.enabled && !current)}
+              />
+            </>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
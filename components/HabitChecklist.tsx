@@ -0,0 +1,44 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+import { Habit } from '../types';
+
+interface HabitChecklistProps {
+  habits: Habit[];
+  checked: string[]; // Checked in the open entry
+  doneElsewhere: Set<string>; // Checked in another entry of the same day
+  onToggle: (habitId: string) => void;
+}
+
+export const HabitChecklist: React.FC<HabitChecklistProps> = ({ habits, checked, doneElsewhere, onToggle }) => {
+  if (habits.length === 0) return null;
+
+  return (
+    <div className="px-8 pb-3 flex flex-wrap items-center gap-2">
+      {habits.map(habit => {
+        const here = checked.includes(habit.id);
+        const elsewhere = !here && doneElsewhere.has(habit.id);
+        const done = here || elsewhere;
+        return (
+          <button
+            key={habit.id}
+            onClick={() => onToggle(habit.id)}
+            disabled={elsewhere}
+            className={`flex items-center gap-1.5 pl-1.5 pr-3 py-1 rounded-full border text-sm transition-colors ${
+              done ? 'text-textMain' : 'border-borderSoft text-textSecondary hover:border-primary'
+            } ${elsewhere ? 'opacity-60 cursor-default' : ''}`}
+            style={done ? { borderColor: habit.color, backgroundColor: `${habit.color}1F` } : undefined}
+            title={elsewhere ? 'Checked in another entry of this day' : undefined}
+          >
+            <span
+              className="w-4 h-4 rounded-full border flex items-center justify-center"
+              style={{ borderColor: habit.color, backgroundColor: done ? habit.color : undefined }}
+            >
+              {done && <Check className="w-3 h-3 text-white" />}
+            </span>
+            {habit.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
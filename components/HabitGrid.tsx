@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from 'react';
+import { ListChecks, X, Plus, Trash2, ChevronLeft, ChevronRight, Flame } from 'lucide-react';
+import { addMonths, eachDayOfInterval, endOfMonth, format, isAfter, isSameDay, startOfMonth } from 'date-fns';
+import { DiaryEntry, Habit } from '../types';
+import { createHabit, getCompletionRate, getDayHabits, getHabitStats, HABIT_COLORS } from '../utils/habits';
+import { formatDateForStorage, getMonthYear } from '../utils/dateUtils';
+import { Button } from './Button';
+
+interface HabitGridProps {
+  entries: Record<string, DiaryEntry>;
+  habits: Habit[];
+  initialMonth: Date;
+  onChangeHabits: (habits: Habit[]) => void;
+  onOpenDay: (date: Date) => void;
+  onClose: () => void;
+}
+
+const inputClass = "px-2 py-1 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-md focus:ring-2 focus:ring-primary focus:outline-none";
+
+const nextColor = (color: string) => HABIT_COLORS[(HABIT_COLORS.indexOf(color) + 1) % HABIT_COLORS.length];
+
+export const HabitGrid: React.FC<HabitGridProps> = ({ entries, habits, initialMonth, onChangeHabits, onOpenDay, onClose }) => {
+  const [month, setMonth] = useState(startOfMonth(initialMonth));
+  // Starts in edit mode when there is nothing to show yet
+  const [editingHabits, setEditingHabits] = useState<Habit[] | null>(habits.length === 0 ? [] : null);
+
+  const days = useMemo(() => getDayHabits(entries), [entries]);
+  const monthDays = eachDayOfInterval({ start: month, end: endOfMonth(month) });
+  const today = new Date();
+
+  const updateHabit = (id: string, changes: Partial<Habit>) => {
+    if (!editingHabits) return;
+    setEditingHabits(editingHabits.map(habit => (habit.id === id ? { ...habit, ...changes } : habit)));
+  };
+
+  const saveHabits = () => {
+    if (!editingHabits) return;
+    onChangeHabits(editingHabits.map(habit => ({ ...habit, name: habit.name.trim() })));
+    setEditingHabits(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+      <div className="w-full max-w-4xl max-h-[90vh] overflow-y-auto custom-scrollbar bg-bgSurface rounded-2xl shadow-xl border border-borderSoft p-6 flex flex-col gap-5">
+        <div className="flex items-center gap-2 text-lg font-bold text-textMain font-serif">
+          <ListChecks className="w-5 h-5 text-primary" />
+          <span className="flex-1">Habits</span>
+          <button onClick={onClose} className="text-textSecondary hover:text-textMain">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {habits.length > 0 && (
+          <div className="flex flex-col gap-3">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setMonth(addMonths(month, -1))}
+                className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full"
+              >
+                <ChevronLeft className="w-5 h-5" />
+              </button>
+              <span className="w-36 text-center text-sm font-semibold text-textMain capitalize">{getMonthYear(month)}</span>
+              <button
+                onClick={() => setMonth(addMonths(month, 1))}
+                className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full"
+              >
+                <ChevronRight className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="overflow-x-auto custom-scrollbar">
+              <table className="text-xs border-separate border-spacing-0.5">
+                <thead>
+                  <tr className="text-textSecondary">
+                    <th />
+                    {monthDays.map(date => (
+                      <th key={date.toString()} className={`w-5 font-normal ${isSameDay(date, today) ? 'text-primary font-bold' : ''}`}>
+                        {format(date, 'd')}
+                      </th>
+                    ))}
+                    <th className="pl-3 font-normal text-right" title="Current streak">
+                      <Flame className="w-3.5 h-3.5 inline" />
+                    </th>
+                    <th className="pl-2 font-normal text-right">Best</th>
+                    <th className="pl-2 font-normal text-right">Month</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {habits.map(habit => {
+                    const stats = getHabitStats(days, habit.id, today);
+                    const rate = getCompletionRate(days, habit.id, month, today);
+                    return (
+                      <tr key={habit.id}>
+                        <td className="pr-3 max-w-[9rem] truncate text-sm text-textMain">{habit.name}</td>
+                        {monthDays.map(date => {
+                          const dayKey = formatDateForStorage(date);
+                          const done = !!days[dayKey]?.has(habit.id);
+                          const future = isAfter(date, today);
+                          return (
+                            <td key={dayKey}>
+                              <button
+                                onClick={() => onOpenDay(date)}
+                                disabled={future}
+                                className={`w-5 h-5 rounded ${done ? '' : 'bg-gray-100 dark:bg-gray-800'} ${future ? 'opacity-40' : 'hover:ring-2 hover:ring-primary'}`}
+                                style={done ? { backgroundColor: habit.color } : undefined}
+                                title={`${habit.name} · ${format(date, 'dd/MM')}${done ? ' · done' : ''}`}
+                              />
+                            </td>
+                          );
+                        })}
+                        <td className="pl-3 text-right font-semibold text-textMain">{stats.currentStreak}</td>
+                        <td className="pl-2 text-right text-textSecondary">{stats.bestStreak}</td>
+                        <td className="pl-2 text-right text-textSecondary">{rate === null ? '–' : `${Math.round(rate * 100)}%`}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-textSecondary">
+              Check habits off next to the date of an entry. Click a day to open it.
+            </p>
+          </div>
+        )}
+
+        <div className={`flex flex-col gap-2 ${habits.length > 0 ? 'pt-4 border-t border-borderSoft' : ''}`}>
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-textMain">Your habits</h3>
+            {!editingHabits && (
+              <button onClick={() => setEditingHabits(habits)} className="text-xs text-primary hover:underline">
+                Edit
+              </button>
+            )}
+          </div>
+
+          {editingHabits ? (
+            <>
+              <p className="text-xs text-textSecondary">
+                Removing a habit hides it everywhere; the days it was checked are kept on the entries.
+              </p>
+              {editingHabits.map(habit => (
+                <div key={habit.id} className="flex items-center gap-2">
+                  <button
+                    onClick={() => updateHabit(habit.id, { color: nextColor(habit.color) })}
+                    className="w-6 h-6 rounded-full shrink-0 border border-black/10"
+                    style={{ backgroundColor: habit.color }}
+                    title="Change color"
+                  />
+                  <input
+                    value={habit.name}
+                    onChange={e => updateHabit(habit.id, { name: e.target.value })}
+                    placeholder="Exercise, reading, meds..."
+                    className={`${inputClass} flex-1`}
+                    aria-label="Name"
+                  />
+                  <button
+                    onClick={() => setEditingHabits(editingHabits.filter(item => item.id !== habit.id))}
+                    className="text-textSecondary hover:text-red-500"
+                    title="Remove habit"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="ghost"
+                  icon={<Plus />}
+                  label="Add habit"
+                  onClick={() => setEditingHabits([...editingHabits, createHabit('', editingHabits)])}
+                />
+                <span className="flex-1" />
+                <Button variant="secondary" label="Cancel" onClick={() => (habits.length > 0 ? setEditingHabits(null) : onClose())} />
+                <Button
+                  variant="primary"
+                  label="Save"
+                  onClick={saveHabits}
+                  disabled={editingHabits.some(habit => !habit.name.trim())}
+                />
+              </div>
+            </>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {habits.map(habit => (
+                <span key={habit.id} className="flex items-center gap-1.5 px-2.5 py-1 rounded-full border border-borderSoft text-sm text-textMain">
+                  <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: habit.color }} />
+                  {habit.name}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
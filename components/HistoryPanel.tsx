@@ -0,0 +1,157 @@
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { History, X, RotateCcw, Trash2 } from 'lucide-react';
+import { EntryRevision } from '../types';
+import { diffText, countWords, htmlToText } from '../utils/history';
+import { formatDateForDisplay } from '../utils/dateUtils';
+import { Button } from './Button';
+
+interface HistoryPanelProps {
+  date: string;
+  revisions: EntryRevision[]; // Newest first
+  deletedRevisions: EntryRevision[]; // Versions of the day's deleted entries, newest first
+  currentContent: string;
+  syncEnabled: boolean;
+  onToggleSync: (enabled: boolean) => void;
+  onRestore: (revision: EntryRevision) => void;
+  onRestoreDeleted: (revision: EntryRevision) => void;
+  onClose: () => void;
+}
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  date,
+  revisions,
+  deletedRevisions,
+  currentContent,
+  syncEnabled,
+  onToggleSync,
+  onRestore,
+  onRestoreDeleted,
+  onClose
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>((revisions[0] ?? deletedRevisions[0])?.id ?? null);
+  const selected = [...revisions, ...deletedRevisions].find(r => r.id === selectedId) || revisions[0] || deletedRevisions[0];
+  const selectedDeleted = !!selected && deletedRevisions.includes(selected);
+
+  // What changed from the selected revision to the text in the editor now.
+  // A deleted entry's version has nothing to compare with and is shown as it was.
+  const diff = useMemo(
+    () => (selected ? diffText(selected.content, selectedDeleted ? selected.content : currentContent) : []),
+    [selected, selectedDeleted, currentContent]
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+      <div className="w-full max-w-5xl bg-bgSurface rounded-2xl shadow-xl border border-borderSoft flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-borderSoft flex items-start gap-4">
+          <div className="flex-1">
+            <div className="flex items-center gap-2 text-lg font-bold text-textMain font-serif">
+              <History className="w-5 h-5 text-primary" />
+              History
+            </div>
+            <p className="text-sm text-textSecondary mt-1">
+              Earlier versions of <span className="capitalize">{formatDateForDisplay(date)}</span>. Restoring keeps the current text in the history too.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-textSecondary hover:text-textMain">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {revisions.length === 0 && deletedRevisions.length === 0 ? (
+          <div className="p-6 text-sm italic text-textSecondary">
+            No earlier versions yet. A version is kept each time you come back to edit this entry.
+          </div>
+        ) : (
+          <div className="flex flex-col md:flex-row min-h-0 flex-1">
+            <div className="md:w-64 shrink-0 border-b md:border-b-0 md:border-r border-borderSoft overflow-y-auto custom-scrollbar max-h-[30vh] md:max-h-none">
+              {revisions.map((revision, i) => {
+                const older = revisions[i + 1];
+                const delta = revision.wordCount - (older ? older.wordCount : 0);
+                return (
+                  <button
+                    key={revision.id}
+                    onClick={() => setSelectedId(revision.id)}
+                    className={`w-full text-left px-4 py-2 text-sm border-b border-borderSoft ${
+                      revision.id === selected?.id ? 'bg-primary/10 text-textMain' : 'text-textSecondary hover:bg-gray-50 dark:hover:bg-gray-800'
+                    }`}
+                  >
+                    <div className="font-medium">{format(revision.savedAt, 'dd/MM/yyyy HH:mm')}</div>
+                    <div className="text-xs">
+                      {revision.wordCount} words · {formatDelta(delta)}
+                    </div>
+                  </button>
+                );
+              })}
+              {deletedRevisions.length > 0 && (
+                <div className="px-4 pt-3 pb-1 flex items-center gap-1.5 text-xs font-semibold uppercase tracking-wide text-textSecondary">
+                  <Trash2 className="w-3.5 h-3.5" />
+                  Deleted entries
+                </div>
+              )}
+              {deletedRevisions.map(revision => (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full text-left px-4 py-2 text-sm border-b border-borderSoft ${
+                    revision.id === selected?.id ? 'bg-primary/10 text-textMain' : 'text-textSecondary hover:bg-gray-50 dark:hover:bg-gray-800'
+                  }`}
+                >
+                  <div className="font-medium">{format(revision.savedAt, 'dd/MM/yyyy HH:mm')}</div>
+                  <div className="text-xs truncate">{htmlToText(revision.content).replace(/\s+/g, ' ').trim()}</div>
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="flex-1 min-w-0 flex flex-col">
+                <div className="px-4 py-2 text-xs text-textSecondary border-b border-borderSoft flex items-center gap-3">
+                  {selectedDeleted ? (
+                    <span className="flex-1">A version of a deleted entry ({selected.wordCount} words)</span>
+                  ) : (
+                    <>
+                      <span className="flex-1">
+                        Compared with the current text ({formatDelta(countWords(currentContent) - selected.wordCount)} words)
+                      </span>
+                      <span className="px-1 rounded bg-red-100 dark:bg-red-900/40 line-through">removed</span>
+                      <span className="px-1 rounded bg-green-100 dark:bg-green-900/40">added</span>
+                    </>
+                  )}
+                </div>
+                <div className="flex-1 p-4 text-sm text-textMain whitespace-pre-wrap overflow-y-auto max-h-[50vh] custom-scrollbar">
+                  {diff.map((op, i) => {
+                    const text = op.items.join('');
+                    if (op.type === 'equal') return <span key={i}>{text}</span>;
+                    if (op.type === 'delete') {
+                      return <del key={i} className="bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300">{text}</del>;
+                    }
+                    return <ins key={i} className="no-underline bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300">{text}</ins>;
+                  })}
+                </div>
+                <div className="p-3 border-t border-borderSoft flex justify-end">
+                  {selectedDeleted ? (
+                    <Button variant="primary" icon={<RotateCcw />} label="Restore this entry" onClick={() => onRestoreDeleted(selected)} />
+                  ) : (
+                    <Button variant="primary" icon={<RotateCcw />} label="Restore this version" onClick={() => onRestore(selected)} />
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <label className="px-6 py-3 border-t border-borderSoft flex items-center gap-2 text-xs text-textSecondary cursor-pointer">
+          <input
+            type="checkbox"
+            checked={syncEnabled}
+            onChange={(e) => onToggleSync(e.target.checked)}
+            className="accent-primary"
+          />
+          Sync history to my account (otherwise it stays on this device)
+        </label>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { X, Trash2 } from 'lucide-react';
+import { FontFamily, Journal, JournalIcon, JournalSettings } from '../types';
+import { JOURNAL_COLORS, JOURNAL_ICONS, DEFAULT_JOURNAL_ID } from '../utils/journals';
+import { JournalIconView } from './JournalSwitcher';
+import { FONT_OPTIONS, FONT_SIZES } from './EditorToolbar';
+import { Button } from './Button';
+
+interface JournalDialogProps {
+  journal: Journal | null; // null: creating a new journal
+  entryCount: number;
+  onSave: (fields: Pick<Journal, 'name' | 'color' | 'icon' | 'settings'>) => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+const selectClass = "px-2 py-1 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-md focus:ring-2 focus:ring-primary focus:outline-none";
+
+export const JournalDialog: React.FC<JournalDialogProps> = ({ journal, entryCount, onSave, onDelete, onClose }) => {
+  const [name, setName] = useState(journal?.name ?? '');
+  const [color, setColor] = useState(journal?.color ?? JOURNAL_COLORS[1]);
+  const [icon, setIcon] = useState<JournalIcon>(journal?.icon ?? 'book');
+  const [settings, setSettings] = useState<JournalSettings>(journal?.settings ?? {});
+
+  const canDelete = !!journal && journal.id !== DEFAULT_JOURNAL_ID;
+
+  const setSetting = <K extends keyof JournalSettings>(key: K, value: JournalSettings[K] | undefined) => {
+    const next = { ...settings };
+    if (value === undefined) delete next[key];
+    else next[key] = value;
+    setSettings(next);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave({ name: name.trim(), color, icon, settings });
+  };
+
+  const handleDelete = () => {
+    const entries = entryCount === 1 ? '1 entry' : `${entryCount} entries`;
+    const message = entryCount > 0
+      ? `Delete "${journal?.name}"? Its ${entries} will move to your default journal.`
+      : `Delete "${journal?.name}"?`;
+    if (window.confirm(message)) onDelete();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-md bg-bgSurface rounded-2xl shadow-xl border border-borderSoft p-6 flex flex-col gap-4"
+      >
+        <div className="flex items-center gap-2 text-lg font-bold text-textMain font-serif">
+          <JournalIconView icon={icon} color={color} className="w-5 h-5" />
+          <span className="flex-1">{journal ? 'Edit journal' : 'New journal'}</span>
+          <button type="button" onClick={onClose} className="text-textSecondary hover:text-textMain">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <input
+          autoFocus
+          type="text"
+          placeholder="Name, e.g. Work log"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="w-full px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-primary focus:outline-none"
+        />
+
+        <div className="flex flex-wrap gap-2">
+          {JOURNAL_COLORS.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setColor(option)}
+              className={`w-7 h-7 rounded-full border-2 ${color === option ? 'border-textMain' : 'border-transparent'}`}
+              style={{ backgroundColor: option }}
+              aria-label={option}
+            />
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {JOURNAL_ICONS.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setIcon(option)}
+              className={`p-2 rounded-lg border ${icon === option ? 'border-primary bg-primary/10' : 'border-borderSoft hover:border-primary'}`}
+              aria-label={option}
+            >
+              <JournalIconView icon={option} color={color} className="w-4 h-4" />
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-col gap-2 pt-4 border-t border-borderSoft text-sm">
+          <h3 className="font-semibold text-textMain">Editor in this journal</h3>
+          <p className="text-xs text-textSecondary">Settings left on "App setting" follow the toolbar like everywhere else.</p>
+
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-textMain">Font</span>
+            <select
+              value={settings.editorFont ?? ''}
+              onChange={(e) => setSetting('editorFont', (e.target.value || undefined) as FontFamily | undefined)}
+              className={selectClass}
+            >
+              <option value="">App setting</option>
+              {FONT_OPTIONS.map(font => (
+                <option key={font.value} value={font.value}>{font.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-textMain">Font size</span>
+            <select
+              value={settings.editorFontSize ?? ''}
+              onChange={(e) => setSetting('editorFontSize', e.target.value ? Number(e.target.value) : undefined)}
+              className={selectClass}
+            >
+              <option value="">App setting</option>
+              {FONT_SIZES.map(size => (
+                <option key={size} value={size}>{size}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-textMain">Text color</span>
+            <div className="flex items-center gap-2">
+              {settings.editorColor && (
+                <input
+                  type="color"
+                  value={settings.editorColor}
+                  onChange={(e) => setSetting('editorColor', e.target.value)}
+                  className="w-8 h-8 cursor-pointer bg-transparent"
+                />
+              )}
+              <select
+                value={settings.editorColor ? 'custom' : ''}
+                onChange={(e) => setSetting('editorColor', e.target.value ? '#111827' : undefined)}
+                className={selectClass}
+              >
+                <option value="">App setting</option>
+                <option value="custom">Custom</option>
+              </select>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 pt-2">
+          {canDelete && (
+            <Button type="button" variant="danger" icon={<Trash2 />} label="Delete" onClick={handleDelete} />
+          )}
+          <span className="flex-1" />
+          <Button type="button" variant="secondary" label="Cancel" onClick={onClose} />
+          <Button type="submit" variant="primary" label={journal ? 'Save' : 'Create'} disabled={!name.trim()} />
+        </div>
+      </form>
+    </div>
+  );
+};
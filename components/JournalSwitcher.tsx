@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Book, Briefcase, Moon, Plane, Heart, Star, Coffee, PenLine, ChevronDown, Pencil, Plus, Library } from 'lucide-react';
+import { Journal, JournalIcon } from '../types';
+
+const ICONS: Record<JournalIcon, React.FC<{ className?: string; style?: React.CSSProperties }>> = {
+  book: Book,
+  briefcase: Briefcase,
+  moon: Moon,
+  plane: Plane,
+  heart: Heart,
+  star: Star,
+  coffee: Coffee,
+  pen: PenLine,
+};
+
+export const JournalIconView: React.FC<{ icon: JournalIcon; color?: string; className?: string }> = ({ icon, color, className }) => {
+  const Icon = ICONS[icon] || Book;
+  return <Icon className={className} style={color ? { color } : undefined} />;
+};
+
+interface JournalSwitcherProps {
+  journals: Journal[];
+  activeId: string | null; // null: all journals
+  counts: Record<string, number>; // Live entries per journal id
+  onSelect: (id: string | null) => void;
+  onCreate: () => void;
+  onEdit: (journal: Journal) => void;
+}
+
+export const JournalSwitcher: React.FC<JournalSwitcherProps> = ({ journals, activeId, counts, onSelect, onCreate, onEdit }) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const active = journals.find(journal => journal.id === activeId);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const choose = (id: string | null) => {
+    onSelect(id);
+    setOpen(false);
+  };
+
+  const total = (Object.values(counts) as number[]).reduce((sum, count) => sum + count, 0);
+  const rowClass = (selected: boolean) => `
+    flex-1 min-w-0 flex items-center gap-2 px-2 py-1.5 rounded-md text-sm text-left
+    ${selected ? 'bg-primary/10 text-textMain font-medium' : 'text-textSecondary hover:bg-gray-100 dark:hover:bg-gray-800'}
+  `;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg hover:border-primary transition-colors"
+      >
+        {active ? (
+          <JournalIconView icon={active.icon} color={active.color} className="w-4 h-4 shrink-0" />
+        ) : (
+          <Library className="w-4 h-4 shrink-0 text-textSecondary" />
+        )}
+        <span className="flex-1 text-left truncate text-textMain">{active ? active.name : 'All journals'}</span>
+        <ChevronDown className="w-4 h-4 text-textSecondary" />
+      </button>
+
+      {open && (
+        <div className="absolute z-40 left-0 right-0 top-full mt-1 p-1 bg-bgSurface rounded-lg shadow-lg border border-borderSoft flex flex-col">
+          <button onClick={() => choose(null)} className={rowClass(activeId === null)}>
+            <Library className="w-4 h-4 shrink-0" />
+            <span className="flex-1 truncate">All journals</span>
+            <span className="text-xs">{total}</span>
+          </button>
+
+          {journals.map(journal => (
+            <div key={journal.id} className="flex items-center gap-1">
+              <button onClick={() => choose(journal.id)} className={rowClass(activeId === journal.id)}>
+                <JournalIconView icon={journal.icon} color={journal.color} className="w-4 h-4 shrink-0" />
+                <span className="flex-1 truncate">{journal.name}</span>
+                <span className="text-xs">{counts[journal.id] || 0}</span>
+              </button>
+              <button
+                onClick={() => {
+                  setOpen(false);
+                  onEdit(journal);
+                }}
+                className="p-1.5 text-textSecondary hover:text-textMain"
+                title="Edit journal"
+              >
+                <Pencil className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+
+          <button
+            onClick={() => {
+              setOpen(false);
+              onCreate();
+            }}
+            className="flex items-center gap-2 px-2 py-1.5 mt-1 border-t border-borderSoft text-sm text-primary hover:bg-primary/10 rounded-md"
+          >
+            <Plus className="w-4 h-4" />
+            New journal
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { Lock, AlertCircle, AlertTriangle, Loader } from 'lucide-react';
+import { AppLockKind, UnlockResult } from '../utils/appLock';
+import { Button } from './Button';
+import { Logo } from './Logo';
+
+interface LockScreenProps {
+  kind: AppLockKind;
+  email: string | null;
+  initialRetryAt: number | null;
+  onUnlock: (secret: string) => Promise<UnlockResult>;
+  pendingChanges: number;
+  // Signs out and removes this device's copy of the diary, lock included; signing back in downloads it again.
+  // Not offered to guests: there is no account to restore the diary from.
+  onReset?: () => void;
+}
+
+export const LockScreen: React.FC<LockScreenProps> = ({ kind, email, initialRetryAt, pendingChanges, onUnlock, onReset }) => {
+  const [secret, setSecret] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [retryAt, setRetryAt] = useState<number | null>(initialRetryAt);
+  const [now, setNow] = useState(Date.now());
+  const [confirmReset, setConfirmReset] = useState(false);
+
+  // Ticks the lockout countdown
+  useEffect(() => {
+    if (!retryAt) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= retryAt) setRetryAt(null);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  const waitSeconds = retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+  const label = kind === 'pin' ? 'PIN' : 'passphrase';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!secret || waitSeconds > 0) return;
+    setChecking(true);
+    setError(null);
+    try {
+      const result = await onUnlock(secret);
+      if (!result.ok) {
+        setSecret('');
+        setError(`Wrong ${label}.`);
+        setRetryAt(result.retryAt);
+        setNow(Date.now());
+      }
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-bgMain/60 px-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-100 dark:border-gray-700 p-8 flex flex-col items-center gap-5"
+      >
+        <Logo className="w-14 h-14 text-primary" />
+        <div className="text-center">
+          <h1 className="text-xl font-bold text-textMain font-serif flex items-center justify-center gap-2">
+            <Lock className="w-5 h-5" /> GrayNote is locked
+          </h1>
+          {email && <p className="text-sm text-textSecondary mt-1">{email}</p>}
+        </div>
+
+        <input
+          type="password"
+          inputMode={kind === 'pin' ? 'numeric' : undefined}
+          autoComplete="off"
+          autoFocus
+          placeholder={`Enter your ${label}`}
+          value={secret}
+          onChange={(e) => setSecret(e.target.value)}
+          disabled={waitSeconds > 0}
+          className="w-full px-3 py-2 text-center tracking-widest bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-primary focus:outline-none disabled:opacity-50"
+        />
+
+        {(error || waitSeconds > 0) && (
+          <div className="w-full p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 flex items-start gap-2 text-sm text-red-600 dark:text-red-400">
+            <AlertCircle className="w-5 h-5 shrink-0" />
+            <span>
+              {error}
+              {waitSeconds > 0 && ` Too many attempts — try again in ${waitSeconds}s.`}
+            </span>
+          </div>
+        )}
+
+        <Button
+          type="submit"
+          className="w-full"
+          icon={checking ? <Loader className="animate-spin" /> : undefined}
+          label="Unlock"
+          disabled={!secret || checking || waitSeconds > 0}
+        />
+
+        {onReset && !confirmReset && (
+          <button type="button" onClick={() => setConfirmReset(true)} className="text-xs text-textSecondary hover:text-textMain">
+            Forgot your {label}?
+          </button>
+        )}
+
+        {onReset && confirmReset && (
+          <div className="w-full flex flex-col gap-3 text-sm text-textMain">
+            <p>
+              Sign out and remove your diary from this device. Your entries stay in your account and are downloaded
+              again when you sign back in, without the {label}.
+            </p>
+            {pendingChanges > 0 && (
+              <div className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 flex items-start gap-2 text-amber-700 dark:text-amber-300">
+                <AlertTriangle className="w-5 h-5 shrink-0" />
+                <span>
+                  {pendingChanges} {pendingChanges === 1 ? 'change has' : 'changes have'} not reached the server yet and will be lost.
+                </span>
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" label="Cancel" onClick={() => setConfirmReset(false)} />
+              <Button type="button" variant="danger" label="Sign out and clear" onClick={onReset} />
+            </div>
+          </div>
+        )}
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Smile } from 'lucide-react';
+import { MoodLevel } from '../types';
+import { clampMood, getMoodLevel, moodColor } from '../utils/mood';
+
+interface MoodPickerProps {
+  scale: MoodLevel[];
+  value: number | null;
+  onChange: (value: number | null) => void;
+}
+
+export const MoodPicker: React.FC<MoodPickerProps> = ({ scale, value, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const level = value ? getMoodLevel(value, scale) : null;
+
+  const choose = (next: number | null) => {
+    onChange(next);
+    setOpen(false);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1.5 px-2.5 py-1 rounded-full border text-sm transition-colors hover:border-primary"
+        style={value ? { borderColor: moodColor(value, scale), backgroundColor: moodColor(value, scale, 0.12) } : undefined}
+        title="How did it feel?"
+      >
+        {level ? (
+          <>
+            <span className="text-lg leading-none">{level.emoji}</span>
+            <span className="text-textMain">{level.label}</span>
+          </>
+        ) : (
+          <>
+            <Smile className="w-4 h-4 text-textSecondary" />
+            <span className="text-textSecondary">Mood</span>
+          </>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute z-20 left-0 top-full mt-2 p-2 bg-bgSurface rounded-xl shadow-lg border border-borderSoft flex items-center gap-1">
+          {scale.map((step, i) => {
+            const stepValue = i + 1;
+            const selected = value !== null && clampMood(value, scale) === stepValue;
+            return (
+              <button
+                key={stepValue}
+                onClick={() => choose(stepValue)}
+                className={`flex flex-col items-center w-14 py-1 rounded-lg transition-colors ${selected ? '' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                style={selected ? { backgroundColor: moodColor(stepValue, scale, 0.2) } : undefined}
+              >
+                <span className="text-2xl leading-none">{step.emoji}</span>
+                <span className="text-[10px] text-textSecondary mt-1 truncate max-w-full">{step.label}</span>
+              </button>
+            );
+          })}
+          {value !== null && (
+            <button onClick={() => choose(null)} className="ml-1 px-2 text-xs text-textSecondary hover:text-textMain">
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,215 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, X, Plus, Trash2 } from 'lucide-react';
+import { DiaryEntry, MoodLevel } from '../types';
+import {
+  MoodPeriod,
+  getMoodSeries,
+  getMoodByTag,
+  getMoodLevel,
+  moodColor,
+  MIN_MOOD_LEVELS,
+  MAX_MOOD_LEVELS
+} from '../utils/mood';
+import { Button } from './Button';
+
+interface MoodTrendsProps {
+  entries: Record<string, DiaryEntry>;
+  scale: MoodLevel[];
+  onChangeScale: (scale: MoodLevel[]) => void;
+  onClose: () => void;
+}
+
+const PERIODS: Record<MoodPeriod, { label: string; count: number }> = {
+  week: { label: 'Weeks', count: 12 },
+  month: { label: 'Months', count: 12 },
+};
+
+const CHART_HEIGHT = 120;
+const BAR_WIDTH = 24;
+const BAR_GAP = 8;
+
+const inputClass = "px-2 py-1 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-md focus:ring-2 focus:ring-primary focus:outline-none";
+
+export const MoodTrends: React.FC<MoodTrendsProps> = ({ entries, scale, onChangeScale, onClose }) => {
+  const [period, setPeriod] = useState<MoodPeriod>('week');
+  const [editingScale, setEditingScale] = useState<MoodLevel[] | null>(null);
+
+  const series = useMemo(() => getMoodSeries(entries, period, PERIODS[period].count), [entries, period]);
+  const byTag = useMemo(() => getMoodByTag(entries), [entries]);
+  const hasData = series.some(bucket => bucket.average !== null);
+
+  const barHeight = (average: number) =>
+    scale.length > 1 ? ((Math.min(average, scale.length) - 1) / (scale.length - 1)) * (CHART_HEIGHT - 8) + 8 : CHART_HEIGHT;
+
+  const updateStep = (index: number, changes: Partial<MoodLevel>) => {
+    if (!editingScale) return;
+    setEditingScale(editingScale.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const saveScale = () => {
+    if (!editingScale) return;
+    onChangeScale(editingScale.map(step => ({ emoji: step.emoji.trim(), label: step.label.trim() })));
+    setEditingScale(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+      <div className="w-full max-w-lg max-h-[90vh] overflow-y-auto custom-scrollbar bg-bgSurface rounded-2xl shadow-xl border border-borderSoft p-6 flex flex-col gap-5">
+        <div className="flex items-center gap-2 text-lg font-bold text-textMain font-serif">
+          <LineChart className="w-5 h-5 text-primary" />
+          <span className="flex-1">Mood</span>
+          <button onClick={onClose} className="text-textSecondary hover:text-textMain">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <div className="flex items-center gap-1 self-start p-0.5 rounded-lg bg-gray-100 dark:bg-gray-800 text-xs">
+            {(Object.keys(PERIODS) as MoodPeriod[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setPeriod(key)}
+                className={`px-3 py-1 rounded-md ${period === key ? 'bg-bgSurface text-textMain shadow-sm' : 'text-textSecondary'}`}
+              >
+                {PERIODS[key].label}
+              </button>
+            ))}
+          </div>
+
+          {hasData ? (
+            <div className="overflow-x-auto custom-scrollbar">
+              <svg
+                width={series.length * (BAR_WIDTH + BAR_GAP)}
+                height={CHART_HEIGHT + 20}
+                role="img"
+                aria-label="Average mood per period"
+              >
+                {series.map((bucket, i) => {
+                  const x = i * (BAR_WIDTH + BAR_GAP);
+                  const height = bucket.average === null ? 0 : barHeight(bucket.average);
+                  const level = bucket.average === null ? null : getMoodLevel(bucket.average, scale);
+                  return (
+                    <g key={bucket.label}>
+                      {bucket.average !== null && level && (
+                        <rect
+                          x={x}
+                          y={CHART_HEIGHT - height}
+                          width={BAR_WIDTH}
+                          height={height}
+                          rx={4}
+                          fill={moodColor(bucket.average, scale)}
+                        >
+                          <title>
+                            {`${bucket.label}: ${level.emoji} ${level.label} (${bucket.average.toFixed(1)}, ${bucket.count} ${bucket.count === 1 ? 'day' : 'days'})`}
+                          </title>
+                        </rect>
+                      )}
+                      <text x={x + BAR_WIDTH / 2} y={CHART_HEIGHT + 14} textAnchor="middle" className="fill-current text-textSecondary" fontSize={9}>
+                        {bucket.label}
+                      </text>
+                    </g>
+                  );
+                })}
+              </svg>
+            </div>
+          ) : (
+            <p className="text-sm italic text-textSecondary">
+              No moods recorded in this period. Pick one next to the date of an entry.
+            </p>
+          )}
+        </div>
+
+        {byTag.length > 0 && (
+          <div className="flex flex-col gap-2 pt-4 border-t border-borderSoft">
+            <h3 className="text-sm font-semibold text-textMain">Tags and mood</h3>
+            <p className="text-xs text-textSecondary">Average mood of entries with each tag, compared with all your entries.</p>
+            <div className="divide-y divide-borderSoft border border-borderSoft rounded-xl">
+              {byTag.map(item => (
+                <div key={item.tag} className="flex items-center gap-3 px-4 py-2 text-sm">
+                  <span className="flex-1 text-textMain">#{item.tag}</span>
+                  <span className="text-xs text-textSecondary">{item.count} entries</span>
+                  <span>{getMoodLevel(item.average, scale).emoji}</span>
+                  <span className={`w-12 text-right text-xs font-medium ${item.difference >= 0 ? 'text-primary' : 'text-red-500'}`}>
+                    {item.difference >= 0 ? '+' : ''}{item.difference.toFixed(1)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-col gap-2 pt-4 border-t border-borderSoft">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-textMain">Scale</h3>
+            {!editingScale && (
+              <button onClick={() => setEditingScale(scale)} className="text-xs text-primary hover:underline">
+                Edit
+              </button>
+            )}
+          </div>
+
+          {editingScale ? (
+            <>
+              <p className="text-xs text-textSecondary">
+                From the lowest mood to the highest. Moods already recorded keep their position on the scale.
+              </p>
+              {editingScale.map((step, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <input
+                    value={step.emoji}
+                    onChange={e => updateStep(i, { emoji: e.target.value })}
+                    className={`${inputClass} w-14 text-center`}
+                    aria-label="Emoji"
+                  />
+                  <input
+                    value={step.label}
+                    onChange={e => updateStep(i, { label: e.target.value })}
+                    className={`${inputClass} flex-1`}
+                    aria-label="Label"
+                  />
+                  <button
+                    onClick={() => setEditingScale(editingScale.filter((_, j) => j !== i))}
+                    disabled={editingScale.length <= MIN_MOOD_LEVELS}
+                    className="text-textSecondary hover:text-red-500 disabled:opacity-30"
+                    title="Remove step"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="ghost"
+                  icon={<Plus />}
+                  label="Add step"
+                  onClick={() => setEditingScale([...editingScale, { emoji: '🙂', label: '' }])}
+                  disabled={editingScale.length >= MAX_MOOD_LEVELS}
+                />
+                <span className="flex-1" />
+                <Button variant="secondary" label="Cancel" onClick={() => setEditingScale(null)} />
+                <Button
+                  variant="primary"
+                  label="Save"
+                  onClick={saveScale}
+                  disabled={editingScale.some(step => !step.emoji.trim() || !step.label.trim())}
+                />
+              </div>
+            </>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {scale.map((step, i) => (
+                <span
+                  key={i}
+                  className="flex items-center gap-1 px-2 py-0.5 rounded-full text-sm"
+                  style={{ backgroundColor: moodColor(i + 1, scale, 0.15) }}
+                >
+                  {step.emoji} <span className="text-xs text-textMain">{step.label}</span>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
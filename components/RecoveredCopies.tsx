@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { History, ChevronDown, ChevronUp } from 'lucide-react';
+import { RecoveredCopy } from '../types';
+
+interface RecoveredCopiesProps {
+  copies: RecoveredCopy[];
+  onRestore: (copy: RecoveredCopy) => void;
+  onDiscard: (copy: RecoveredCopy) => void;
+}
+
+export const RecoveredCopies: React.FC<RecoveredCopiesProps> = ({ copies, onRestore, onDiscard }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  if (copies.length === 0) return null;
+
+  return (
+    <div className="mx-8 mb-2 rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 text-sm">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-amber-700 dark:text-amber-300"
+      >
+        <History className="w-4 h-4" />
+        <span className="flex-1 text-left">
+          {copies.length} recovered {copies.length === 1 ? 'copy' : 'copies'} from a sync conflict
+        </span>
+        {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {expanded && (
+        <div className="border-t border-amber-200 dark:border-amber-800 divide-y divide-amber-200 dark:divide-amber-800">
+          {copies.map(copy => (
+            <div key={copy.id} className="px-3 py-2 flex items-start gap-3">
+              <div className="flex-1 min-w-0">
+                <div className="text-xs text-textSecondary mb-1">
+                  {copy.source === 'local' ? 'From this device' : 'From another device'} · saved {format(copy.savedAt, 'dd/MM HH:mm')}
+                </div>
+                <div className="text-xs text-textMain line-clamp-2">
+                  {copy.content.replace(/<[^>]*>/g, ' ')}
+                </div>
+              </div>
+              <button
+                onClick={() => onRestore(copy)}
+                className="shrink-0 text-xs font-semibold text-primary hover:underline"
+              >
+                Restore
+              </button>
+              <button
+                onClick={() => onDiscard(copy)}
+                className="shrink-0 text-xs text-red-500 hover:underline"
+              >
+                Discard
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React from 'react';
+import { Settings, X, Laptop, Cloud } from 'lucide-react';
+import { AppSettings } from '../types';
+
+interface SettingsSyncDialogProps {
+  settings: AppSettings;
+  onChange: (deviceOnly: (keyof AppSettings)[]) => void;
+  onClose: () => void;
+}
+
+const SYNCABLE_SETTINGS: { key: keyof AppSettings; label: string }[] = [
+  { key: 'darkMode', label: 'Theme' },
+  { key: 'editorFont', label: 'Font' },
+  { key: 'editorFontSize', label: 'Font size' },
+  { key: 'editorColor', label: 'Text color' },
+  { key: 'sidebarOpen', label: 'Sidebar' },
+  { key: 'syncHistory', label: 'History sync' },
+  { key: 'moodScale', label: 'Mood scale' },
+  { key: 'templates', label: 'Templates' },
+  { key: 'prompts', label: 'Writing prompts' },
+  { key: 'habits', label: 'Habits' },
+];
+
+export const SettingsSyncDialog: React.FC<SettingsSyncDialogProps> = ({ settings, onChange, onClose }) => {
+  const toggle = (key: keyof AppSettings) => {
+    const deviceOnly = settings.deviceOnly.includes(key)
+      ? settings.deviceOnly.filter(k => k !== key)
+      : [...settings.deviceOnly, key];
+    onChange(deviceOnly);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+      <div className="w-full max-w-md bg-bgSurface rounded-2xl shadow-xl border border-borderSoft p-6 flex flex-col gap-4">
+        <div className="flex items-center gap-2 text-lg font-bold text-textMain font-serif">
+          <Settings className="w-5 h-5 text-primary" />
+          <span className="flex-1">Settings on your devices</span>
+          <button onClick={onClose} className="text-textSecondary hover:text-textMain">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-textSecondary">
+          Synced settings follow you to every device you sign in on. Keep a setting on this device only
+          when it should differ, like a larger font on your phone.
+        </p>
+
+        <div className="divide-y divide-borderSoft border border-borderSoft rounded-xl">
+          {SYNCABLE_SETTINGS.map(({ key, label }) => {
+            const deviceOnly = settings.deviceOnly.includes(key);
+            return (
+              <div key={key} className="flex items-center justify-between px-4 py-2 text-sm">
+                <span className="text-textMain">{label}</span>
+                <button
+                  onClick={() => toggle(key)}
+                  className={`flex items-center gap-1.5 px-2 py-1 rounded-md text-xs font-medium transition-colors ${
+                    deviceOnly
+                      ? 'bg-gray-100 dark:bg-gray-800 text-textSecondary'
+                      : 'bg-primary/10 text-primary'
+                  }`}
+                >
+                  {deviceOnly ? <Laptop className="w-3.5 h-3.5" /> : <Cloud className="w-3.5 h-3.5" />}
+                  {deviceOnly ? 'This device only' : 'Synced'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import React from 'react';
+import { AlertCircle } from 'lucide-react';
+import { Logo } from './Logo';
+
+interface SetupErrorScreenProps {
+  message: string;
+}
+
+// Shown instead of the app when the build is missing its sync configuration
+export const SetupErrorScreen: React.FC<SetupErrorScreenProps> = ({ message }) => (
+  <div className="min-h-screen flex items-center justify-center bg-bgMain px-4 transition-colors">
+    <div className="w-full max-w-md bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-100 dark:border-gray-700 p-8 flex flex-col items-center gap-4">
+      <Logo className="w-16 h-16 text-primary" />
+      <h1 className="text-2xl font-bold text-textMain font-serif">GrayNote</h1>
+      <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 flex items-start gap-2 text-sm text-red-600 dark:text-red-400">
+        <AlertCircle className="w-5 h-5 shrink-0" />
+        <span>{message}</span>
+      </div>
+      <p className="text-xs text-textSecondary text-center">
+        These are build-time settings: see .env.example, then rebuild or redeploy.
+      </p>
+    </div>
+  </div>
+);
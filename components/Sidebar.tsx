@@ -1,32 +1,59 @@
 import React, { useMemo } from 'react';
 import { format, parseISO, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, addMonths, subMonths } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import { ChevronLeft, ChevronRight, Search, X, LogOut } from 'lucide-react';
-import { DiaryEntry } from '../types';
+import { ChevronLeft, ChevronRight, Search, X, LogOut, LogIn, Lock, UserRound, Tag, Settings2 } from 'lucide-react';
+import { DiaryEntry, SearchFilters, MoodLevel, Habit } from '../types';
 import { Logo } from './Logo';
+import { countEntriesByDay, entryLabel } from '../utils/entries';
+import { TagCount, getEntryTags } from '../utils/tags';
+import { getDayMoods, getMoodLevel, moodColor } from '../utils/mood';
+import { getDayHabits } from '../utils/habits';
 
 interface SidebarProps {
   currentDate: Date;
   onDateSelect: (date: Date) => void;
+  onEntrySelect: (entry: DiaryEntry) => void;
   entries: Record<string, DiaryEntry>;
-  searchQuery: string;
-  onSearchChange: (query: string) => void;
+  unsyncedIds?: Set<string>; // Entries with local changes the server has not received yet
+  journalSwitcher: React.ReactNode; // `entries` are already limited to the chosen journal
+  filters: SearchFilters; // The tag filter applies to search results and calendar dots
+  onFiltersChange: (filters: SearchFilters) => void;
+  tags: TagCount[];
+  moodScale: MoodLevel[];
+  habits: Habit[];
+  onManageTags: () => void;
   isOpen: boolean;
   onCloseMobile: () => void;
   onLogout?: () => void;
+  onOpenAppLock?: () => void;
+  onOpenAccount?: () => void;
+  onSignIn?: () => void; // Guest mode: sign in to keep this diary in an account
 }
 
 export const Sidebar: React.FC<SidebarProps> = ({
   currentDate,
   onDateSelect,
+  onEntrySelect,
   entries,
-  searchQuery,
-  onSearchChange,
+  unsyncedIds,
+  journalSwitcher,
+  filters,
+  onFiltersChange,
+  tags,
+  moodScale,
+  habits,
+  onManageTags,
   isOpen,
   onCloseMobile,
-  onLogout
+  onLogout,
+  onOpenAppLock,
+  onOpenAccount,
+  onSignIn
 }) => {
   const [viewDate, setViewDate] = React.useState(new Date());
+  const searchQuery = filters.query;
+  const onSearchChange = (query: string) => onFiltersChange({ ...filters, query });
+  const toggleTag = (tag: string) => onFiltersChange({ ...filters, tag: filters.tag === tag ? null : tag });
 
   const daysInMonth = useMemo(() => {
     return eachDayOfInterval({
@@ -35,33 +62,82 @@ export const Sidebar: React.FC<SidebarProps> = ({
     });
   }, [viewDate]);
 
+  const taggedEntries = useMemo(() => {
+    const all = Object.values(entries) as DiaryEntry[];
+    const tag = filters.tag;
+    return tag ? all.filter((entry) => getEntryTags(entry).includes(tag)) : all;
+  }, [entries, filters.tag]);
+
+  const newestFirst = (a: DiaryEntry, b: DiaryEntry) =>
+    b.date.localeCompare(a.date) || (b.createdAt ?? 0) - (a.createdAt ?? 0);
+
   // Search Logic
   const filteredEntries = useMemo(() => {
     const query = searchQuery.trim().toLowerCase();
     if (!query) return [];
 
-    return Object.values(entries)
+    return taggedEntries
       .filter((entry) => {
         const entryData = entry as DiaryEntry;
         const dateObj = parseISO(entryData.date);
         const formattedDate = format(dateObj, "dd 'de' MMMM 'de' yyyy", { locale: ptBR }).toLowerCase();
         const plainText = (entryData.content || '').replace(/<[^>]*>/g, ' ').toLowerCase();
         
-        // Match content, raw date (2023-10-25), formatted date (25 de outubro)
+        // Match title, content, raw date (2023-10-25), formatted date (25 de outubro)
         return (
+          (entryData.title || '').toLowerCase().includes(query) ||
           plainText.includes(query) ||
           entryData.date.includes(query) ||
           formattedDate.includes(query)
         );
       })
-      .sort((a, b) => (b as DiaryEntry).date.localeCompare((a as DiaryEntry).date)); // Newest first
-  }, [entries, searchQuery]);
-
-  // Calendar render helper
-  const hasEntry = (date: Date) => {
-    const dateStr = format(date, 'yyyy-MM-dd');
-    const entry = entries[dateStr];
-    return !!entry;
+      .sort(newestFirst);
+  }, [taggedEntries, searchQuery]);
+
+  // Calendar render helpers
+  const taggedById = useMemo(
+    () => Object.fromEntries(taggedEntries.map((entry) => [entry.id, entry])) as Record<string, DiaryEntry>,
+    [taggedEntries]
+  );
+  const entryCounts = useMemo(() => countEntriesByDay(taggedById), [taggedById]);
+  const dayMoods = useMemo(() => getDayMoods(taggedById), [taggedById]);
+  const dayHabits = useMemo(() => getDayHabits(taggedById), [taggedById]);
+
+  const unsyncedDays = useMemo(() => {
+    const days = new Set<string>();
+    (Object.values(entries) as DiaryEntry[]).forEach((entry) => {
+      if (unsyncedIds?.has(entry.id)) days.add(entry.date);
+    });
+    return days;
+  }, [entries, unsyncedIds]);
+
+  const renderEntryCard = (entryData: DiaryEntry) => {
+    const dateObj = parseISO(entryData.date);
+    return (
+      <button
+        key={entryData.id}
+        onClick={() => {
+          onEntrySelect(entryData);
+          if (window.innerWidth < 768) onCloseMobile();
+        }}
+        className="w-full text-left p-3 rounded-lg bg-white dark:bg-gray-800 border border-borderSoft hover:border-primary hover:shadow-sm transition-all group"
+      >
+        <div className="flex items-center justify-between mb-1">
+          <span className="font-semibold text-textMain text-sm capitalize">
+            {format(dateObj, "d MMM", { locale: ptBR })}
+          </span>
+          <span className="text-xs text-textSecondary">
+             {format(dateObj, "yyyy")}
+          </span>
+        </div>
+        {entryData.title && (
+          <div className="text-xs font-medium text-textMain truncate mb-0.5">{entryLabel(entryData)}</div>
+        )}
+        <div className="text-xs text-textSecondary line-clamp-2 h-8 leading-4">
+          {(entryData.content || '').replace(/<[^>]*>/g, ' ')}
+        </div>
+      </button>
+    );
   };
 
   return (
@@ -80,6 +156,8 @@ export const Sidebar: React.FC<SidebarProps> = ({
               GrayNote
             </h1>
         </div>
+
+        {journalSwitcher}
         
         <div className="relative">
           <input
@@ -99,6 +177,20 @@ export const Sidebar: React.FC<SidebarProps> = ({
             </button>
           )}
         </div>
+
+        {filters.tag && (
+          <div className="flex items-center gap-2 text-xs text-textSecondary">
+            <span>Only entries tagged</span>
+            <button
+              onClick={() => toggleTag(filters.tag!)}
+              className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-primary/10 text-primary hover:bg-primary/20"
+              title="Clear tag filter"
+            >
+              #{filters.tag}
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        )}
       </div>
 
       <div className="flex-1 overflow-y-auto custom-scrollbar">
@@ -110,32 +202,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
                Search Results ({filteredEntries.length})
              </div>
              {filteredEntries.length > 0 ? (
-               filteredEntries.map(entry => {
-                  const entryData = entry as DiaryEntry;
-                  const dateObj = parseISO(entryData.date);
-                  return (
-                    <button
-                      key={entryData.id}
-                      onClick={() => {
-                        onDateSelect(dateObj);
-                        if (window.innerWidth < 768) onCloseMobile();
-                      }}
-                      className="w-full text-left p-3 rounded-lg bg-white dark:bg-gray-800 border border-borderSoft hover:border-primary hover:shadow-sm transition-all group"
-                    >
-                      <div className="flex items-center justify-between mb-1">
-                        <span className="font-semibold text-textMain text-sm capitalize">
-                          {format(dateObj, "d MMM", { locale: ptBR })}
-                        </span>
-                        <span className="text-xs text-textSecondary">
-                           {format(dateObj, "yyyy")}
-                        </span>
-                      </div>
-                      <div className="text-xs text-textSecondary line-clamp-2 h-8 leading-4">
-                        {(entryData.content || '').replace(/<[^>]*>/g, ' ')}
-                      </div>
-                    </button>
-                  );
-               })
+               filteredEntries.map(renderEntryCard)
              ) : (
                 <div className="text-center py-10 text-textSecondary flex flex-col items-center">
                    <Search className="w-8 h-8 mb-2 opacity-20" />
@@ -177,7 +244,11 @@ export const Sidebar: React.FC<SidebarProps> = ({
                 {daysInMonth.map(date => {
                   const isSelected = isSameDay(date, currentDate);
                   const isToday = isSameDay(date, new Date());
-                  const entryExists = hasEntry(date);
+                  const dayKey = format(date, 'yyyy-MM-dd');
+                  const entryCount = entryCounts[dayKey] || 0;
+                  const unsynced = unsyncedDays.has(dayKey);
+                  const dayMood = dayMoods[dayKey];
+                  const doneHabits = habits.filter(habit => dayHabits[dayKey]?.has(habit.id));
 
                   return (
                     <button
@@ -192,29 +263,123 @@ export const Sidebar: React.FC<SidebarProps> = ({
                         ${!isSelected && isToday ? 'text-primary font-bold border border-primary' : ''}
                         ${!isSelected && !isToday ? 'text-textMain' : ''}
                       `}
+                      style={dayMood && !isSelected ? { backgroundColor: moodColor(dayMood, moodScale, 0.25) } : undefined}
+                      title={[
+                        entryCount > 0 ? `${entryCount} ${entryCount === 1 ? 'entry' : 'entries'}` : '',
+                        dayMood ? `${getMoodLevel(dayMood, moodScale).emoji} ${getMoodLevel(dayMood, moodScale).label}` : '',
+                        doneHabits.map(habit => `✓ ${habit.name}`).join(', '),
+                        unsynced ? 'Not synced yet' : ''
+                      ].filter(Boolean).join(' · ') || undefined}
                     >
                       <span>{format(date, 'd')}</span>
-                      {entryExists && !isSelected && (
+                      {entryCount === 1 && !isSelected && (
                         <div className="absolute -bottom-1 left-1/2 transform -translate-x-1/2 w-1 h-1 bg-accent rounded-full" />
                       )}
+                      {entryCount > 1 && (
+                        <div className={`absolute -bottom-1.5 left-1/2 transform -translate-x-1/2 text-[9px] leading-none font-semibold ${isSelected ? 'text-white' : 'text-accent'}`}>
+                          {entryCount}
+                        </div>
+                      )}
+                      {unsynced && (
+                        <div className="absolute top-0 right-0 w-1.5 h-1.5 bg-amber-500 rounded-full" />
+                      )}
+                      {doneHabits.length > 0 && (
+                        <div className="absolute -top-1 left-1/2 transform -translate-x-1/2 flex gap-px">
+                          {doneHabits.slice(0, 4).map(habit => (
+                            <span key={habit.id} className="w-1 h-1 rounded-full" style={{ backgroundColor: habit.color }} />
+                          ))}
+                        </div>
+                      )}
                     </button>
                   );
                 })}
               </div>
             </div>
+
+            {filters.tag && (
+              <div className="px-4 pb-4 space-y-3">
+                <div className="text-xs font-semibold text-textSecondary uppercase tracking-wider">
+                  Tagged #{filters.tag} ({taggedEntries.length})
+                </div>
+                {[...taggedEntries].sort(newestFirst).map(renderEntryCard)}
+              </div>
+            )}
+
+            {/* Tag Browser */}
+            <div className="px-4 pb-4">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-semibold text-textSecondary uppercase tracking-wider">Tags</span>
+                {tags.length > 0 && (
+                  <button onClick={onManageTags} className="p-1 text-textSecondary hover:text-textMain" title="Rename, merge or delete tags">
+                    <Settings2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+              {tags.length > 0 ? (
+                <div className="flex flex-wrap gap-1.5">
+                  {tags.map(({ tag, count }) => (
+                    <button
+                      key={tag}
+                      onClick={() => toggleTag(tag)}
+                      className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs transition-colors ${
+                        filters.tag === tag
+                          ? 'bg-primary text-white'
+                          : 'bg-white dark:bg-gray-800 border border-borderSoft text-textMain hover:border-primary'
+                      }`}
+                    >
+                      #{tag}
+                      <span className={filters.tag === tag ? 'text-white/80' : 'text-textSecondary'}>{count}</span>
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-textSecondary flex items-center gap-1">
+                  <Tag className="w-3.5 h-3.5" /> Add tags to an entry or write a #hashtag.
+                </p>
+              )}
+            </div>
           </>
         )}
       </div>
 
-      {onLogout && (
-        <div className="p-4 border-t border-borderSoft">
-          <button
-            onClick={onLogout}
-            className="flex items-center gap-2 w-full px-3 py-2 text-sm text-red-500 hover:bg-red-50 dark:hover:bg-red-900/10 rounded-lg transition-colors"
-          >
-            <LogOut className="w-4 h-4" />
-            Sign Out
-          </button>
+      {(onLogout || onSignIn) && (
+        <div className="p-4 border-t border-borderSoft flex flex-col gap-1">
+          {onSignIn && (
+            <button
+              onClick={onSignIn}
+              className="flex items-center gap-2 w-full px-3 py-2 text-sm font-medium text-primary hover:bg-primary/10 rounded-lg transition-colors"
+            >
+              <LogIn className="w-4 h-4" />
+              Sign in to back up
+            </button>
+          )}
+          {onOpenAccount && (
+            <button
+              onClick={onOpenAccount}
+              className="flex items-center gap-2 w-full px-3 py-2 text-sm text-textSecondary hover:bg-gray-200 dark:hover:bg-gray-800 rounded-lg transition-colors"
+            >
+              <UserRound className="w-4 h-4" />
+              Account
+            </button>
+          )}
+          {onOpenAppLock && (
+            <button
+              onClick={onOpenAppLock}
+              className="flex items-center gap-2 w-full px-3 py-2 text-sm text-textSecondary hover:bg-gray-200 dark:hover:bg-gray-800 rounded-lg transition-colors"
+            >
+              <Lock className="w-4 h-4" />
+              App Lock
+            </button>
+          )}
+          {onLogout && (
+            <button
+              onClick={onLogout}
+              className="flex items-center gap-2 w-full px-3 py-2 text-sm text-red-500 hover:bg-red-50 dark:hover:bg-red-900/10 rounded-lg transition-colors"
+            >
+              <LogOut className="w-4 h-4" />
+              Sign Out
+            </button>
+          )}
         </div>
       )}
     </aside>
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { LogOut, AlertTriangle } from 'lucide-react';
+import { Button } from './Button';
+
+interface SignOutDialogProps {
+  pendingChanges: number;
+  onConfirm: (clearLocalData: boolean) => void;
+  onCancel: () => void;
+}
+
+export const SignOutDialog: React.FC<SignOutDialogProps> = ({ pendingChanges, onConfirm, onCancel }) => {
+  const [clearData, setClearData] = useState(false);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+      <div className="w-full max-w-md bg-bgSurface rounded-2xl shadow-xl border border-borderSoft p-6 flex flex-col gap-4">
+        <div className="flex items-center gap-2 text-lg font-bold text-textMain font-serif">
+          <LogOut className="w-5 h-5 text-primary" />
+          Sign out
+        </div>
+
+        <label className="flex items-start gap-3 text-sm text-textMain cursor-pointer">
+          <input
+            type="checkbox"
+            checked={clearData}
+            onChange={(e) => setClearData(e.target.checked)}
+            className="mt-0.5 accent-primary"
+          />
+          <span>
+            Remove my diary from this device
+            <span className="block text-xs text-textSecondary mt-0.5">
+              Recommended on shared or public computers. Your entries stay in your account.
+            </span>
+          </span>
+        </label>
+
+        {clearData && pendingChanges > 0 && (
+          <div className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 flex items-start gap-2 text-sm text-amber-700 dark:text-amber-300">
+            <AlertTriangle className="w-5 h-5 shrink-0" />
+            <span>
+              {pendingChanges} {pendingChanges === 1 ? 'change has' : 'changes have'} not reached the server yet and will be lost.
+            </span>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" label="Cancel" onClick={onCancel} />
+          <Button
+            variant={clearData ? 'danger' : 'primary'}
+            label={clearData ? 'Sign out and clear' : 'Sign out'}
+            onClick={() => onConfirm(clearData)}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
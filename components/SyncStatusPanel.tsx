@@ -0,0 +1,99 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle, X, LogIn } from 'lucide-react';
+import { SyncStatus } from '../utils/syncStatus';
+import { Button } from './Button';
+
+interface SyncStatusPanelProps {
+  status: SyncStatus;
+  onRetry: () => void;
+  onSignIn?: () => void; // Offered instead of retrying when there is no account
+  onClose: () => void;
+}
+
+// Short label for the status bar
+export const describeSyncState = (status: SyncStatus): string => {
+  const pending = status.pendingIds.length;
+  const waiting = `${pending} ${pending === 1 ? 'change' : 'changes'} waiting to sync`;
+  switch (status.state) {
+    case 'disabled':
+      return 'Sync is off — saved on this device only';
+    case 'offline':
+      return pending > 0 ? `Offline · ${waiting}` : 'Offline';
+    case 'syncing':
+      return 'Syncing...';
+    case 'error':
+      return pending > 0 ? `Sync failed · ${waiting}` : 'Sync failed';
+    default:
+      return pending > 0 ? waiting : 'All changes saved';
+  }
+};
+
+const EXPLANATIONS: Record<SyncStatus['state'], string> = {
+  idle: 'Your entries are backed up to your account.',
+  syncing: 'Sending and receiving changes...',
+  offline: 'You are offline. Changes are saved on this device and will sync when the connection comes back.',
+  error: 'The last sync attempt failed. It is retried automatically; changes stay safe on this device meanwhile.',
+  disabled: 'Sync has been switched off, so nothing is being backed up to your account.',
+};
+
+export const SyncStatusPanel: React.FC<SyncStatusPanelProps> = ({ status, onRetry, onSignIn, onClose }) => {
+  const pending = status.pendingIds.length;
+  const isProblem = status.state === 'error' || status.state === 'disabled';
+
+  const icon = {
+    idle: <Cloud className="w-5 h-5 text-primary" />,
+    syncing: <RefreshCw className="w-5 h-5 text-primary animate-spin" />,
+    offline: <CloudOff className="w-5 h-5 text-textSecondary" />,
+    error: <AlertTriangle className="w-5 h-5 text-amber-500" />,
+    disabled: <AlertTriangle className="w-5 h-5 text-red-500" />,
+  }[status.state];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+      <div className="w-full max-w-md bg-bgSurface rounded-2xl shadow-xl border border-borderSoft p-6 flex flex-col gap-4">
+        <div className="flex items-center gap-2 text-lg font-bold text-textMain font-serif">
+          {icon}
+          <span className="flex-1">Sync</span>
+          <button onClick={onClose} className="text-textSecondary hover:text-textMain">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-textMain">{EXPLANATIONS[status.state]}</p>
+
+        {isProblem && (status.disabledReason || status.error) && (
+          <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-600 dark:text-red-400">
+            {status.disabledReason || status.error}
+          </div>
+        )}
+
+        <dl className="grid grid-cols-2 gap-y-1 text-sm">
+          <dt className="text-textSecondary">Last synced</dt>
+          <dd className="text-textMain text-right">
+            {status.lastSyncedAt ? `${formatDistanceToNow(status.lastSyncedAt)} ago` : 'Never on this device'}
+          </dd>
+          <dt className="text-textSecondary">Waiting to sync</dt>
+          <dd className="text-textMain text-right">
+            {pending} {pending === 1 ? 'entry' : 'entries'}
+          </dd>
+        </dl>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" label="Close" onClick={onClose} />
+          {onSignIn ? (
+            <Button variant="primary" icon={<LogIn />} label="Sign in to back up" onClick={onSignIn} />
+          ) : (
+            <Button
+              variant="primary"
+              icon={<RefreshCw />}
+              label="Retry now"
+              onClick={onRetry}
+              disabled={status.state === 'syncing' || status.state === 'offline'}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
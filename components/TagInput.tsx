@@ -0,0 +1,104 @@
+import React, { useMemo, useState } from 'react';
+import { Tag, X } from 'lucide-react';
+import { normalizeTag } from '../utils/tags';
+
+interface TagInputProps {
+  tags: string[]; // Added here, stored on the entry
+  hashtags: string[]; // Written as #hashtags in the text; removed by editing the text
+  suggestions: string[]; // Tags used anywhere in the diary, most used first
+  onChange: (tags: string[]) => void;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+export const TagInput: React.FC<TagInputProps> = ({ tags, hashtags, suggestions, onChange }) => {
+  const [draft, setDraft] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+
+  const inlineOnly = hashtags.filter(tag => !tags.includes(tag));
+  const query = normalizeTag(draft);
+  const matches = useMemo(() => {
+    if (!query) return [];
+    return suggestions
+      .filter(tag => tag.startsWith(query) && !tags.includes(tag) && !hashtags.includes(tag))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [query, suggestions, tags, hashtags]);
+
+  const add = (value: string) => {
+    const tag = normalizeTag(value);
+    setDraft('');
+    setHighlighted(0);
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',' || e.key === 'Tab') {
+      if (!draft.trim()) return;
+      e.preventDefault();
+      add(matches[highlighted] ?? draft);
+    } else if (e.key === 'ArrowDown' && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % matches.length);
+    } else if (e.key === 'ArrowUp' && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + matches.length) % matches.length);
+    } else if (e.key === 'Escape') {
+      setDraft('');
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative mx-8 mb-3 flex flex-wrap items-center gap-1.5 text-sm">
+      <Tag className="w-4 h-4 text-textSecondary" />
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-primary/10 text-primary">
+          #{tag}
+          <button onClick={() => onChange(tags.filter(t => t !== tag))} className="hover:text-textMain" title="Remove tag">
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+      {inlineOnly.map(tag => (
+        <span
+          key={tag}
+          className="px-2 py-0.5 rounded-full border border-dashed border-primary/40 text-primary/80"
+          title="From a #hashtag in the text"
+        >
+          #{tag}
+        </span>
+      ))}
+      <input
+        type="text"
+        value={draft}
+        placeholder={tags.length + inlineOnly.length === 0 ? 'Add tags…' : ''}
+        onChange={e => {
+          setDraft(e.target.value);
+          setHighlighted(0);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => draft.trim() && add(draft)}
+        className="flex-1 min-w-[6rem] bg-transparent outline-none text-textMain placeholder:text-textSecondary/60"
+      />
+
+      {matches.length > 0 && (
+        <div className="absolute z-20 left-6 top-full mt-1 w-48 bg-bgSurface rounded-lg shadow-lg border border-borderSoft py-1">
+          {matches.map((tag, i) => (
+            <button
+              key={tag}
+              // mousedown fires before the input's blur, which would add the typed text instead
+              onMouseDown={e => {
+                e.preventDefault();
+                add(tag);
+              }}
+              className={`w-full text-left px-3 py-1 ${i === highlighted ? 'bg-primary/10 text-textMain' : 'text-textSecondary hover:bg-gray-50 dark:hover:bg-gray-800'}`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
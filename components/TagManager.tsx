@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Tags, X, Pencil, Trash2, Check } from 'lucide-react';
+import { TagCount, normalizeTag } from '../utils/tags';
+
+interface TagManagerProps {
+  tags: TagCount[];
+  // Renaming to a tag that already exists merges the two
+  onRename: (from: string, to: string) => void;
+  onDelete: (tag: string) => void;
+  onClose: () => void;
+}
+
+export const TagManager: React.FC<TagManagerProps> = ({ tags, onRename, onDelete, onClose }) => {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [name, setName] = useState('');
+
+  const startRename = (tag: string) => {
+    setEditing(tag);
+    setName(tag);
+  };
+
+  const submitRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    const from = editing;
+    const to = normalizeTag(name);
+    setEditing(null);
+    if (!from || !to || to === from) return;
+
+    const existing = tags.find(t => t.tag === to);
+    if (existing && !window.confirm(`#${to} already exists. Merge #${from} into it?`)) return;
+    onRename(from, to);
+  };
+
+  const handleDelete = ({ tag, count }: TagCount) => {
+    const entries = count === 1 ? '1 entry' : `${count} entries`;
+    if (!window.confirm(`Remove #${tag} from ${entries}? Hashtags in the text are kept as plain words.`)) return;
+    onDelete(tag);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+      <div className="w-full max-w-md max-h-[90vh] bg-bgSurface rounded-2xl shadow-xl border border-borderSoft p-6 flex flex-col gap-4">
+        <div className="flex items-center gap-2 text-lg font-bold text-textMain font-serif">
+          <Tags className="w-5 h-5 text-primary" />
+          <span className="flex-1">Tags</span>
+          <button onClick={onClose} className="text-textSecondary hover:text-textMain">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-textSecondary">
+          Changes apply to every entry, including #hashtags written in the text. Rename a tag to one
+          that already exists to merge them.
+        </p>
+
+        {tags.length === 0 ? (
+          <p className="text-sm italic text-textSecondary">No tags yet.</p>
+        ) : (
+          <div className="divide-y divide-borderSoft border border-borderSoft rounded-xl overflow-y-auto custom-scrollbar">
+            {tags.map(item => (
+              <div key={item.tag} className="flex items-center gap-2 px-4 py-2 text-sm">
+                {editing === item.tag ? (
+                  <form onSubmit={submitRename} className="flex-1 flex items-center gap-2">
+                    <input
+                      autoFocus
+                      value={name}
+                      onChange={e => setName(e.target.value)}
+                      onKeyDown={e => e.key === 'Escape' && setEditing(null)}
+                      className="flex-1 px-2 py-1 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-md focus:ring-2 focus:ring-primary focus:outline-none"
+                    />
+                    <button type="submit" className="text-primary" title="Save">
+                      <Check className="w-4 h-4" />
+                    </button>
+                  </form>
+                ) : (
+                  <>
+                    <span className="flex-1 text-textMain">#{item.tag}</span>
+                    <span className="text-xs text-textSecondary">{item.count}</span>
+                    <button onClick={() => startRename(item.tag)} className="text-textSecondary hover:text-textMain" title="Rename or merge">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleDelete(item)} className="text-textSecondary hover:text-red-500" title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { LayoutTemplate, X, Plus, Trash2 } from 'lucide-react';
+import { EntryTemplate } from '../types';
+import { createTemplate, WEEKDAY_LABELS } from '../utils/templates';
+import { normalizeTag } from '../utils/tags';
+import { Button } from './Button';
+
+interface TemplatesDialogProps {
+  templates: EntryTemplate[];
+  prompts: string[];
+  onSave: (templates: EntryTemplate[], prompts: string[]) => void;
+  onClose: () => void;
+}
+
+type DialogTab = 'templates' | 'prompts';
+
+const inputClass = "w-full px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-primary focus:outline-none";
+
+export const TemplatesDialog: React.FC<TemplatesDialogProps> = ({ templates, prompts, onSave, onClose }) => {
+  const [tab, setTab] = useState<DialogTab>('templates');
+  const [draft, setDraft] = useState<EntryTemplate[]>(templates);
+  const [selectedId, setSelectedId] = useState<string | null>(templates[0]?.id ?? null);
+  const [promptText, setPromptText] = useState(prompts.join('\n'));
+
+  const selected = draft.find(template => template.id === selectedId) || null;
+
+  const update = (changes: Partial<EntryTemplate>) => {
+    if (!selected) return;
+    setDraft(draft.map(template => (template.id === selected.id ? { ...template, ...changes } : template)));
+  };
+
+  // A weekday starts from one template at most, so taking it moves it here
+  const toggleWeekday = (day: number) => {
+    if (!selected) return;
+    const taking = !selected.weekdays.includes(day);
+    setDraft(draft.map(template => {
+      if (template.id === selected.id) {
+        const weekdays = taking ? [...template.weekdays, day].sort() : template.weekdays.filter(d => d !== day);
+        return { ...template, weekdays };
+      }
+      return taking ? { ...template, weekdays: template.weekdays.filter(d => d !== day) } : template;
+    }));
+  };
+
+  const handleAdd = () => {
+    const template = createTemplate();
+    setDraft([...draft, template]);
+    setSelectedId(template.id);
+    setTab('templates');
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    const remaining = draft.filter(template => template.id !== selected.id);
+    setDraft(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  const handleSave = () => {
+    const cleaned = draft.map(template => ({
+      ...template,
+      name: template.name.trim() || 'Untitled template',
+      tags: Array.from(new Set(template.tags.filter(Boolean))),
+    }));
+    const lines = promptText.split('\n').map(line => line.trim()).filter(Boolean);
+    onSave(cleaned, lines);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+      <div className="w-full max-w-2xl max-h-[90vh] bg-bgSurface rounded-2xl shadow-xl border border-borderSoft p-6 flex flex-col gap-4">
+        <div className="flex items-center gap-2 text-lg font-bold text-textMain font-serif">
+          <LayoutTemplate className="w-5 h-5 text-primary" />
+          <span className="flex-1">Templates and prompts</span>
+          <button onClick={onClose} className="text-textSecondary hover:text-textMain">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-1 self-start p-0.5 rounded-lg bg-gray-100 dark:bg-gray-800 text-xs">
+          {(['templates', 'prompts'] as DialogTab[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setTab(key)}
+              className={`px-3 py-1 rounded-md ${tab === key ? 'bg-bgSurface text-textMain shadow-sm' : 'text-textSecondary'}`}
+            >
+              {key === 'templates' ? 'Templates' : 'Prompts'}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'templates' ? (
+          <div className="flex-1 min-h-0 flex gap-4">
+            <div className="w-44 shrink-0 flex flex-col gap-1 overflow-y-auto custom-scrollbar">
+              {draft.map(template => (
+                <button
+                  key={template.id}
+                  onClick={() => setSelectedId(template.id)}
+                  className={`px-3 py-2 rounded-lg text-sm text-left truncate ${
+                    template.id === selectedId ? 'bg-primary/10 text-textMain font-medium' : 'text-textSecondary hover:bg-gray-100 dark:hover:bg-gray-800'
+                  }`}
+                >
+                  {template.name || 'Untitled template'}
+                </button>
+              ))}
+              <button onClick={handleAdd} className="flex items-center gap-2 px-3 py-2 text-sm text-primary hover:bg-primary/10 rounded-lg">
+                <Plus className="w-4 h-4" />
+                New template
+              </button>
+            </div>
+
+            {selected ? (
+              <div className="flex-1 min-w-0 flex flex-col gap-3 overflow-y-auto custom-scrollbar pr-1">
+                <label className="flex flex-col gap-1 text-xs text-textSecondary">
+                  Name
+                  <input value={selected.name} onChange={e => update({ name: e.target.value })} className={inputClass} />
+                </label>
+                <label className="flex flex-col gap-1 text-xs text-textSecondary">
+                  Entry title
+                  <input value={selected.title} onChange={e => update({ title: e.target.value })} className={inputClass} />
+                </label>
+                <label className="flex flex-col gap-1 text-xs text-textSecondary">
+                  Text
+                  <textarea
+                    value={selected.body}
+                    onChange={e => update({ body: e.target.value })}
+                    rows={8}
+                    className={`${inputClass} resize-y font-mono`}
+                  />
+                </label>
+                <p className="text-xs text-textSecondary">
+                  {'{date}'} and {'{weekday}'} are replaced with the entry's day.
+                </p>
+                <label className="flex flex-col gap-1 text-xs text-textSecondary">
+                  Tags
+                  <input
+                    value={selected.tags.join(', ')}
+                    onChange={e => update({ tags: e.target.value.split(',').map(normalizeTag) })}
+                    placeholder="gratitude, work"
+                    className={inputClass}
+                  />
+                </label>
+                <div className="flex flex-col gap-1 text-xs text-textSecondary">
+                  New entries on
+                  <div className="flex gap-1">
+                    {WEEKDAY_LABELS.map((label, day) => (
+                      <button
+                        key={label}
+                        onClick={() => toggleWeekday(day)}
+                        className={`px-2 py-1 rounded-md border text-xs ${
+                          selected.weekdays.includes(day) ? 'border-primary bg-primary/10 text-textMain' : 'border-borderSoft hover:border-primary'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <Button variant="danger" icon={<Trash2 />} label="Delete template" onClick={handleDelete} />
+                </div>
+              </div>
+            ) : (
+              <p className="flex-1 text-sm italic text-textSecondary">No templates. Create one to reuse a structure you write often.</p>
+            )}
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 flex flex-col gap-2">
+            <p className="text-xs text-textSecondary">
+              One prompt per line. Empty entries show one of them each day; leave the list empty to turn prompts off.
+            </p>
+            <textarea
+              value={promptText}
+              onChange={e => setPromptText(e.target.value)}
+              rows={12}
+              className={`${inputClass} resize-y`}
+            />
+          </div>
+        )}
+
+        <div className="flex items-center justify-end gap-2 pt-2">
+          <Button variant="secondary" label="Cancel" onClick={onClose} />
+          <Button variant="primary" label="Save" onClick={handleSave} />
+        </div>
+      </div>
+    </div>
+  );
+};
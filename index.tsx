@@ -1,15 +1,20 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { SetupErrorScreen } from './components/SetupErrorScreen';
+import { getBackendConfigProblem } from './utils/backends';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+const setupProblem = getBackendConfigProblem();
+if (setupProblem) console.error(setupProblem);
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {setupProblem ? <SetupErrorScreen message={setupProblem} /> : <App />}
   </React.StrictMode>
 );
\ No newline at end of file
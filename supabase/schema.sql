@@ -0,0 +1,202 @@
+-- GrayNote database schema for Supabase.
+-- Safe to re-run: every statement is idempotent, so existing projects can apply
+-- it to pick up new columns.
+
+create table if not exists public.entries (
+  id text primary key,
+  date text not null,
+  content text not null default '',
+  tags text[] not null default '{}',
+  updated_at bigint not null
+);
+
+-- Tombstones: a cleared entry keeps its row with deleted_at set (ms since epoch)
+-- until the client purges it after the retention window.
+alter table public.entries add column if not exists deleted_at bigint;
+
+-- Server revision, bumped on every write. Clients only update a row if it is
+-- still at the revision their edit was based on, which is how concurrent edits
+-- from two devices are detected.
+alter table public.entries add column if not exists rev integer not null default 0;
+
+-- Live updates across devices (Supabase Realtime)
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'entries'
+  ) then
+    alter publication supabase_realtime add table public.entries;
+  end if;
+end $$;
+
+-- Per-user rows. Entry ids are day keys (YYYY-MM-DD), so they are only unique per user.
+alter table public.entries add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+
+-- Rows written before user_id existed have no owner and no user can see them. They are moved
+-- aside so the key can switch. To hand them to an account (on a single-user install, the
+-- account that wrote them), run this in the SQL editor with that account's id:
+--   insert into public.entries
+--     select (jsonb_populate_record(null::public.entries, data || '{"user_id": "<user id>"}')).*
+--     from public.entries_unowned
+--   on conflict (user_id, id) do nothing;
+-- Days the account already has are skipped; compare those by hand before deleting the rows
+-- from entries_unowned. The account's devices download the restored entries on their next sync.
+create table if not exists public.entries_unowned (
+  id text not null,
+  data jsonb not null,
+  moved_at timestamptz not null default now()
+);
+
+-- No policies on purpose: the rows have no owner to grant them to, so only the dashboard
+-- and the service role can read them
+alter table public.entries_unowned enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from information_schema.key_column_usage
+    where table_schema = 'public' and table_name = 'entries'
+      and constraint_name = 'entries_pkey' and column_name = 'user_id'
+  ) then
+    insert into public.entries_unowned (id, data)
+      select e.id, to_jsonb(e) from public.entries e where e.user_id is null;
+    delete from public.entries where user_id is null;
+
+    alter table public.entries drop constraint if exists entries_pkey;
+    alter table public.entries alter column user_id set not null;
+    alter table public.entries add primary key (user_id, id);
+  end if;
+end $$;
+
+alter table public.entries enable row level security;
+
+drop policy if exists "Users manage their own entries" on public.entries;
+create policy "Users manage their own entries" on public.entries
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- Change feed for incremental sync: every write stamps synced_at with the server clock,
+-- and clients page through rows ordered by (synced_at, id).
+alter table public.entries add column if not exists synced_at timestamptz not null default clock_timestamp();
+
+create or replace function public.entries_touch_synced_at() returns trigger
+language plpgsql as $$
+begin
+  new.synced_at := clock_timestamp();
+  return new;
+end $$;
+
+drop trigger if exists entries_touch_synced_at on public.entries;
+create trigger entries_touch_synced_at before insert or update on public.entries
+  for each row execute function public.entries_touch_synced_at();
+
+create index if not exists entries_user_synced_at_idx on public.entries (user_id, synced_at, id);
+
+-- Revision history, uploaded only when the user turns on history sync
+create table if not exists public.entry_revisions (
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  id text not null,
+  entry_id text not null,
+  date text not null,
+  content text not null default '',
+  word_count integer not null default 0,
+  saved_at bigint not null,
+  primary key (user_id, id)
+);
+
+create index if not exists entry_revisions_entry_idx on public.entry_revisions (user_id, entry_id);
+
+alter table public.entry_revisions enable row level security;
+
+drop policy if exists "Users manage their own revisions" on public.entry_revisions;
+create policy "Users manage their own revisions" on public.entry_revisions
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- Settings shared by all of a user's devices. `version` is the client's settings schema,
+-- so older apps can tell when the row was written by a newer one.
+create table if not exists public.user_settings (
+  user_id uuid primary key references auth.users (id) on delete cascade default auth.uid(),
+  version integer not null default 1,
+  settings jsonb not null default '{}',
+  updated_at bigint not null
+);
+
+alter table public.user_settings enable row level security;
+
+drop policy if exists "Users manage their own settings" on public.user_settings;
+create policy "Users manage their own settings" on public.user_settings
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- End-to-end encryption: only the public parameters of the user's key (salt, PBKDF2
+-- iterations and a verifier). The passphrase never reaches the server, and encrypted
+-- entries are stored as opaque "enc:v1:..." text in content and tags.
+create table if not exists public.user_keys (
+  user_id uuid primary key references auth.users (id) on delete cascade default auth.uid(),
+  key_id text not null,
+  salt text not null,
+  iterations integer not null,
+  verifier text not null
+);
+
+alter table public.user_keys enable row level security;
+
+drop policy if exists "Users manage their own keys" on public.user_keys;
+create policy "Users manage their own keys" on public.user_keys
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- Account deletion from the app. Removes the user's rows explicitly (not only through the
+-- cascades) and then the auth user itself, which clients cannot do with the anon key.
+create or replace function public.delete_account() returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  uid uuid := auth.uid();
+begin
+  if uid is null then
+    raise exception 'Not signed in';
+  end if;
+  delete from public.entries where user_id = uid;
+  delete from public.entry_revisions where user_id = uid;
+  delete from public.user_settings where user_id = uid;
+  delete from public.user_keys where user_id = uid;
+  delete from storage.objects where bucket_id = 'attachments' and (storage.foldername(name))[1] = uid::text;
+  delete from auth.users where id = uid;
+end $$;
+
+revoke all on function public.delete_account() from public;
+grant execute on function public.delete_account() to authenticated;
+
+-- Several entries per day. New entries get random ids; rows written while each day held a
+-- single entry keep their day-key id, so nothing is rewritten. created_at (ms since epoch)
+-- orders a day's entries and stays null on those older rows; title is an optional heading.
+alter table public.entries add column if not exists title text;
+alter table public.entries add column if not exists created_at bigint;
+
+create index if not exists entries_user_date_idx on public.entries (user_id, date);
+
+-- Mood of an entry: its position on the user's mood scale (1 = lowest), or null.
+-- Encrypted entries keep it inside their sealed tags instead, so the column stays null.
+alter table public.entries add column if not exists mood smallint;
+
+-- Journals: the list itself is part of the synced settings, entries point at theirs here.
+-- Rows from before journals have null and belong to the default journal.
+alter table public.entries add column if not exists journal_id text;
+
+-- Attachments: entries describe their files in this column (id, name, type, size...);
+-- encrypted entries keep the list inside their sealed tags instead.
+alter table public.entries add column if not exists attachments jsonb;
+
+-- The files themselves live in a private Storage bucket, one folder per user
+-- (<user id>/<attachment id>). Encrypted diaries upload them encrypted.
+insert into storage.buckets (id, name, public)
+values ('attachments', 'attachments', false)
+on conflict (id) do nothing;
+
+drop policy if exists "Users manage their own attachments" on storage.objects;
+create policy "Users manage their own attachments" on storage.objects
+  for all to authenticated
+  using (bucket_id = 'attachments' and (storage.foldername(name))[1] = auth.uid()::text)
+  with check (bucket_id = 'attachments' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Habits: the list is part of the synced settings; an entry lists the ids of the habits
+-- checked off in it. Encrypted entries keep them inside their sealed tags instead.
+alter table public.entries add column if not exists habits text[];
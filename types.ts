@@ -1,19 +1,113 @@
 export interface DiaryEntry {
-  id: string;
+  id: string; // Random id; entries from before a day could hold several use the day key
   date: string; // ISO Date string (YYYY-MM-DD)
+  title?: string; // Optional heading shown in the day's timeline
   content: string; // HTML content
   tags: string[];
+  mood?: number | null; // Position on the user's mood scale, from 1 (lowest)
+  journalId?: string; // Missing on entries from before journals: they belong to the default one
+  attachments?: Attachment[];
+  habits?: string[]; // Ids of the habits checked off in this entry
+  createdAt?: number; // Orders entries within the day; missing on day-keyed entries
   updatedAt: number;
+  deletedAt?: number | null; // Tombstone: set when the entry was cleared
+  rev?: number; // Server revision this copy is based on (undefined = never synced)
+  baseContent?: string; // Content at `rev`, kept locally as the base for three-way merges
+}
+
+// A file attached to an entry. Only this description travels with the entry; the file itself
+// is stored and synced on its own (utils/attachments.ts). Images are also shown inline,
+// where the content refers to them by id.
+export interface Attachment {
+  id: string;
+  name: string;
+  type: string; // MIME type
+  size: number; // Bytes, after resizing
+  width?: number; // Images only
+  height?: number;
+}
+
+// Both sides of an edit that could not be merged automatically
+export interface EntryConflict {
+  id: string; // Entry id
+  local: DiaryEntry;
+  remote: DiaryEntry;
+  detectedAt: number;
+}
+
+// A version of an entry that lost a conflict resolution, kept so it can be restored
+export interface RecoveredCopy {
+  id: string;
+  entryId: string;
+  date: string;
+  content: string;
+  source: 'local' | 'remote';
+  savedAt: number;
+}
+
+// Snapshot of an earlier version of an entry, listed in its revision history
+export interface EntryRevision {
+  id: string;
+  entryId: string;
+  date: string;
+  content: string;
+  wordCount: number;
+  savedAt: number; // When this version was written
+}
+
+// One step of the mood scale; its value is its position, starting at 1
+export interface MoodLevel {
+  emoji: string;
+  label: string;
 }
 
 export type FontFamily = 'inter' | 'roboto' | 'source' | 'montserrat' | 'serif' | 'mono';
 
+export type JournalIcon = 'book' | 'briefcase' | 'moon' | 'plane' | 'heart' | 'star' | 'coffee' | 'pen';
+
+// Editor settings a journal sets for its own entries; the ones it leaves out follow the app
+export type JournalSettings = Partial<Pick<AppSettings, 'editorFont' | 'editorFontSize' | 'editorColor'>>;
+
+// A recurring habit checked off day by day (exercise, reading, meds...)
+export interface Habit {
+  id: string;
+  name: string;
+  color: string;
+}
+
+// A named notebook within the account (a work log, a dream journal...)
+export interface Journal {
+  id: string;
+  name: string;
+  color: string;
+  icon: JournalIcon;
+  settings: JournalSettings;
+  createdAt: number;
+}
+
+// Starting text for an entry, applied from the toolbar or by default on its weekdays
+export interface EntryTemplate {
+  id: string;
+  name: string;
+  title: string; // May be empty; {date} and {weekday} are filled in when applied
+  body: string; // Plain text, one paragraph per line; same placeholders as the title
+  tags: string[];
+  weekdays: number[]; // 0 = Sunday. New entries on these days start from this template
+}
+
 export interface AppSettings {
   darkMode: boolean;
   editorFont: FontFamily;
   editorFontSize: number; // px
   editorColor: string;
   sidebarOpen: boolean;
+  syncHistory: boolean; // Upload revision history to the account, not just keep it on this device
+  moodScale: MoodLevel[]; // Lowest mood first
+  journals: Journal[]; // Always includes the default journal
+  templates: EntryTemplate[];
+  prompts: string[]; // Shown in turn on empty entries; none turns them off
+  habits: Habit[];
+  deviceOnly: (keyof AppSettings)[]; // Settings this device keeps to itself instead of syncing
 }
 
 export interface SearchFilters {
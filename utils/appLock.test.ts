@@ -0,0 +1,50 @@
+// @vitest-environment happy-dom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getLockout, loadAppLock, removeAppLock, setAppLock, updateAppLockOptions, verifyAppLock } from './appLock';
+
+const options = { kind: 'pin' as const, idleMinutes: 5, lockWhenHidden: false };
+
+beforeEach(() => localStorage.clear());
+
+describe('app lock', () => {
+  it('keeps the options but never the secret readable', async () => {
+    await setAppLock('user-1', '1234', options);
+    expect(loadAppLock('user-1')).toEqual(options);
+    expect(JSON.stringify(localStorage)).not.toContain('1234');
+
+    updateAppLockOptions('user-1', { idleMinutes: null, lockWhenHidden: true });
+    expect(loadAppLock('user-1')).toEqual({ kind: 'pin', idleMinutes: null, lockWhenHidden: true });
+    expect(await verifyAppLock('user-1', '1234')).toEqual({ ok: true });
+  });
+
+  it('is per user and can be removed', async () => {
+    await setAppLock('user-1', '1234', options);
+    expect(loadAppLock('user-2')).toBeNull();
+    expect(await verifyAppLock('user-2', 'anything')).toEqual({ ok: true });
+
+    removeAppLock('user-1');
+    expect(loadAppLock('user-1')).toBeNull();
+  });
+
+  it('delays attempts after repeated wrong secrets, even the right one', async () => {
+    await setAppLock('user-1', '1234', options);
+    for (let i = 0; i < 4; i++) {
+      expect(await verifyAppLock('user-1', '0000')).toEqual({ ok: false, retryAt: null });
+    }
+
+    const fifth = await verifyAppLock('user-1', '0000');
+    expect(fifth.ok).toBe(false);
+    const retryAt = (fifth as { retryAt: number }).retryAt;
+    expect(retryAt).toBeGreaterThan(Date.now());
+    expect(getLockout('user-1')).toBe(retryAt);
+    expect(await verifyAppLock('user-1', '1234')).toEqual({ ok: false, retryAt });
+
+    vi.useFakeTimers({ toFake: ['Date'], now: retryAt + 1 });
+    try {
+      expect(getLockout('user-1')).toBeNull();
+      expect(await verifyAppLock('user-1', '1234')).toEqual({ ok: true });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,103 @@
+// App lock: a PIN or passphrase asked for before the diary is shown on this device.
+// It guards an unattended, signed-in browser; it does not encrypt anything (see utils/encryption.ts).
+// Kept per user and per device in localStorage, never synced.
+
+const APP_LOCK_KEY = 'graynote_app_lock';
+
+const PBKDF2_ITERATIONS = 200_000;
+
+// Wrong attempts allowed before each further one is delayed, doubling up to the maximum
+const FREE_ATTEMPTS = 4;
+const LOCKOUT_BASE_MS = 30 * 1000;
+const LOCKOUT_MAX_MS = 15 * 60 * 1000;
+
+export type AppLockKind = 'pin' | 'passphrase';
+
+export interface AppLockOptions {
+  kind: AppLockKind;
+  idleMinutes: number | null; // null: never locks on its own
+  lockWhenHidden: boolean;
+}
+
+interface AppLockConfig extends AppLockOptions {
+  hash: string;
+  salt: string;
+  failures: number;
+  lockedUntil: number | null; // Lockout after too many wrong attempts
+}
+
+export type UnlockResult =
+  | { ok: true }
+  | { ok: false; retryAt: number | null };
+
+const storageKey = (userId: string) => `${APP_LOCK_KEY}:${userId}`;
+
+const loadConfig = (userId: string): AppLockConfig | null => {
+  try {
+    const data = localStorage.getItem(storageKey(userId));
+    return data ? JSON.parse(data) : null;
+  } catch (error) {
+    console.error('Failed to load app lock', error);
+    return null;
+  }
+};
+
+const saveConfig = (userId: string, config: AppLockConfig) => {
+  localStorage.setItem(storageKey(userId), JSON.stringify(config));
+};
+
+const hashSecret = async (secret: string, salt: string) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: new TextEncoder().encode(salt), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    256
+  );
+  return btoa(String.fromCharCode(...new Uint8Array(bits)));
+};
+
+// The lock's options without its secret; null when no lock is set up
+export const loadAppLock = (userId: string): AppLockOptions | null => {
+  const config = loadConfig(userId);
+  return config ? { kind: config.kind, idleMinutes: config.idleMinutes, lockWhenHidden: config.lockWhenHidden } : null;
+};
+
+export const setAppLock = async (userId: string, secret: string, options: AppLockOptions) => {
+  const salt = crypto.randomUUID();
+  saveConfig(userId, { ...options, salt, hash: await hashSecret(secret, salt), failures: 0, lockedUntil: null });
+};
+
+export const updateAppLockOptions = (userId: string, options: Pick<AppLockOptions, 'idleMinutes' | 'lockWhenHidden'>) => {
+  const config = loadConfig(userId);
+  if (config) saveConfig(userId, { ...config, ...options });
+};
+
+export const removeAppLock = (userId: string) => {
+  localStorage.removeItem(storageKey(userId));
+};
+
+// When the next attempt is allowed, or null if it is allowed now
+export const getLockout = (userId: string): number | null => {
+  const lockedUntil = loadConfig(userId)?.lockedUntil ?? null;
+  return lockedUntil && lockedUntil > Date.now() ? lockedUntil : null;
+};
+
+// Failures are stored, so reloading the page does not reset the backoff
+export const verifyAppLock = async (userId: string, secret: string): Promise<UnlockResult> => {
+  const config = loadConfig(userId);
+  if (!config) return { ok: true };
+  if (config.lockedUntil && config.lockedUntil > Date.now()) return { ok: false, retryAt: config.lockedUntil };
+
+  if ((await hashSecret(secret, config.salt)) === config.hash) {
+    saveConfig(userId, { ...config, failures: 0, lockedUntil: null });
+    return { ok: true };
+  }
+
+  const failures = config.failures + 1;
+  const excess = failures - FREE_ATTEMPTS;
+  const lockedUntil = excess > 0
+    ? Date.now() + Math.min(LOCKOUT_BASE_MS * 2 ** (excess - 1), LOCKOUT_MAX_MS)
+    : null;
+  saveConfig(userId, { ...config, failures, lockedUntil });
+  return { ok: false, retryAt: lockedUntil };
+};
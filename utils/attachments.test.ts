@@ -0,0 +1,111 @@
+// @vitest-environment happy-dom
+import 'fake-indexeddb/auto';
+import { Blob as NodeBlob, File as NodeFile } from 'node:buffer';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The IndexedDB stand-in stores values with Node's structuredClone, which only keeps Node's own files intact
+vi.stubGlobal('Blob', NodeBlob);
+vi.stubGlobal('File', NodeFile);
+
+vi.mock('./supabaseClient', () => ({ supabase: {}, isSupabaseConfigured: () => false }));
+// The in-browser local backend plays the server
+vi.stubEnv('VITE_SYNC_BACKEND', 'local');
+
+const { setStorageScope, clearLocalData, saveRevisions } = await import('./storage');
+const { getSyncBackend } = await import('./backends');
+const {
+  addAttachment,
+  releaseAttachments,
+  uploadPendingAttachments,
+  getAttachmentUrl,
+  forgetAttachmentUrls,
+  editorHtml,
+  attachmentImageHtml,
+  AttachmentTooLargeError,
+  MAX_ATTACHMENT_BYTES,
+} = await import('./attachments');
+
+const server = getSyncBackend();
+const text = (content: string, name = 'notes.txt') => new File([content], name, { type: 'text/plain' });
+
+// Released files are only looked at after a delay
+const afterReleaseDelay = async (run: () => Promise<void>) => {
+  vi.useFakeTimers({ toFake: ['Date'], now: Date.now() + 2 * 60 * 1000 });
+  try {
+    await run();
+  } finally {
+    vi.useRealTimers();
+  }
+};
+
+beforeEach(async () => {
+  localStorage.clear();
+  forgetAttachmentUrls();
+  await clearLocalData('user-1');
+  setStorageScope('user-1');
+});
+
+describe('attachments', () => {
+  it('keeps the file locally and uploads it on the next flush', async () => {
+    const attachment = await addAttachment(text('hello'));
+    expect(attachment).toMatchObject({ name: 'notes.txt', type: 'text/plain', size: 5 });
+    expect(await server.downloadAttachment('user-1', attachment.id)).toBeNull();
+
+    await uploadPendingAttachments();
+    expect(await (await server.downloadAttachment('user-1', attachment.id))?.text()).toBe('hello');
+  });
+
+  it('deletes released files once nothing refers to them', async () => {
+    const attachment = await addAttachment(text('hello'));
+    await uploadPendingAttachments();
+
+    await releaseAttachments([attachment.id]);
+    await uploadPendingAttachments();
+    expect(await server.downloadAttachment('user-1', attachment.id)).not.toBeNull();
+
+    await afterReleaseDelay(uploadPendingAttachments);
+    expect(await server.downloadAttachment('user-1', attachment.id)).toBeNull();
+    expect(await getAttachmentUrl(attachment.id)).toBeNull();
+  });
+
+  it('drops a released file that was never uploaded', async () => {
+    const attachment = await addAttachment(text('hello'));
+    await releaseAttachments([attachment.id]);
+    expect(await getAttachmentUrl(attachment.id)).toBeNull();
+
+    await afterReleaseDelay(uploadPendingAttachments);
+    expect(await server.downloadAttachment('user-1', attachment.id)).toBeNull();
+  });
+
+  it('keeps released files a revision still shows', async () => {
+    const attachment = await addAttachment(text('hello'));
+    await uploadPendingAttachments();
+    const content = `<img data-attachment="${attachment.id}" alt="">`;
+    await saveRevisions([{ id: 'r', entryId: 'e', date: '2025-03-14', content, wordCount: 0, savedAt: 1 }]);
+
+    await releaseAttachments([attachment.id]);
+    await afterReleaseDelay(uploadPendingAttachments);
+    expect(await server.downloadAttachment('user-1', attachment.id)).not.toBeNull();
+    expect(await getAttachmentUrl(attachment.id)).toMatch(/^blob:/);
+  });
+
+  it('downloads files another device attached', async () => {
+    await server.uploadAttachment('user-1', 'from-phone', new Blob(['photo']));
+    expect(await getAttachmentUrl('from-phone')).toMatch(/^blob:/);
+    expect(await getAttachmentUrl('missing')).toBeNull();
+  });
+
+  it('refuses files over the size limit', async () => {
+    const huge = new File([new Uint8Array(MAX_ATTACHMENT_BYTES + 1)], 'huge.bin');
+    await expect(addAttachment(huge)).rejects.toBeInstanceOf(AttachmentTooLargeError);
+  });
+
+  it('stores images by id, without the object URL shown in the editor', () => {
+    const root = document.createElement('div');
+    root.innerHTML = attachmentImageHtml({ id: 'abc', name: 'cat.png', type: 'image/png', size: 1 });
+    root.querySelector('img')!.src = 'blob:shown';
+
+    expect(editorHtml(root)).toBe('<img data-attachment="abc" alt="cat.png">');
+    expect(root.querySelector('img')!.getAttribute('src')).toBe('blob:shown');
+  });
+});
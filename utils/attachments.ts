@@ -0,0 +1,313 @@
+import { Attachment, DiaryEntry, EntryConflict, EntryRevision, RecoveredCopy } from '../types';
+import { STORES, idbGet, idbGetAll, idbPut, idbPutMany, idbDelete } from './db';
+import { pushAttachment, removeRemoteAttachments, fetchAttachment, isRemoteSyncAvailable, isGuestScope } from './storage';
+
+// Files attached to entries.
+// An entry only carries a description of each file (Attachment). The file itself is kept as a
+// blob in IndexedDB, never inlined into the content, and uploaded by the outbox before the
+// entries that mention it (uploadPendingAttachments). Devices that did not attach a file
+// download it the first time it is shown.
+// Images also appear in the content as <img data-attachment="id">; their src is an object URL
+// filled in on display (showAttachmentImages) and stripped again when saving (editorHtml).
+
+export interface StoredFile {
+  id: string;
+  file: Blob;
+}
+
+// Pending work for a file. Uploads and deletes are replayed against the server like the entry
+// outbox; a release waits on this device until nothing refers to the file (see releaseAttachments).
+interface QueuedFileOperation {
+  id: string;
+  action: 'upload' | 'delete' | 'release';
+  checkAfter?: number; // Releases only
+}
+
+// A released file is first checked once the entry that dropped it has surely been saved, and
+// then again every day while a revision, recovered copy or conflict still shows it
+const RELEASE_DELAY_MS = 60 * 1000;
+const RELEASE_RECHECK_MS = 24 * 60 * 60 * 1000;
+
+// Larger files are refused; images are resized well below this first
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+const MAX_IMAGE_DIMENSION = 1600; // px, longest side
+const IMAGE_QUALITY = 0.85;
+// Formats the browser can re-encode; GIFs would lose their animation, so they are kept as they are
+const RESIZABLE_TYPES = new Set(['image/jpeg', 'image/png', 'image/webp']);
+
+export class AttachmentTooLargeError extends Error {
+  constructor(name: string) {
+    super(`"${name}" is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB and cannot be attached.`);
+    this.name = 'AttachmentTooLargeError';
+  }
+}
+
+export const isImageAttachment = (attachment: Attachment) => attachment.type.startsWith('image/');
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Scales large images down to MAX_IMAGE_DIMENSION. PNGs stay PNGs (transparency), the rest become JPEGs.
+const resizeImage = async (source: Blob): Promise<{ file: Blob; width: number; height: number }> => {
+  const bitmap = await createImageBitmap(source);
+  const { width, height } = bitmap;
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(width, height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const type = source.type === 'image/png' ? 'image/png' : 'image/jpeg';
+  const resized = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, IMAGE_QUALITY));
+  // Re-encoding a small, already compressed image can make it bigger
+  if (!resized || (scale === 1 && resized.size >= source.size)) return { file: source, width, height };
+  return { file: resized, width: canvas.width, height: canvas.height };
+};
+
+const enqueue = (operations: QueuedFileOperation[]) => idbPutMany(STORES.ATTACHMENT_QUEUE, operations);
+
+// Stores a picked, pasted or dropped file and returns its description for the entry.
+// The caller saves the entry; the next outbox flush uploads the file.
+export const addAttachment = async (source: File): Promise<Attachment> => {
+  const { file, width, height } = RESIZABLE_TYPES.has(source.type)
+    ? await resizeImage(source)
+    : { file: source as Blob, width: undefined, height: undefined };
+  if (file.size > MAX_ATTACHMENT_BYTES) throw new AttachmentTooLargeError(source.name);
+
+  const attachment: Attachment = {
+    id: crypto.randomUUID(),
+    name: source.name || 'Image',
+    type: file.type || source.type || 'application/octet-stream',
+    size: file.size,
+    width,
+    height,
+  };
+  await idbPut<StoredFile>(STORES.ATTACHMENTS, { id: attachment.id, file });
+  // A guest diary has nowhere to upload to; attaching it to an account queues its files then
+  if (!isGuestScope()) await enqueue([{ id: attachment.id, action: 'upload' }]);
+  return attachment;
+};
+
+// --- Display ---
+
+const urls = new Map<string, Promise<string | null>>();
+
+const loadFile = async (id: string): Promise<Blob | null> => {
+  const stored = await idbGet<StoredFile>(STORES.ATTACHMENTS, id);
+  if (stored) return stored.file;
+  const file = await fetchAttachment(id);
+  if (file) await idbPut<StoredFile>(STORES.ATTACHMENTS, { id, file });
+  return file;
+};
+
+// Object URL for an attachment, fetched from the server if this device does not have it.
+// null while it is not available (offline, or its device has not uploaded it yet).
+export const getAttachmentUrl = (id: string): Promise<string | null> => {
+  let url = urls.get(id);
+  if (!url) {
+    url = loadFile(id).then((file) => (file ? URL.createObjectURL(file) : null));
+    urls.set(id, url);
+    // Try again next time instead of remembering the miss
+    url.then((result) => !result && urls.delete(id), () => urls.delete(id));
+  }
+  return url;
+};
+
+// Releases the object URLs of the previous account (sign-out, switching users)
+export const forgetAttachmentUrls = () => {
+  urls.forEach((url) => url.then((result) => result && URL.revokeObjectURL(result)).catch(() => undefined));
+  urls.clear();
+};
+
+// Fills in the src of the attachment images under `root` (the editor, a preview)
+export const showAttachmentImages = (root: HTMLElement) => {
+  root.querySelectorAll<HTMLImageElement>('img[data-attachment]').forEach((image) => {
+    const id = image.getAttribute('data-attachment');
+    if (!id || image.getAttribute('src')) return;
+    getAttachmentUrl(id)
+      .then((url) => {
+        if (url && image.getAttribute('data-attachment') === id) image.src = url;
+      })
+      .catch((err) => console.error('Failed to load attachment', err));
+  });
+};
+
+// The editor's HTML as it is stored: without the object URLs filled in for display
+export const editorHtml = (root: HTMLElement | null): string => {
+  if (!root) return '';
+  if (!root.querySelector('img[src]')) return root.innerHTML;
+  const copy = root.cloneNode(true) as HTMLElement;
+  copy.querySelectorAll('img[src]').forEach((image) => image.removeAttribute('src'));
+  return copy.innerHTML;
+};
+
+// Markup that shows an attachment inline in the content
+export const attachmentImageHtml = (attachment: Attachment) => {
+  const image = document.createElement('img');
+  image.setAttribute('data-attachment', attachment.id);
+  image.setAttribute('alt', attachment.name);
+  return image.outerHTML;
+};
+
+// Starts a download of the file under its original name
+export const downloadAttachment = async (attachment: Attachment) => {
+  const url = await getAttachmentUrl(attachment.id);
+  if (!url) throw new Error(`"${attachment.name}" is not available on this device yet.`);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = attachment.name;
+  a.click();
+};
+
+// --- Removal ---
+
+const forgetFile = async (id: string) => {
+  await idbDelete(STORES.ATTACHMENTS, id);
+  urls.get(id)?.then((url) => url && URL.revokeObjectURL(url)).catch(() => undefined);
+  urls.delete(id);
+};
+
+// Used when an attachment is taken out of its entry or the entry is deleted. The files are not
+// deleted right away: restoring a revision, a recovered copy or a conflict version can bring
+// them back, so they go once nothing on this device refers to them (collectReleasedAttachments).
+// A file whose upload is still queued never reached the server: it is dropped here and now.
+export const releaseAttachments = async (ids: string[]) => {
+  if (ids.length === 0) return;
+  const checkAfter = Date.now() + RELEASE_DELAY_MS;
+  const released: QueuedFileOperation[] = [];
+  for (const id of ids) {
+    const current = await idbGet<QueuedFileOperation>(STORES.ATTACHMENT_QUEUE, id);
+    if (current?.action === 'upload') {
+      await idbDelete(STORES.ATTACHMENT_QUEUE, id);
+      await forgetFile(id);
+    } else {
+      released.push({ id, action: 'release', checkAfter });
+    }
+  }
+  await enqueue(released);
+};
+
+const ATTACHMENT_REFERENCE = /data-attachment="([^"]+)"/g;
+
+// Every file an entry, a revision, a recovered copy, a conflict or a queued upload still shows
+const collectReferences = async (): Promise<Set<string>> => {
+  const ids = new Set<string>();
+  const addContent = (content: string | undefined) => {
+    for (const match of (content || '').matchAll(ATTACHMENT_REFERENCE)) ids.add(match[1]);
+  };
+  const addEntry = (entry: DiaryEntry) => {
+    addContent(entry.content);
+    (entry.attachments || []).forEach((attachment) => ids.add(attachment.id));
+  };
+
+  const [entries, revisions, copies, conflicts, outbox] = await Promise.all([
+    idbGetAll<DiaryEntry>(STORES.ENTRIES),
+    idbGetAll<EntryRevision>(STORES.REVISIONS),
+    idbGetAll<RecoveredCopy>(STORES.RECOVERED_COPIES),
+    idbGetAll<EntryConflict>(STORES.CONFLICTS),
+    idbGetAll<{ entry: DiaryEntry }>(STORES.OUTBOX),
+  ]);
+  entries.forEach(addEntry);
+  revisions.forEach((revision) => addContent(revision.content));
+  copies.forEach((copy) => addContent(copy.content));
+  conflicts.forEach((conflict) => {
+    addEntry(conflict.local);
+    addEntry(conflict.remote);
+  });
+  outbox.forEach((op) => addEntry(op.entry));
+  return ids;
+};
+
+// Deletes the released files nothing refers to any more, here and (on the next flush) on the
+// server. Runs when a diary is opened and before every outbox flush.
+export const collectReleasedAttachments = async () => {
+  const now = Date.now();
+  const due = (await idbGetAll<QueuedFileOperation>(STORES.ATTACHMENT_QUEUE))
+    .filter((operation) => operation.action === 'release' && (operation.checkAfter ?? 0) <= now);
+  if (due.length === 0) return;
+
+  const references = await collectReferences();
+  for (const operation of due) {
+    // Released again meanwhile, or attached again
+    const current = await idbGet<QueuedFileOperation>(STORES.ATTACHMENT_QUEUE, operation.id);
+    if (current?.action !== 'release' || current.checkAfter !== operation.checkAfter) continue;
+
+    if (references.has(operation.id)) {
+      await idbPut<QueuedFileOperation>(STORES.ATTACHMENT_QUEUE, { ...operation, checkAfter: now + RELEASE_RECHECK_MS });
+      continue;
+    }
+    await forgetFile(operation.id);
+    // A guest diary has no server copy to delete
+    if (isGuestScope()) await idbDelete(STORES.ATTACHMENT_QUEUE, operation.id);
+    else await enqueue([{ id: operation.id, action: 'delete' }]);
+  }
+};
+
+// --- Sync ---
+
+// Runs at the start of every outbox flush, so an uploaded entry never mentions a file the
+// server does not have. Failures are rethrown and the flush is retried as a whole.
+export const uploadPendingAttachments = async () => {
+  await collectReleasedAttachments();
+  const operations = await idbGetAll<QueuedFileOperation>(STORES.ATTACHMENT_QUEUE);
+  for (const operation of operations) {
+    if (!isRemoteSyncAvailable()) return;
+    if (operation.action === 'release') continue;
+
+    if (operation.action === 'delete') {
+      await removeRemoteAttachments([operation.id]);
+    } else {
+      const stored = await idbGet<StoredFile>(STORES.ATTACHMENTS, operation.id);
+      // Removed before it was ever uploaded
+      if (stored) await pushAttachment(operation.id, stored.file);
+    }
+
+    // Only clear the operation if it was not replaced meanwhile (e.g. uploaded, then removed)
+    const current = await idbGet<QueuedFileOperation>(STORES.ATTACHMENT_QUEUE, operation.id);
+    if (current?.action === operation.action) {
+      await idbDelete(STORES.ATTACHMENT_QUEUE, operation.id);
+    } else if (!current && operation.action === 'upload') {
+      // Released while it was being uploaded (see releaseAttachments): the server copy goes too
+      await enqueue([{ id: operation.id, action: 'delete' }]);
+    }
+  }
+};
+
+// Downloads the files this device has not stored yet. Run before the encryption key changes:
+// files are only re-uploaded under the new key from a local copy.
+export const storeMissingAttachments = async (entries: DiaryEntry[]) => {
+  for (const entry of entries) {
+    for (const attachment of entry.attachments || []) {
+      try {
+        await loadFile(attachment.id);
+      } catch (err: any) {
+        console.error(`Failed to download attachment ${attachment.id}:`, err?.message || err);
+      }
+    }
+  }
+};
+
+// Queues every stored file for upload again (see requeueAllEntries)
+export const requeueAllAttachments = async () => {
+  const files = await idbGetAll<StoredFile>(STORES.ATTACHMENTS);
+  // Released files keep waiting for their collection; they would only be uploaded to be deleted
+  const released = new Set(
+    (await idbGetAll<QueuedFileOperation>(STORES.ATTACHMENT_QUEUE))
+      .filter((operation) => operation.action === 'release')
+      .map((operation) => operation.id)
+  );
+  await enqueue(files.filter(({ id }) => !released.has(id)).map(({ id }) => ({ id, action: 'upload' as const })));
+};
+
+// Adds files from elsewhere (the guest diary) and queues them for upload
+export const importAttachmentFiles = async (files: StoredFile[]) => {
+  if (files.length === 0) return;
+  await idbPutMany(STORES.ATTACHMENTS, files);
+  await enqueue(files.map(({ id }) => ({ id, action: 'upload' as const })));
+};
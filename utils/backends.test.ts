@@ -0,0 +1,28 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('./supabaseClient', () => ({ supabase: {}, isSupabaseConfigured: () => false }));
+
+// The configuration is read once per module load
+const loadBackends = async (syncBackend?: string) => {
+  vi.resetModules();
+  if (syncBackend) vi.stubEnv('VITE_SYNC_BACKEND', syncBackend);
+  return import('./backends');
+};
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('backend configuration', () => {
+  it('refuses to start without Supabase settings', async () => {
+    const { getBackendConfigProblem, getSyncBackend } = await loadBackends();
+    expect(getBackendConfigProblem()).toMatch(/VITE_SUPABASE_URL/);
+    expect(() => getSyncBackend()).toThrow(/VITE_SYNC_BACKEND=local/);
+  });
+
+  it('runs the local backend only when asked for', async () => {
+    const { getBackendConfigProblem, getSyncBackend } = await loadBackends('local');
+    expect(getBackendConfigProblem()).toBeNull();
+    expect(getSyncBackend().name).toBe('local');
+  });
+});
@@ -0,0 +1,25 @@
+import { config } from './config';
+import { isSupabaseConfigured } from './supabaseClient';
+import { SyncBackend } from './syncBackend';
+import { createSupabaseBackend } from './supabaseBackend';
+import { createLocalBackend } from './localBackend';
+import { withEncryption } from './encryptedBackend';
+
+let backend: SyncBackend | null = null;
+
+// The local backend is a demo and must be asked for explicitly; anything else needs Supabase.
+// Returns what is missing from the build configuration, or null when it is complete.
+export const getBackendConfigProblem = (): string | null => {
+  if (config.syncBackend === 'local' || isSupabaseConfigured()) return null;
+  return 'VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY are not set. Set them to your Supabase project, or set VITE_SYNC_BACKEND=local to run the offline demo backend.';
+};
+
+// Entries go through withEncryption, which is a no-op until the user sets a passphrase.
+export const getSyncBackend = (): SyncBackend => {
+  if (!backend) {
+    const problem = getBackendConfigProblem();
+    if (problem) throw new Error(problem);
+    backend = withEncryption(config.syncBackend === 'local' ? createLocalBackend() : createSupabaseBackend());
+  }
+  return backend;
+};
@@ -0,0 +1,11 @@
+// Build-time configuration, read from Vite env vars (see .env.example)
+export const config = {
+  syncBackend: import.meta.env.VITE_SYNC_BACKEND,
+  supabaseUrl: import.meta.env.VITE_SUPABASE_URL ?? '',
+  supabaseAnonKey: import.meta.env.VITE_SUPABASE_ANON_KEY ?? '',
+  // OAuth providers offered on the sign-in screen, e.g. "google,github"
+  authProviders: (import.meta.env.VITE_AUTH_PROVIDERS ?? '')
+    .split(',')
+    .map((provider) => provider.trim().toLowerCase())
+    .filter(Boolean),
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { isDateKey, parseDateLink } from './dateLinks';
+
+// A Friday
+const BASE = '2025-03-14';
+
+describe('parseDateLink', () => {
+  it('reads day keys', () => {
+    expect(parseDateLink('2025-01-31', BASE)).toBe('2025-01-31');
+    expect(parseDateLink(' 2025-01-31 ', BASE)).toBe('2025-01-31');
+    expect(parseDateLink('2025-02-30', BASE)).toBeNull();
+  });
+
+  it('resolves relative days against the entry day', () => {
+    expect(parseDateLink('today', BASE)).toBe('2025-03-14');
+    expect(parseDateLink('Yesterday', BASE)).toBe('2025-03-13');
+    expect(parseDateLink('ontem', BASE)).toBe('2025-03-13');
+    expect(parseDateLink('anteontem', BASE)).toBe('2025-03-12');
+    expect(parseDateLink('amanhã', BASE)).toBe('2025-03-15');
+    expect(parseDateLink('3 days ago', BASE)).toBe('2025-03-11');
+    expect(parseDateLink('há 1 dia', BASE)).toBe('2025-03-13');
+  });
+
+  it('takes the last such weekday before the entry day', () => {
+    expect(parseDateLink('monday', BASE)).toBe('2025-03-10');
+    expect(parseDateLink('last friday', BASE)).toBe('2025-03-07');
+    expect(parseDateLink('sexta-feira', BASE)).toBe('2025-03-07');
+    expect(parseDateLink('sábado', BASE)).toBe('2025-03-08');
+  });
+
+  it('reads written dates in English and Portuguese', () => {
+    expect(parseDateLink('2/1/2024', BASE)).toBe('2024-01-02');
+    expect(parseDateLink('25/12', BASE)).toBe('2025-12-25');
+    expect(parseDateLink('March 3, 2024', BASE)).toBe('2024-03-03');
+    expect(parseDateLink('3 mar', BASE)).toBe('2025-03-03');
+    expect(parseDateLink('14 de março', BASE)).toBe('2025-03-14');
+    expect(parseDateLink('1 de janeiro de 2020', BASE)).toBe('2020-01-01');
+  });
+
+  it('rejects text that is not a date', () => {
+    expect(parseDateLink('', BASE)).toBeNull();
+    expect(parseDateLink('groceries', BASE)).toBeNull();
+    expect(parseDateLink('31/2', BASE)).toBeNull();
+  });
+});
+
+describe('isDateKey', () => {
+  it('accepts only real days in YYYY-MM-DD form', () => {
+    expect(isDateKey('2024-02-29')).toBe(true);
+    expect(isDateKey('2025-02-29')).toBe(false);
+    expect(isDateKey('2025-3-1')).toBe(false);
+  });
+});
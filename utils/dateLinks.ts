@@ -0,0 +1,193 @@
+import { addDays, format, isValid, parse, parseISO, subDays } from 'date-fns';
+import { enUS, ptBR } from 'date-fns/locale';
+import { DiaryEntry } from '../types';
+import { isDeleted } from './tombstones';
+import { formatDateForStorage } from './dateUtils';
+import { entryLabel } from './entries';
+
+// Links between days. Typing [[2025-03-14]], [[yesterday]] or [[14 de março]] in an entry turns
+// into a chip that opens that day. In the content a link is
+//   <a data-date-link="2025-03-14" contenteditable="false">14 mar 2025</a>
+// and only the date attribute counts: the label is derived from it whenever the content is
+// sanitized. Relative dates are resolved against the day of the entry they are written in.
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isDateKey = (value: string): boolean => DATE_KEY.test(value) && isValid(parseISO(value));
+
+export const dateLinkLabel = (date: string): string => format(parseISO(date), 'd MMM yyyy', { locale: ptBR });
+
+export const createDateLink = (date: string): HTMLAnchorElement => {
+  const link = document.createElement('a');
+  link.setAttribute('data-date-link', date);
+  link.setAttribute('contenteditable', 'false');
+  link.textContent = dateLinkLabel(date);
+  return link;
+};
+
+const RELATIVE_DAYS: Record<string, number> = {
+  today: 0,
+  hoje: 0,
+  yesterday: -1,
+  ontem: -1,
+  'day before yesterday': -2,
+  anteontem: -2,
+  tomorrow: 1,
+  'amanhã': 1,
+  amanha: 1,
+};
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6,
+  domingo: 0, segunda: 1, 'terça': 2, terca: 2, quarta: 3, quinta: 4, sexta: 5, 'sábado': 6, sabado: 6,
+};
+
+// Tried in order with both locales; a pattern without a year means the entry's year
+const DATE_FORMATS = [
+  'd/M/yyyy', 'd/M', 'd MMMM yyyy', 'd MMM yyyy', 'MMMM d yyyy', 'MMM d yyyy',
+  "d 'de' MMMM 'de' yyyy", "d 'de' MMMM", 'd MMMM', 'd MMM', 'MMMM d', 'MMM d',
+];
+
+// The day a link's text refers to, or null if it isn't a date
+export const parseDateLink = (text: string, base: string): string | null => {
+  const query = text.trim().toLowerCase().replace(/,/g, '').replace(/\s+/g, ' ');
+  if (!query) return null;
+  if (DATE_KEY.test(query)) return isDateKey(query) ? query : null;
+
+  const baseDate = parseISO(base);
+  if (query in RELATIVE_DAYS) return formatDateForStorage(addDays(baseDate, RELATIVE_DAYS[query]));
+
+  const ago = query.match(/^(\d+) days? ago$/) || query.match(/^há (\d+) dias?$/);
+  if (ago) return formatDateForStorage(subDays(baseDate, Number(ago[1])));
+
+  // A weekday is the last one before the entry's day ("last friday", "sexta-feira")
+  const weekday = WEEKDAYS[query.replace(/^(last|past) /, '').replace(/-feira$/, '')];
+  if (weekday !== undefined) {
+    const back = (baseDate.getDay() - weekday + 7) % 7 || 7;
+    return formatDateForStorage(subDays(baseDate, back));
+  }
+
+  for (const locale of [enUS, ptBR]) {
+    for (const pattern of DATE_FORMATS) {
+      const date = parse(query, pattern, baseDate, { locale });
+      if (isValid(date)) return formatDateForStorage(date);
+    }
+  }
+  return null;
+};
+
+export const extractDateLinks = (html: string): string[] => {
+  if (!html.includes('data-date-link')) return [];
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  const dates = Array.from(template.content.querySelectorAll('a[data-date-link]'))
+    .map((link) => link.getAttribute('data-date-link') || '')
+    .filter(isDateKey);
+  return Array.from(new Set(dates));
+};
+
+// Entries are never mutated in place, so the parsed links can be kept per entry object
+const linkCache = new WeakMap<DiaryEntry, string[]>();
+
+const getEntryLinks = (entry: DiaryEntry): string[] => {
+  let links = linkCache.get(entry);
+  if (!links) {
+    links = extractDateLinks(entry.content);
+    linkCache.set(entry, links);
+  }
+  return links;
+};
+
+// Entries that link to the day, newest first
+export const getBacklinks = (entries: Record<string, DiaryEntry>, date: string): DiaryEntry[] =>
+  (Object.values(entries) as DiaryEntry[])
+    .filter((entry) => !isDeleted(entry) && getEntryLinks(entry).includes(date))
+    .sort((a, b) => b.date.localeCompare(a.date) || (b.createdAt ?? 0) - (a.createdAt ?? 0));
+
+export interface DateSuggestion {
+  date: string;
+  hint: string;
+}
+
+// Autocomplete for a link being typed: the date the text reads as, then days with entries
+// whose date or title matches it (the entry's neighbours when nothing is typed yet)
+export const suggestDateLinks = (
+  query: string,
+  base: string,
+  entries: Record<string, DiaryEntry>,
+  limit = 6
+): DateSuggestion[] => {
+  const suggestions: DateSuggestion[] = [];
+  const add = (date: string, hint: string) => {
+    if (!suggestions.some((suggestion) => suggestion.date === date)) suggestions.push({ date, hint });
+  };
+
+  const needle = query.trim().toLowerCase();
+  const parsed = parseDateLink(needle, base);
+  if (parsed) add(parsed, needle);
+  if (!needle) {
+    add(formatDateForStorage(subDays(parseISO(base), 1)), 'Yesterday');
+    add(formatDateForStorage(addDays(parseISO(base), 1)), 'Tomorrow');
+  }
+
+  (Object.values(entries) as DiaryEntry[])
+    .filter((entry) => !isDeleted(entry) && entry.date !== base)
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .forEach((entry) => {
+      const label = entryLabel(entry, 40);
+      if (!needle || entry.date.includes(needle) || dateLinkLabel(entry.date).includes(needle) || label.toLowerCase().includes(needle)) {
+        add(entry.date, label);
+      }
+    });
+  return suggestions.slice(0, limit);
+};
+
+// --- Editor helpers ---
+
+const caretTextPosition = (): { node: Text; offset: number } | null => {
+  const selection = window.getSelection();
+  if (!selection || !selection.isCollapsed || selection.rangeCount === 0) return null;
+  const { startContainer, startOffset } = selection.getRangeAt(0);
+  if (startContainer.nodeType !== Node.TEXT_NODE) return null;
+  return { node: startContainer as Text, offset: startOffset };
+};
+
+// Replaces the `length` characters before the caret with a link to the date, followed by a space
+const replaceBeforeCaret = (node: Text, offset: number, length: number, date: string) => {
+  const selection = window.getSelection();
+  if (!selection) return;
+  const range = document.createRange();
+  range.setStart(node, offset - length);
+  range.setEnd(node, offset);
+  selection.removeAllRanges();
+  selection.addRange(range);
+  document.execCommand('insertHTML', false, `${createDateLink(date).outerHTML}&nbsp;`);
+};
+
+// The text after an unclosed [[ before the caret, while a link is being typed
+export const getOpenDateLinkQuery = (): string | null => {
+  const caret = caretTextPosition();
+  if (!caret) return null;
+  const match = (caret.node.textContent || '').slice(0, caret.offset).match(/\[\[([^[\]]*)$/);
+  return match ? match[1] : null;
+};
+
+// Replaces the [[text being typed with a link to the date
+export const insertDateLinkAtCaret = (date: string): boolean => {
+  const caret = caretTextPosition();
+  const query = getOpenDateLinkQuery();
+  if (!caret || query === null) return false;
+  replaceBeforeCaret(caret.node, caret.offset, query.length + 2, date);
+  return true;
+};
+
+// Turns a [[...]] the user just closed into a link if its text reads as a date
+export const completeDateLinkAtCaret = (base: string): boolean => {
+  const caret = caretTextPosition();
+  if (!caret) return false;
+  const match = (caret.node.textContent || '').slice(0, caret.offset).match(/\[\[([^[\]]+)\]\]$/);
+  const date = match && parseDateLink(match[1], base);
+  if (!match || !date) return false;
+  replaceBeforeCaret(caret.node, caret.offset, match[0].length, date);
+  return true;
+};
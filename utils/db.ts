@@ -0,0 +1,185 @@
+// Thin promise wrapper around IndexedDB.
+// Every object store the app uses is listed in STORES; bumping DB_VERSION
+// creates whichever stores are missing, so new stores only need to be added here.
+//
+// Each signed-in user gets a database of their own (see setDatabaseScope), so one
+// account never sees another account's cached entries on a shared browser.
+
+const DB_NAME = 'graynote';
+const DB_VERSION = 1;
+
+export const STORES = {
+  ENTRIES: 'entries',
+  OUTBOX: 'outbox',
+  CONFLICTS: 'conflicts',
+  RECOVERED_COPIES: 'recovered_copies',
+  META: 'meta',
+  REVISIONS: 'revisions',
+  ATTACHMENTS: 'attachments',
+  ATTACHMENT_QUEUE: 'attachment_queue',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Stores whose records carry their own `id` field; the rest use explicit keys
+const KEY_PATHS: Partial<Record<StoreName, string>> = {
+  [STORES.ENTRIES]: 'id',
+  [STORES.OUTBOX]: 'id',
+  [STORES.CONFLICTS]: 'id',
+  [STORES.RECOVERED_COPIES]: 'id',
+  [STORES.REVISIONS]: 'id',
+  [STORES.ATTACHMENTS]: 'id',
+  [STORES.ATTACHMENT_QUEUE]: 'id',
+};
+
+let scope: string | null = null;
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const scopedName = (userId: string) => `${DB_NAME}_${userId}`;
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const promisifyTransaction = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+};
+
+const openByName = (name: string): Promise<IDBDatabase> => {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+
+    const request = indexedDB.open(name, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.values(STORES).forEach((store) => {
+        if (!db.objectStoreNames.contains(store)) {
+          const keyPath = KEY_PATHS[store];
+          db.createObjectStore(store, keyPath ? { keyPath } : undefined);
+        }
+      });
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const deleteByName = (name: string): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(name);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Selects whose database the idb* helpers work on. Call before anything touches storage.
+export const setDatabaseScope = (userId: string | null) => {
+  if (scope === userId) return;
+
+  const previous = dbPromise;
+  scope = userId;
+  dbPromise = null;
+  previous?.then((db) => db.close()).catch(() => undefined);
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  if (!scope) return Promise.reject(new Error('No local database is open because nobody is signed in.'));
+
+  const promise: Promise<IDBDatabase> = openByName(scopedName(scope)).then((db) => {
+    // Another tab upgraded the schema: close so it is not blocked, reopen lazily
+    db.onversionchange = () => {
+      db.close();
+      if (dbPromise === promise) dbPromise = null;
+    };
+    return db;
+  });
+  dbPromise = promise;
+
+  // Allow a later retry if opening failed
+  promise.catch(() => {
+    if (dbPromise === promise) dbPromise = null;
+  });
+
+  return promise;
+};
+
+// Reads a whole store of another user's database without switching scope (e.g. the guest
+// diary while attaching it to an account)
+export const readScopedStore = async <T>(userId: string, store: StoreName): Promise<T[]> => {
+  const db = await openByName(scopedName(userId));
+  try {
+    return await promisifyRequest(db.transaction(store, 'readonly').objectStore(store).getAll());
+  } finally {
+    db.close();
+  }
+};
+
+// Removes a user's local database entirely (sign-out with "clear local data")
+export const deleteScopedDatabase = async (userId: string) => {
+  if (scope === userId) setDatabaseScope(null);
+  await deleteByName(scopedName(userId));
+};
+
+export const idbGet = async <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisifyRequest(db.transaction(store, 'readonly').objectStore(store).get(key));
+};
+
+export const idbGetAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisifyRequest(db.transaction(store, 'readonly').objectStore(store).getAll());
+};
+
+export const idbPut = async <T>(store: StoreName, value: T, key?: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).put(value, key);
+  return promisifyTransaction(tx);
+};
+
+// Writes all values in a single transaction: either every record lands or none does
+export const idbPutMany = async <T>(store: StoreName, values: T[]): Promise<void> => {
+  if (values.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  values.forEach((value) => objectStore.put(value));
+  return promisifyTransaction(tx);
+};
+
+export const idbDelete = async (store: StoreName, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).delete(key);
+  return promisifyTransaction(tx);
+};
+
+export const idbClear = async (store: StoreName): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).clear();
+  return promisifyTransaction(tx);
+};
+
+export const isQuotaExceededError = (error: unknown): boolean => {
+  if (!(error instanceof DOMException)) return false;
+  // Firefox reports NS_ERROR_DOM_QUOTA_REACHED, older Safari uses code 22
+  return (
+    error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    error.code === 22
+  );
+};
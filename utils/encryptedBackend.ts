@@ -0,0 +1,103 @@
+import { DiaryEntry, EntryRevision } from '../types';
+import { SyncBackend, RemoteChange } from './syncBackend';
+import { encryptText, decryptText, encryptBlob, decryptBlob, isEncrypted } from './encryption';
+
+// Wraps a SyncBackend so entry content, titles and tags, synced revisions and attachment files
+// are encrypted on the way out and decrypted on the way in. Everything else in the app,
+// IndexedDB included, keeps working with plain text. Passes data through while encryption is off.
+
+// Tags are sealed together as a single element, so the server does not learn how many there are.
+// The mood, the attachment list (file names) and the checked habits travel inside the same element.
+const encryptEntry = async (entry: DiaryEntry): Promise<DiaryEntry> => {
+  const content = await encryptText(entry.content);
+  if (!isEncrypted(content)) return entry;
+  const sealed = entry.mood || entry.attachments?.length || entry.habits?.length
+    ? { tags: entry.tags, mood: entry.mood, attachments: entry.attachments, habits: entry.habits }
+    : entry.tags;
+  return {
+    ...entry,
+    content,
+    title: entry.title ? await encryptText(entry.title) : entry.title,
+    tags: [await encryptText(JSON.stringify(sealed))],
+    mood: null,
+    attachments: undefined,
+    habits: undefined,
+  };
+};
+
+const decryptEntry = async (entry: DiaryEntry): Promise<DiaryEntry> => {
+  const content = await decryptText(entry.content);
+  const title = entry.title ? await decryptText(entry.title) : entry.title;
+  const [sealedTags] = entry.tags;
+  // Sealed before moods existed: just the tag list
+  const sealed = entry.tags.length === 1 && isEncrypted(sealedTags) ? JSON.parse(await decryptText(sealedTags)) : null;
+  const tags = sealed ? (Array.isArray(sealed) ? sealed : sealed.tags) : entry.tags;
+  const mood = sealed && !Array.isArray(sealed) ? sealed.mood : entry.mood;
+  const attachments = sealed && !Array.isArray(sealed) ? sealed.attachments : entry.attachments;
+  const habits = sealed && !Array.isArray(sealed) ? sealed.habits : entry.habits;
+  // baseContent is the server's copy, so it must be plain text too
+  return {
+    ...entry,
+    content,
+    title,
+    tags,
+    mood,
+    attachments,
+    habits,
+    baseContent: entry.baseContent === undefined ? undefined : content,
+  };
+};
+
+const encryptRevision = async (revision: EntryRevision): Promise<EntryRevision> => ({
+  ...revision,
+  content: await encryptText(revision.content),
+});
+
+const decryptRevision = async (revision: EntryRevision): Promise<EntryRevision> => ({
+  ...revision,
+  content: await decryptText(revision.content),
+});
+
+export const withEncryption = (backend: SyncBackend): SyncBackend => ({
+  ...backend,
+
+  list: async (userId) => Promise.all((await backend.list(userId)).map(decryptEntry)),
+
+  changesSince: async (userId, cursor, limit) => {
+    const page = await backend.changesSince(userId, cursor, limit);
+    return { ...page, entries: await Promise.all(page.entries.map(decryptEntry)) };
+  },
+
+  upsert: async (userId, entry) => {
+    const result = await backend.upsert(userId, await encryptEntry(entry));
+    return result.status === 'conflict' ? { ...result, remote: await decryptEntry(result.remote) } : result;
+  },
+
+  // Changes that cannot be decrypted yet (device locked) are dropped; they are
+  // fetched again by the pull that follows unlocking
+  changes: (userId) => ({
+    subscribe: (onChange, onResync) =>
+      backend.changes(userId).subscribe((change: RemoteChange) => {
+        if (change.type !== 'upsert') {
+          onChange(change);
+          return;
+        }
+        decryptEntry(change.entry)
+          .then((entry) => onChange({ ...change, entry }))
+          .catch((err) => console.error('Could not decrypt a remote change:', err?.message || err));
+      }, onResync),
+  }),
+
+  listRevisions: async (userId, entryId) =>
+    Promise.all((await backend.listRevisions(userId, entryId)).map(decryptRevision)),
+
+  upsertRevisions: async (userId, revisions) =>
+    backend.upsertRevisions(userId, await Promise.all(revisions.map(encryptRevision))),
+
+  uploadAttachment: async (userId, id, file) => backend.uploadAttachment(userId, id, await encryptBlob(file)),
+
+  downloadAttachment: async (userId, id) => {
+    const file = await backend.downloadAttachment(userId, id);
+    return file && decryptBlob(file);
+  },
+});
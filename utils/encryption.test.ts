@@ -0,0 +1,102 @@
+// @vitest-environment happy-dom
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { KeyInfo } from './syncBackend';
+
+const server = vi.hoisted(() => ({ keyInfo: null as KeyInfo | null, offline: false }));
+
+vi.mock('./backends', () => ({
+  getSyncBackend: () => ({
+    loadKeyInfo: async () => {
+      if (server.offline) throw new Error('Failed to fetch');
+      return server.keyInfo;
+    },
+    saveKeyInfo: async (_userId: string, info: KeyInfo | null) => {
+      server.keyInfo = info;
+    },
+  }),
+}));
+
+const { setDatabaseScope } = await import('./db');
+const {
+  setEncryptionScope,
+  whenEncryptionLoaded,
+  setEncryptionPassphrase,
+  lockEncryption,
+  unlockEncryption,
+  encryptText,
+  decryptText,
+  encryptBlob,
+  decryptBlob,
+  isEncrypted,
+  EncryptionLockedError,
+  EncryptionUnknownError,
+  WrongPassphraseError,
+} = await import('./encryption');
+
+beforeAll(async () => {
+  setDatabaseScope('user-1');
+  setEncryptionScope('user-1');
+  await whenEncryptionLoaded();
+});
+
+describe('encryption', () => {
+  it('passes text through while encryption is off', async () => {
+    expect(await encryptText('plain')).toBe('plain');
+    expect(await decryptText('plain')).toBe('plain');
+  });
+
+  it('round-trips text and files with the passphrase key', async () => {
+    await setEncryptionPassphrase('correct horse');
+    expect(server.keyInfo).not.toBeNull();
+
+    const sealed = await encryptText('Dear diary — olá');
+    expect(isEncrypted(sealed)).toBe(true);
+    expect(sealed).not.toContain('diary');
+    expect(await decryptText(sealed)).toBe('Dear diary — olá');
+    // A fresh IV every time
+    expect(await encryptText('Dear diary — olá')).not.toBe(sealed);
+
+    const bytes = new Uint8Array([0, 1, 2, 250, 255]);
+    const file = await encryptBlob(new Blob([bytes]));
+    const opened = new Uint8Array(await (await decryptBlob(file)).arrayBuffer());
+    expect(Array.from(opened)).toEqual(Array.from(bytes));
+  });
+
+  it('round-trips entries too large to encode in one go', async () => {
+    const long = `<div>${'Dear diary. '.repeat(20_000)}</div>`;
+    expect(long.length).toBeGreaterThan(200 * 1024);
+    expect(await decryptText(await encryptText(long))).toBe(long);
+  });
+
+  it('needs the right passphrase again once locked', async () => {
+    const sealed = await encryptText('secret');
+    await lockEncryption();
+
+    await expect(encryptText('more')).rejects.toBeInstanceOf(EncryptionLockedError);
+    await expect(decryptText(sealed)).rejects.toBeInstanceOf(EncryptionLockedError);
+    await expect(unlockEncryption('wrong horse')).rejects.toBeInstanceOf(WrongPassphraseError);
+
+    await unlockEncryption('correct horse');
+    expect(await decryptText(sealed)).toBe('secret');
+  });
+
+  it('cannot open data sealed with a replaced key', async () => {
+    const sealed = await encryptText('old key');
+    await setEncryptionPassphrase('new passphrase');
+    await expect(decryptText(sealed)).rejects.toBeInstanceOf(EncryptionLockedError);
+  });
+
+  it('uploads nothing until the server says whether encryption is on', async () => {
+    server.offline = true;
+    setDatabaseScope('user-2');
+    setEncryptionScope('user-2');
+    await whenEncryptionLoaded();
+    await expect(encryptText('plain')).rejects.toBeInstanceOf(EncryptionUnknownError);
+    await expect(encryptBlob(new Blob(['plain']))).rejects.toBeInstanceOf(EncryptionUnknownError);
+
+    // Back online, the key set on another device is found instead
+    server.offline = false;
+    await expect(encryptText('plain')).rejects.toBeInstanceOf(EncryptionLockedError);
+  });
+});
@@ -0,0 +1,301 @@
+import { STORES, idbGet, idbPut, idbDelete } from './db';
+import { getSyncBackend } from './backends';
+import { KeyInfo } from './syncBackend';
+
+// Optional end-to-end encryption of entry content and tags.
+// The key is derived from a passphrase with PBKDF2 and never leaves the device; the server
+// only stores the salt and a verifier (see KeyInfo), so it cannot read the diary.
+// Entry ids and dates stay in the clear because sync is keyed on them.
+// Lose the passphrase and the encrypted data is gone: there is no recovery.
+
+const ENVELOPE_PREFIX = 'enc:v1:';
+const PBKDF2_ITERATIONS = 310_000;
+const VERIFIER_TEXT = 'graynote-key-check';
+
+const KEY_INFO_KEY = 'encryptionKeyInfo';
+const STORED_KEY_KEY = 'encryptionKey';
+
+export interface EncryptionState {
+  enabled: boolean;
+  unlocked: boolean;
+}
+
+interface ActiveKey {
+  keyId: string;
+  key: CryptoKey; // Non-extractable, so it can be kept in IndexedDB without exposing the raw key
+}
+
+// Sync is paused while the diary is encrypted and this device has not been unlocked
+export class EncryptionLockedError extends Error {
+  constructor() {
+    super('Your diary is encrypted. Enter your passphrase on this device to sync.');
+    this.name = 'EncryptionLockedError';
+  }
+}
+
+// The server could not be asked whether encryption is on, so nothing is uploaded in plain text yet
+export class EncryptionUnknownError extends Error {
+  constructor() {
+    super('Could not check whether your diary is encrypted. Sync will try again.');
+    this.name = 'EncryptionUnknownError';
+  }
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('That passphrase is not correct.');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+let scopeUserId: string | null = null;
+let keyInfo: KeyInfo | null = null;
+let keyStateConfirmed = false; // The server said which key is current (or that there is none)
+let activeKey: ActiveKey | null = null;
+let loaded: Promise<void> = Promise.resolve();
+const listeners = new Set<(state: EncryptionState) => void>();
+
+export const getEncryptionState = (): EncryptionState => ({
+  enabled: !!keyInfo,
+  unlocked: !keyInfo || (!!activeKey && activeKey.keyId === keyInfo.keyId),
+});
+
+const notify = () => {
+  const state = getEncryptionState();
+  listeners.forEach((listener) => listener(state));
+};
+
+export const subscribeEncryption = (listener: (state: EncryptionState) => void) => {
+  listeners.add(listener);
+  listener(getEncryptionState());
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// --- Primitives ---
+
+// Spreading a whole entry into fromCharCode overflows the call stack, so bytes go in slices
+const BASE64_CHUNK_BYTES = 0x8000;
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK_BYTES) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK_BYTES));
+  }
+  return btoa(binary);
+};
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const seal = async (key: ActiveKey, plaintext: string) => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key.key, new TextEncoder().encode(plaintext));
+  return `${ENVELOPE_PREFIX}${key.keyId}:${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+};
+
+const open = async (key: ActiveKey, envelope: string) => {
+  const [keyId, iv, ciphertext] = envelope.slice(ENVELOPE_PREFIX.length).split(':');
+  if (keyId !== key.keyId) throw new EncryptionLockedError();
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key.key, fromBase64(ciphertext));
+  return new TextDecoder().decode(plaintext);
+};
+
+export const isEncrypted = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith(ENVELOPE_PREFIX);
+
+// --- Used by the encrypted backend (utils/encryptedBackend.ts) ---
+
+// Only a key this device knows about, or the server's word that there is none, lets data go up.
+// Asks the server again when it could not be reached before.
+const loadKeyInfoForUpload = async () => {
+  await loaded;
+  if (!keyInfo && !keyStateConfirmed) await refreshEncryption();
+  if (!keyInfo && !keyStateConfirmed) throw new EncryptionUnknownError();
+  return keyInfo;
+};
+
+// Plain text when encryption is off; throws EncryptionLockedError while locked
+export const encryptText = async (plaintext: string): Promise<string> => {
+  if (!(await loadKeyInfoForUpload())) return plaintext;
+  const state = getEncryptionState();
+  if (!state.unlocked || !activeKey) throw new EncryptionLockedError();
+  return seal(activeKey, plaintext);
+};
+
+// Values written before encryption was turned on are passed through as they are
+export const decryptText = async (value: string): Promise<string> => {
+  if (!isEncrypted(value)) return value;
+  await loaded;
+  if (!activeKey) throw new EncryptionLockedError();
+  return open(activeKey, value);
+};
+
+// Attachment files are binary: the same envelope header, then the IV and ciphertext as raw bytes
+export const encryptBlob = async (blob: Blob): Promise<Blob> => {
+  if (!(await loadKeyInfoForUpload())) return blob;
+  const state = getEncryptionState();
+  if (!state.unlocked || !activeKey) throw new EncryptionLockedError();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, activeKey.key, await blob.arrayBuffer());
+  return new Blob([`${ENVELOPE_PREFIX}${activeKey.keyId}:`, iv, ciphertext], { type: 'application/octet-stream' });
+};
+
+// Files uploaded before encryption was turned on are passed through as they are
+export const decryptBlob = async (blob: Blob): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  // The header is ASCII, so character and byte offsets match up to its end
+  const head = new TextDecoder().decode(bytes.subarray(0, 128));
+  if (!isEncrypted(head)) return blob;
+  await loaded;
+  if (!activeKey) throw new EncryptionLockedError();
+
+  const headerEnd = head.indexOf(':', ENVELOPE_PREFIX.length) + 1;
+  if (head.slice(ENVELOPE_PREFIX.length, headerEnd - 1) !== activeKey.keyId) throw new EncryptionLockedError();
+  const iv = bytes.subarray(headerEnd, headerEnd + 12);
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, activeKey.key, bytes.subarray(headerEnd + 12));
+  return new Blob([plaintext]);
+};
+
+// --- Key lifecycle ---
+
+const persistKeyInfo = async (info: KeyInfo | null) => {
+  keyInfo = info;
+  if (info) await idbPut(STORES.META, info, KEY_INFO_KEY);
+  else await idbDelete(STORES.META, KEY_INFO_KEY);
+};
+
+const persistActiveKey = async (key: ActiveKey | null) => {
+  activeKey = key;
+  if (key) await idbPut(STORES.META, key, STORED_KEY_KEY);
+  else await idbDelete(STORES.META, STORED_KEY_KEY);
+};
+
+const createKey = async (passphrase: string) => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key: ActiveKey = {
+    keyId: crypto.randomUUID(),
+    key: await deriveKey(passphrase, salt, PBKDF2_ITERATIONS),
+  };
+  const info: KeyInfo = {
+    keyId: key.keyId,
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    verifier: await seal(key, VERIFIER_TEXT),
+  };
+  return { key, info };
+};
+
+// Loads what this device knows (works offline), then asks the server for the current key,
+// so a passphrase set or changed on another device is noticed
+const loadKeys = async (userId: string) => {
+  let storedInfo: KeyInfo | null = null;
+  let storedKey: ActiveKey | null = null;
+  try {
+    storedInfo = (await idbGet<KeyInfo>(STORES.META, KEY_INFO_KEY)) ?? null;
+    storedKey = (await idbGet<ActiveKey>(STORES.META, STORED_KEY_KEY)) ?? null;
+  } catch (err) {
+    console.error('Failed to load encryption key', err);
+  }
+  // Another user signed in meanwhile
+  if (scopeUserId !== userId) return;
+  keyInfo = storedInfo;
+  activeKey = storedKey;
+
+  try {
+    const remote = await getSyncBackend().loadKeyInfo(userId);
+    if (scopeUserId === userId && remote?.keyId !== keyInfo?.keyId) {
+      await persistKeyInfo(remote);
+      // The passphrase changed (or encryption was turned off) on another device
+      if (activeKey && activeKey.keyId !== remote?.keyId) await persistActiveKey(null);
+    }
+    if (scopeUserId === userId) keyStateConfirmed = true;
+  } catch (err: any) {
+    console.error('Failed to check encryption settings:', err?.message || err);
+  }
+  notify();
+};
+
+// Follows the signed-in user (see setStorageScope). Uploads and downloads wait for the
+// user's keys to load, and uploads fail until the server confirmed that encryption is off,
+// so nothing is sent in plain text before we know.
+export const setEncryptionScope = (nextUserId: string | null) => {
+  // Auth events repeat for the same user (e.g. token refresh)
+  if (nextUserId === scopeUserId) return;
+  scopeUserId = nextUserId;
+  keyInfo = null;
+  keyStateConfirmed = false;
+  activeKey = null;
+  loaded = nextUserId ? loadKeys(nextUserId) : Promise.resolve();
+  notify();
+};
+
+// Checks the server again, e.g. before retrying a sync
+export const refreshEncryption = () => {
+  if (scopeUserId) loaded = loaded.then(() => loadKeys(scopeUserId as string));
+  return loaded;
+};
+
+export const whenEncryptionLoaded = () => loaded;
+
+// Derives the key for `passphrase` and checks it against the verifier; null if it is wrong
+const keyFor = async (passphrase: string): Promise<ActiveKey | null> => {
+  if (!keyInfo) return null;
+  const key: ActiveKey = {
+    keyId: keyInfo.keyId,
+    key: await deriveKey(passphrase, fromBase64(keyInfo.salt), keyInfo.iterations),
+  };
+  try {
+    return (await open(key, keyInfo.verifier)) === VERIFIER_TEXT ? key : null;
+  } catch (err) {
+    return null; // AES-GCM rejects a wrong key
+  }
+};
+
+export const unlockEncryption = async (passphrase: string) => {
+  if (!keyInfo) return;
+  const key = await keyFor(passphrase);
+  if (!key) throw new WrongPassphraseError();
+  await persistActiveKey(key);
+  notify();
+};
+
+// Forgets the key on this device; the passphrase is needed again to sync
+export const lockEncryption = async () => {
+  await persistActiveKey(null);
+  notify();
+};
+
+// Turns encryption on, or replaces the passphrase. Callers re-upload every entry afterwards
+// (see requeueAllEntries) so the server copy ends up encrypted with the new key.
+export const setEncryptionPassphrase = async (passphrase: string) => {
+  if (!scopeUserId) return;
+  const { key, info } = await createKey(passphrase);
+  await getSyncBackend().saveKeyInfo(scopeUserId, info);
+  keyStateConfirmed = true;
+  await persistKeyInfo(info);
+  await persistActiveKey(key);
+  notify();
+};
+
+// Turns encryption off. Callers re-upload every entry afterwards so the server copy is readable again.
+export const disableEncryption = async () => {
+  if (!scopeUserId) return;
+  await getSyncBackend().saveKeyInfo(scopeUserId, null);
+  keyStateConfirmed = true;
+  await persistKeyInfo(null);
+  await persistActiveKey(null);
+  notify();
+};
+
+export const verifyPassphrase = async (passphrase: string) => !keyInfo || !!(await keyFor(passphrase));
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { DiaryEntry } from '../types';
+import { countEntriesByDay, entryLabel, getDayEntries } from './entries';
+
+const entry = (fields: Partial<DiaryEntry> & { id: string }): DiaryEntry => ({
+  date: '2025-03-14',
+  content: '',
+  tags: [],
+  updatedAt: 1,
+  ...fields,
+});
+
+describe('entries of a day', () => {
+  const entries = Object.fromEntries(
+    [
+      entry({ id: 'later', createdAt: 200 }),
+      entry({ id: 'earlier', createdAt: 100 }),
+      // Written while a day held one entry: keyed by the day, no createdAt
+      entry({ id: '2025-03-14' }),
+      entry({ id: 'deleted', createdAt: 50, deletedAt: 300 }),
+      entry({ id: 'next-day', date: '2025-03-15', createdAt: 10 }),
+    ].map((e) => [e.id, e])
+  );
+
+  it('lists the live entries oldest first, the day-keyed one before the rest', () => {
+    expect(getDayEntries(entries, '2025-03-14').map((e) => e.id)).toEqual(['2025-03-14', 'earlier', 'later']);
+  });
+
+  it('counts live entries per day', () => {
+    expect(countEntriesByDay(entries)).toEqual({ '2025-03-14': 3, '2025-03-15': 1 });
+  });
+});
+
+describe('entryLabel', () => {
+  it('prefers the title', () => {
+    expect(entryLabel(entry({ id: 'a', title: 'Trip', content: '<div>text</div>' }))).toBe('Trip');
+  });
+
+  it('falls back to the first words of the text', () => {
+    expect(entryLabel(entry({ id: 'a', content: '<div>Rainy&nbsp;day</div><div>at   home</div>' }))).toBe('Rainy day at home');
+    expect(entryLabel(entry({ id: 'a', content: '<div>abcdefghij</div>' }), 4)).toBe('abcd…');
+  });
+});
@@ -0,0 +1,30 @@
+import { DiaryEntry } from '../types';
+import { isDeleted } from './tombstones';
+
+// A day can hold several entries. New entries get random ids; entries written while a day
+// held a single entry keep the day key as their id, so existing data (local and synced)
+// stays valid without being rewritten. Those have no createdAt and come first in their day.
+
+export const newEntryId = (): string => crypto.randomUUID();
+
+// The day's live entries, oldest first
+export const getDayEntries = (entries: Record<string, DiaryEntry>, date: string): DiaryEntry[] =>
+  Object.values(entries)
+    .filter((entry) => entry.date === date && !isDeleted(entry))
+    .sort((a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0) || a.id.localeCompare(b.id));
+
+// Live entries per day key, for the calendar
+export const countEntriesByDay = (entries: Record<string, DiaryEntry>): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  Object.values(entries).forEach((entry) => {
+    if (!isDeleted(entry)) counts[entry.date] = (counts[entry.date] || 0) + 1;
+  });
+  return counts;
+};
+
+// Title, or the first words of the content for untitled entries
+export const entryLabel = (entry: DiaryEntry, maxLength = 60): string => {
+  if (entry.title) return entry.title;
+  const text = entry.content.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+};
@@ -0,0 +1,45 @@
+// @vitest-environment happy-dom
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import { DiaryEntry } from '../types';
+
+vi.mock('./supabaseClient', () => ({ supabase: {}, isSupabaseConfigured: () => false }));
+// The in-browser local backend plays the server
+vi.stubEnv('VITE_SYNC_BACKEND', 'local');
+
+const { GUEST_SCOPE, setStorageScope, loadEntries, loadConflicts } = await import('./storage');
+const { STORES, readScopedStore } = await import('./db');
+const { saveLocalChange, getPendingIds, flushOutbox, startOutbox } = await import('./outbox');
+const { getSyncBackend } = await import('./backends');
+const { attachGuestDiary, getGuestMode, setGuestMode } = await import('./guest');
+
+const entry = (id: string, content: string): DiaryEntry => ({ id, date: id, content, tags: [], updatedAt: 1 });
+
+describe('guest diary', () => {
+  it('stays on this device and is imported into the account it is attached to', async () => {
+    setGuestMode('active');
+    setStorageScope(GUEST_SCOPE);
+    await saveLocalChange(entry('2025-03-14', '<div>guest only</div>'));
+    await saveLocalChange(entry('2025-03-15', '<div>guest version</div>'));
+    expect(await getPendingIds()).toEqual(new Set());
+
+    setGuestMode('attaching');
+    setStorageScope('user-1');
+    await getSyncBackend().upsert('user-1', entry('2025-03-15', '<div>account version</div>'));
+    const stop = startOutbox();
+
+    expect(await attachGuestDiary()).toEqual({ added: 1, conflicts: 1 });
+    await flushOutbox();
+    stop();
+
+    const local = await loadEntries();
+    expect(local['2025-03-14'].content).toBe('<div>guest only</div>');
+    const conflict = (await loadConflicts()).find((c) => c.id === '2025-03-15');
+    expect(conflict?.local.content).toBe('<div>guest version</div>');
+    expect(conflict?.remote.content).toBe('<div>account version</div>');
+
+    expect((await getSyncBackend().list('user-1')).map((e) => e.id).sort()).toEqual(['2025-03-14', '2025-03-15']);
+    expect(await readScopedStore(GUEST_SCOPE, STORES.ENTRIES)).toEqual([]);
+    expect(getGuestMode()).toBeNull();
+  });
+});
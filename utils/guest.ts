@@ -0,0 +1,53 @@
+import { DiaryEntry, EntryRevision } from '../types';
+import { STORES, readScopedStore } from './db';
+import { GUEST_SCOPE, clearLocalData, pullRemoteChanges, saveRevisions } from './storage';
+import { importEntries, getPendingIds } from './outbox';
+import { sanitizeEntry } from './sanitize';
+import { StoredFile, importAttachmentFiles } from './attachments';
+
+// Using GrayNote without an account.
+// The guest diary lives in its own local partition (GUEST_SCOPE) and never syncs.
+// Signing in later "attaches" it: its entries are imported into the account and the
+// guest partition is removed.
+
+const GUEST_MODE_KEY = 'graynote_guest_mode';
+
+// 'active': the app runs as guest. 'attaching': the guest is on the sign-in screen and
+// their diary should be imported into whichever account they sign in to.
+export type GuestMode = 'active' | 'attaching';
+
+export const getGuestMode = (): GuestMode | null => {
+  const mode = localStorage.getItem(GUEST_MODE_KEY);
+  return mode === 'active' || mode === 'attaching' ? mode : null;
+};
+
+export const setGuestMode = (mode: GuestMode | null) => {
+  if (mode) localStorage.setItem(GUEST_MODE_KEY, mode);
+  else localStorage.removeItem(GUEST_MODE_KEY);
+};
+
+export interface AttachResult {
+  added: number;
+  conflicts: number;
+}
+
+// Imports the guest diary into the signed-in account (whose scope must be active).
+// The account's entries are fetched first so differences show up as conflicts here rather
+// than as failed uploads later. The guest data is only removed once the import succeeded.
+export const attachGuestDiary = async (): Promise<AttachResult> => {
+  const [entries, revisions, files] = await Promise.all([
+    readScopedStore<DiaryEntry>(GUEST_SCOPE, STORES.ENTRIES),
+    readScopedStore<EntryRevision>(GUEST_SCOPE, STORES.REVISIONS),
+    readScopedStore<StoredFile>(GUEST_SCOPE, STORES.ATTACHMENTS),
+  ]);
+
+  await pullRemoteChanges(await getPendingIds());
+  // Files before entries, so the entries' upload finds them queued
+  await importAttachmentFiles(files);
+  const result = await importEntries(entries.map(sanitizeEntry));
+  if (revisions.length > 0) await saveRevisions(revisions);
+
+  await clearLocalData(GUEST_SCOPE);
+  setGuestMode(null);
+  return result;
+};
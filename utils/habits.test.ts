@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { DiaryEntry } from '../types';
+import { getCompletionRate, getDayHabits, getHabitStats, sameHabits } from './habits';
+
+const entry = (date: string, habits: string[], changes: Partial<DiaryEntry> = {}): DiaryEntry => ({
+  id: `${date}:${habits.join(',')}`,
+  date,
+  content: '',
+  tags: [],
+  habits,
+  updatedAt: 1,
+  ...changes,
+});
+
+const daysOf = (entries: DiaryEntry[]) => getDayHabits(Object.fromEntries(entries.map((e) => [e.id, e])));
+
+const TODAY = new Date(2025, 2, 14);
+
+describe('getDayHabits', () => {
+  it('combines the entries of a day and skips deleted ones', () => {
+    const days = daysOf([
+      entry('2025-03-14', ['run']),
+      entry('2025-03-14', ['read']),
+      entry('2025-03-13', ['run'], { deletedAt: 5 }),
+    ]);
+    expect(Array.from(days['2025-03-14']).sort()).toEqual(['read', 'run']);
+    expect(days['2025-03-13']).toBeUndefined();
+  });
+});
+
+describe('getHabitStats', () => {
+  it('counts the streak up to today', () => {
+    const days = daysOf(['2025-03-12', '2025-03-13', '2025-03-14'].map((date) => entry(date, ['run'])));
+    expect(getHabitStats(days, 'run', TODAY)).toEqual({ currentStreak: 3, bestStreak: 3 });
+  });
+
+  it('keeps the streak alive while today is not checked yet', () => {
+    const days = daysOf(['2025-03-12', '2025-03-13'].map((date) => entry(date, ['run'])));
+    expect(getHabitStats(days, 'run', TODAY).currentStreak).toBe(2);
+  });
+
+  it('breaks the streak on a missed day and remembers the best one', () => {
+    const days = daysOf(
+      ['2025-02-27', '2025-02-28', '2025-03-01', '2025-03-02', '2025-03-10', '2025-03-12'].map((date) => entry(date, ['run']))
+    );
+    expect(getHabitStats(days, 'run', TODAY)).toEqual({ currentStreak: 0, bestStreak: 4 });
+  });
+
+  it('only counts the given habit', () => {
+    const days = daysOf([entry('2025-03-14', ['read'])]);
+    expect(getHabitStats(days, 'run', TODAY)).toEqual({ currentStreak: 0, bestStreak: 0 });
+  });
+});
+
+describe('getCompletionRate', () => {
+  it('divides by the days of the month so far', () => {
+    const days = daysOf(['2025-03-01', '2025-03-07', '2025-03-14'].map((date) => entry(date, ['run'])));
+    expect(getCompletionRate(days, 'run', new Date(2025, 2, 1), TODAY)).toBeCloseTo(3 / 14);
+  });
+
+  it('uses the whole of a past month and nothing for a future one', () => {
+    const days = daysOf([entry('2025-02-10', ['run'])]);
+    expect(getCompletionRate(days, 'run', new Date(2025, 1, 1), TODAY)).toBeCloseTo(1 / 28);
+    expect(getCompletionRate(days, 'run', new Date(2025, 3, 1), TODAY)).toBeNull();
+  });
+});
+
+describe('sameHabits', () => {
+  it('ignores order and treats missing as empty', () => {
+    expect(sameHabits(['a', 'b'], ['b', 'a'])).toBe(true);
+    expect(sameHabits(undefined, [])).toBe(true);
+    expect(sameHabits(['a'], ['a', 'b'])).toBe(false);
+  });
+});
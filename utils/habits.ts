@@ -0,0 +1,75 @@
+import { addDays, differenceInCalendarDays, eachDayOfInterval, endOfMonth, isAfter, parseISO, startOfMonth } from 'date-fns';
+import { DiaryEntry, Habit } from '../types';
+import { isDeleted } from './tombstones';
+import { formatDateForStorage } from './dateUtils';
+
+// Habits are defined in the synced settings and checked off per day: an entry lists the ids
+// of the habits done in it, and a day counts a habit as done when any of its entries has it.
+// Ids of habits that were removed stay on old entries and are ignored.
+
+export const HABIT_COLORS = ['#1ABC9C', '#3498DB', '#9B59B6', '#E67E22', '#E74C3C', '#F1C40F', '#EC4899', '#34495E'];
+
+export const createHabit = (name: string, existing: Habit[]): Habit => ({
+  id: crypto.randomUUID(),
+  name,
+  color: HABIT_COLORS[existing.length % HABIT_COLORS.length],
+});
+
+export const sameHabits = (a: string[] | undefined, b: string[] | undefined): boolean => {
+  const left = [...(a ?? [])].sort();
+  const right = [...(b ?? [])].sort();
+  return left.length === right.length && left.every((id, i) => id === right[i]);
+};
+
+// Habits done per day key, over the day's live entries
+export const getDayHabits = (entries: Record<string, DiaryEntry>): Record<string, Set<string>> => {
+  const days: Record<string, Set<string>> = {};
+  (Object.values(entries) as DiaryEntry[]).forEach((entry) => {
+    if (isDeleted(entry) || !entry.habits?.length) return;
+    const day = (days[entry.date] = days[entry.date] || new Set());
+    entry.habits.forEach((id) => day.add(id));
+  });
+  return days;
+};
+
+const isDone = (days: Record<string, Set<string>>, date: string, habitId: string) => !!days[date]?.has(habitId);
+
+export interface HabitStats {
+  currentStreak: number;
+  bestStreak: number;
+}
+
+// The current streak runs up to today, or up to yesterday while today is not checked yet
+export const getHabitStats = (days: Record<string, Set<string>>, habitId: string, today = new Date()): HabitStats => {
+  let cursor = today;
+  if (!isDone(days, formatDateForStorage(cursor), habitId)) cursor = addDays(cursor, -1);
+  let currentStreak = 0;
+  while (isDone(days, formatDateForStorage(cursor), habitId)) {
+    currentStreak++;
+    cursor = addDays(cursor, -1);
+  }
+
+  const doneDates = Object.keys(days).filter((date) => days[date].has(habitId)).sort();
+  let bestStreak = 0;
+  let run = 0;
+  doneDates.forEach((date, i) => {
+    run = i > 0 && differenceInCalendarDays(parseISO(date), parseISO(doneDates[i - 1])) === 1 ? run + 1 : 1;
+    bestStreak = Math.max(bestStreak, run);
+  });
+  return { currentStreak, bestStreak };
+};
+
+// Share of the month's days (up to today) the habit was done, or null for a future month
+export const getCompletionRate = (
+  days: Record<string, Set<string>>,
+  habitId: string,
+  month: Date,
+  today = new Date()
+): number | null => {
+  const start = startOfMonth(month);
+  if (isAfter(start, today)) return null;
+  const end = isAfter(endOfMonth(month), today) ? today : endOfMonth(month);
+  const elapsed = eachDayOfInterval({ start, end });
+  const done = elapsed.filter((date) => isDone(days, formatDateForStorage(date), habitId)).length;
+  return done / elapsed.length;
+};
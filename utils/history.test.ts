@@ -0,0 +1,82 @@
+// @vitest-environment happy-dom
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DiaryEntry } from '../types';
+
+vi.mock('./supabaseClient', () => ({ supabase: {}, isSupabaseConfigured: () => false }));
+
+const { setStorageScope, clearLocalData, loadRevisions } = await import('./storage');
+const { recordRevision, loadHistory, loadDeletedHistory, diffText, htmlToText, REVISION_INTERVAL_MS, MAX_REVISIONS_PER_ENTRY } =
+  await import('./history');
+
+const version = (content: string, updatedAt: number): DiaryEntry => ({
+  id: '2025-03-14',
+  date: '2025-03-14',
+  content,
+  tags: [],
+  updatedAt,
+});
+
+beforeEach(async () => {
+  localStorage.clear();
+  await clearLocalData('user-1');
+  setStorageScope('user-1');
+});
+
+describe('recordRevision', () => {
+  it('spaces snapshots out unless forced', async () => {
+    expect(await recordRevision(version('<div>one</div>', 1000))).not.toBeNull();
+    expect(await recordRevision(version('<div>two</div>', 2000))).toBeNull();
+    expect(await recordRevision(version('<div>two</div>', 3000), { force: true })).not.toBeNull();
+    expect(await recordRevision(version('<div>three</div>', 3000 + REVISION_INTERVAL_MS))).not.toBeNull();
+
+    const contents = (await loadRevisions('2025-03-14')).map((r) => r.content);
+    expect(contents).toEqual(['<div>three</div>', '<div>two</div>', '<div>one</div>']);
+  });
+
+  it('skips empty, deleted and unchanged versions', async () => {
+    expect(await recordRevision(undefined)).toBeNull();
+    expect(await recordRevision(version('', 1000))).toBeNull();
+    expect(await recordRevision({ ...version('<div>gone</div>', 1000), deletedAt: 1000 })).toBeNull();
+
+    await recordRevision(version('<div>same</div>', 1000));
+    expect(await recordRevision(version('<div>same</div>', 1000 + REVISION_INTERVAL_MS), { force: true })).toBeNull();
+  });
+
+  it('keeps only the newest snapshots', async () => {
+    for (let i = 0; i <= MAX_REVISIONS_PER_ENTRY; i++) {
+      await recordRevision(version(`<div>${i}</div>`, i), { force: true });
+    }
+    const revisions = await loadHistory('2025-03-14', false);
+    expect(revisions).toHaveLength(MAX_REVISIONS_PER_ENTRY);
+    expect(revisions[revisions.length - 1].content).toBe('<div>1</div>');
+  });
+});
+
+describe('loadDeletedHistory', () => {
+  it('lists the versions of the day\'s deleted entries, newest first', async () => {
+    const live = { ...version('<div>live</div>', 1000), id: 'live' };
+    const deleted = { ...version('<div>gone</div>', 2000), id: 'deleted' };
+    const purged = { ...version('<div>purged</div>', 3000), id: 'purged' };
+    await recordRevision(live, { force: true });
+    await recordRevision(deleted, { force: true });
+    await recordRevision(purged, { force: true });
+    await recordRevision({ ...version('<div>other day</div>', 4000), id: 'other', date: '2025-03-15' }, { force: true });
+
+    const entries = { live, deleted: { ...deleted, content: '', deletedAt: 5000 } };
+    const history = await loadDeletedHistory('2025-03-14', entries, false);
+    expect(history.map((revision) => revision.entryId)).toEqual(['purged', 'deleted']);
+  });
+});
+
+describe('diffText', () => {
+  it('reads one line per paragraph', () => {
+    expect(htmlToText('<div>one <b>bold</b></div><div>two</div>')).toBe('one bold\ntwo');
+  });
+
+  it('marks added and removed words', () => {
+    const ops = diffText('<div>the quick fox</div>', '<div>the slow fox</div>');
+    const changed = ops.filter((op) => op.type !== 'equal').map((op) => `${op.type} ${op.items.join('')}`);
+    expect(changed).toEqual(['delete quick', 'insert slow']);
+  });
+});
@@ -0,0 +1,109 @@
+import { DiaryEntry, EntryRevision } from '../types';
+import { loadRevisions, loadAllRevisions, saveRevisions, deleteRevision, pushRevisions, fetchRemoteRevisions } from './storage';
+import { diffSequences, DiffOp, splitParagraphs } from './merge';
+import { isDeleted } from './tombstones';
+
+// Revision history: before an entry is overwritten, the version being replaced is kept
+// as a snapshot if the last snapshot is old enough. Autosave runs every few seconds,
+// so snapshots are spaced out to mark editing sessions rather than keystrokes.
+// Deleting or restoring always snapshots, since those replace the whole entry.
+
+export const REVISION_INTERVAL_MS = 10 * 60 * 1000;
+export const MAX_REVISIONS_PER_ENTRY = 100;
+
+// Token-pair budget for a word-level diff; longer texts are compared paragraph by paragraph
+const MAX_WORD_DIFF_CELLS = 2_000_000;
+
+// Visible text, one line per paragraph
+export const htmlToText = (html: string): string => {
+  const template = document.createElement('template');
+  return splitParagraphs(html)
+    .map((paragraph) => {
+      template.innerHTML = paragraph;
+      return template.content.textContent || '';
+    })
+    .join('\n');
+};
+
+export const countWords = (html: string): number =>
+  html.replace(/<[^>]*>/g, ' ').split(/\s+/).filter((w) => w.length > 0).length;
+
+// Records `previous` (the version about to be replaced) in the entry's history.
+// `sync` uploads the new snapshot too (user setting). Returns the stored revision, if any.
+export const recordRevision = async (
+  previous: DiaryEntry | undefined,
+  options: { force?: boolean; sync?: boolean } = {}
+): Promise<EntryRevision | null> => {
+  if (!previous || previous.deletedAt || !previous.content) return null;
+
+  const revisions = await loadRevisions(previous.id);
+  const latest = revisions[0];
+  if (latest && latest.content === previous.content) return null;
+  if (!options.force && latest && previous.updatedAt - latest.savedAt < REVISION_INTERVAL_MS) return null;
+
+  const revision: EntryRevision = {
+    // Derived from the version itself, so two devices snapshotting the same synced version agree on the id
+    id: `${previous.id}:${previous.updatedAt}`,
+    entryId: previous.id,
+    date: previous.date,
+    content: previous.content,
+    wordCount: countWords(previous.content),
+    savedAt: previous.updatedAt,
+  };
+  await saveRevisions([revision]);
+
+  const expired = [revision, ...revisions].slice(MAX_REVISIONS_PER_ENTRY);
+  await Promise.all(expired.map((r) => deleteRevision(r.id)));
+
+  if (options.sync) {
+    pushRevisions([revision], expired.map((r) => r.id));
+  }
+  return revision;
+};
+
+// Local history, completed with the account's copy when history sync is on
+export const loadHistory = async (entryId: string, sync: boolean): Promise<EntryRevision[]> => {
+  if (sync) {
+    const local = await loadRevisions(entryId);
+    const localIds = new Set(local.map((r) => r.id));
+    const remote = await fetchRemoteRevisions(entryId);
+
+    const missingRemotely = local.filter((r) => !remote.some((other) => other.id === r.id));
+    const missingLocally = remote.filter((r) => !localIds.has(r.id));
+    if (missingLocally.length > 0) await saveRevisions(missingLocally);
+    if (missingRemotely.length > 0) pushRevisions(missingRemotely);
+  }
+  return (await loadRevisions(entryId)).slice(0, MAX_REVISIONS_PER_ENTRY);
+};
+
+// Versions of the day's deleted entries, newest first. A deleted entry is no longer opened, so
+// its history is found through the day instead: its tombstone, or snapshots kept here.
+export const loadDeletedHistory = async (
+  date: string,
+  entries: Record<string, DiaryEntry>,
+  sync: boolean
+): Promise<EntryRevision[]> => {
+  const snapshots = (await loadAllRevisions()).filter((revision) => revision.date === date);
+  const tombstones = (Object.values(entries) as DiaryEntry[]).filter((entry) => entry.date === date && isDeleted(entry));
+  const ids = new Set([...snapshots.map((revision) => revision.entryId), ...tombstones.map((entry) => entry.id)]);
+  const deletedIds = Array.from(ids).filter((id) => !entries[id] || isDeleted(entries[id]));
+  const histories = await Promise.all(deletedIds.map((id) => loadHistory(id, sync)));
+  return histories.flat().sort((a, b) => b.savedAt - a.savedAt);
+};
+
+// Word-level diff of the visible text (whitespace is kept as its own token)
+export const diffText = (fromHtml: string, toHtml: string): DiffOp<string>[] => {
+  const from = htmlToText(fromHtml);
+  const to = htmlToText(toHtml);
+  const tokenize = (text: string) => text.split(/(\s+)/).filter((t) => t.length > 0);
+
+  const fromTokens = tokenize(from);
+  const toTokens = tokenize(to);
+  if (fromTokens.length * toTokens.length <= MAX_WORD_DIFF_CELLS) {
+    return diffSequences(fromTokens, toTokens);
+  }
+  return diffSequences(from.split('\n'), to.split('\n')).map((op) => ({
+    ...op,
+    items: op.items.map((line) => `${line}\n`),
+  }));
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { AppSettings, DiaryEntry, Journal } from '../types';
+import { DEFAULT_SETTINGS } from './storage';
+import {
+  DEFAULT_JOURNAL,
+  DEFAULT_JOURNAL_ID,
+  applyJournalSettings,
+  filterByJournal,
+  findJournal,
+  getEntryJournalId,
+  getJournals,
+} from './journals';
+
+const work: Journal = { id: 'work', name: 'Work', color: '#3498DB', icon: 'briefcase', settings: { editorFont: 'mono' }, createdAt: 1 };
+
+const entry = (id: string, journalId?: string): DiaryEntry => ({
+  id,
+  date: '2025-03-14',
+  content: '',
+  tags: [],
+  journalId,
+  updatedAt: 1,
+});
+
+describe('journals', () => {
+  it('always includes the default journal', () => {
+    expect(getJournals({ ...DEFAULT_SETTINGS, journals: undefined } as AppSettings)).toEqual([DEFAULT_JOURNAL]);
+    expect(getJournals({ ...DEFAULT_SETTINGS, journals: [work] })).toEqual([DEFAULT_JOURNAL, work]);
+  });
+
+  it('puts entries without a known journal in the default one', () => {
+    const journals = [DEFAULT_JOURNAL, work];
+    expect(getEntryJournalId(entry('a'), journals)).toBe(DEFAULT_JOURNAL_ID);
+    expect(getEntryJournalId(entry('b', 'deleted-elsewhere'), journals)).toBe(DEFAULT_JOURNAL_ID);
+    expect(findJournal(journals, 'deleted-elsewhere')).toBe(DEFAULT_JOURNAL);
+
+    const entries = { a: entry('a'), b: entry('b', 'work'), c: entry('c', 'deleted-elsewhere') };
+    expect(Object.keys(filterByJournal(entries, journals, DEFAULT_JOURNAL_ID))).toEqual(['a', 'c']);
+    expect(Object.keys(filterByJournal(entries, journals, 'work'))).toEqual(['b']);
+    expect(filterByJournal(entries, journals, null)).toBe(entries);
+  });
+
+  it('lets a journal override the editor settings', () => {
+    expect(applyJournalSettings(DEFAULT_SETTINGS, work)).toMatchObject({ editorFont: 'mono', darkMode: false });
+  });
+});
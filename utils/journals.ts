@@ -0,0 +1,61 @@
+import { AppSettings, DiaryEntry, Journal, JournalIcon } from '../types';
+
+// Journals split the account's entries into separate notebooks. The list lives in the
+// synced settings; entries point at their journal through `journalId`. Entries written
+// before journals existed, or whose journal was deleted on another device, belong to
+// the default journal, which always exists.
+
+export const DEFAULT_JOURNAL_ID = 'default';
+
+export const DEFAULT_JOURNAL: Journal = {
+  id: DEFAULT_JOURNAL_ID,
+  name: 'Diary',
+  color: '#1ABC9C',
+  icon: 'book',
+  settings: {},
+  createdAt: 0,
+};
+
+export const JOURNAL_COLORS = ['#1ABC9C', '#3498DB', '#9B59B6', '#E67E22', '#E74C3C', '#F1C40F', '#34495E', '#EC4899'];
+
+export const JOURNAL_ICONS: JournalIcon[] = ['book', 'briefcase', 'moon', 'plane', 'heart', 'star', 'coffee', 'pen'];
+
+// Settings written before journals have none; the default journal is added back if missing
+export const getJournals = (settings: AppSettings): Journal[] => {
+  const journals = settings.journals || [];
+  return journals.some((journal) => journal.id === DEFAULT_JOURNAL_ID) ? journals : [DEFAULT_JOURNAL, ...journals];
+};
+
+export const createJournal = (fields: Pick<Journal, 'name' | 'color' | 'icon' | 'settings'>): Journal => ({
+  ...fields,
+  id: crypto.randomUUID(),
+  createdAt: Date.now(),
+});
+
+export const getEntryJournalId = (entry: DiaryEntry, journals: Journal[]): string => {
+  const id = entry.journalId || DEFAULT_JOURNAL_ID;
+  return journals.some((journal) => journal.id === id) ? id : DEFAULT_JOURNAL_ID;
+};
+
+export const findJournal = (journals: Journal[], id: string | null | undefined): Journal =>
+  journals.find((journal) => journal.id === id) || journals.find((journal) => journal.id === DEFAULT_JOURNAL_ID) || DEFAULT_JOURNAL;
+
+// Entries of one journal, or all of them with `journalId` null
+export const filterByJournal = (
+  entries: Record<string, DiaryEntry>,
+  journals: Journal[],
+  journalId: string | null
+): Record<string, DiaryEntry> => {
+  if (!journalId) return entries;
+  const filtered: Record<string, DiaryEntry> = {};
+  (Object.values(entries) as DiaryEntry[]).forEach((entry) => {
+    if (getEntryJournalId(entry, journals) === journalId) filtered[entry.id] = entry;
+  });
+  return filtered;
+};
+
+// The app settings as seen by the journal's entries
+export const applyJournalSettings = (settings: AppSettings, journal: Journal): AppSettings => ({
+  ...settings,
+  ...journal.settings,
+});
@@ -0,0 +1,153 @@
+// @vitest-environment happy-dom
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DiaryEntry } from '../types';
+import { RemoteChange } from './syncBackend';
+import { createLocalBackend } from './localBackend';
+
+const entry = (id: string, content: string, rev?: number): DiaryEntry => ({
+  id,
+  date: '2025-03-14',
+  content,
+  tags: [],
+  updatedAt: Date.now(),
+  rev,
+});
+
+beforeEach(() => localStorage.clear());
+
+describe('local backend auth', () => {
+  it('signs up, signs out and signs back in with the same password', async () => {
+    const backend = createLocalBackend();
+    await backend.auth.signUp('Me@Example.com', 'secret');
+    const session = await backend.auth.getSession();
+    expect(session?.user.email).toBe('me@example.com');
+
+    await backend.auth.signOut();
+    expect(await backend.auth.getSession()).toBeNull();
+
+    await expect(backend.auth.signIn('me@example.com', 'wrong')).rejects.toThrow('Invalid login credentials');
+    await backend.auth.signIn('me@example.com', 'secret');
+    expect((await backend.auth.getSession())?.user.id).toBe(session?.user.id);
+  });
+
+  it('refuses a second account for the same email', async () => {
+    const backend = createLocalBackend();
+    await backend.auth.signUp('me@example.com', 'secret');
+    await expect(backend.auth.signUp('me@example.com', 'other')).rejects.toThrow('User already registered');
+  });
+});
+
+describe('local backend account', () => {
+  it('signs in with a new password after a reset', async () => {
+    const backend = createLocalBackend();
+    await backend.auth.signUp('me@example.com', 'old');
+    await backend.auth.signOut();
+
+    let recovering = false;
+    backend.auth.onPasswordRecovery(() => {
+      recovering = true;
+    });
+    await backend.auth.requestPasswordReset('me@example.com');
+    expect(recovering).toBe(true);
+    await backend.auth.updatePassword('new');
+    await backend.auth.signOut();
+
+    await expect(backend.auth.signIn('me@example.com', 'old')).rejects.toThrow('Invalid login credentials');
+    await backend.auth.signIn('me@example.com', 'new');
+  });
+
+  it('keeps the password working after the email changes', async () => {
+    const backend = createLocalBackend();
+    await backend.auth.signUp('me@example.com', 'secret');
+    await backend.auth.signUp('taken@example.com', 'other');
+    await backend.auth.signIn('me@example.com', 'secret');
+
+    await expect(backend.auth.updateEmail('taken@example.com')).rejects.toThrow('already been registered');
+    await backend.auth.updateEmail('new@example.com');
+    await backend.auth.signOut();
+    await backend.auth.signIn('new@example.com', 'secret');
+  });
+
+  it('creates magic link accounts that have no password', async () => {
+    const backend = createLocalBackend();
+    await backend.auth.signInWithMagicLink('link@example.com');
+    expect((await backend.auth.getSession())?.user.email).toBe('link@example.com');
+    await expect(backend.auth.signIn('link@example.com', '')).rejects.toThrow('Invalid login credentials');
+  });
+
+  it('deletes the account together with its rows', async () => {
+    const backend = createLocalBackend();
+    await backend.auth.signUp('me@example.com', 'secret');
+    const userId = (await backend.auth.getSession())!.user.id;
+    await backend.upsert(userId, entry('a', 'mine'));
+    await backend.upsert('someone-else', entry('b', 'theirs'));
+
+    await backend.auth.deleteAccount();
+    expect(await backend.auth.getSession()).toBeNull();
+    expect(await backend.list(userId)).toEqual([]);
+    expect(await backend.list('someone-else')).toHaveLength(1);
+    await expect(backend.auth.signIn('me@example.com', 'secret')).rejects.toThrow('Invalid login credentials');
+  });
+});
+
+describe('local backend rows', () => {
+  it('only writes when the stored row is still at the revision the edit was based on', async () => {
+    const backend = createLocalBackend();
+    expect(await backend.upsert('user-1', entry('a', 'one'))).toEqual({ status: 'ok', rev: 1 });
+    expect(await backend.upsert('user-1', entry('a', 'two', 1))).toEqual({ status: 'ok', rev: 2 });
+
+    const stale = await backend.upsert('user-1', entry('a', 'three', 1));
+    expect(stale).toMatchObject({ status: 'conflict', remote: { content: 'two', rev: 2 } });
+  });
+
+  it('keeps users apart', async () => {
+    const backend = createLocalBackend();
+    await backend.upsert('user-1', entry('a', 'mine'));
+    await backend.upsert('user-2', entry('b', 'theirs'));
+
+    expect((await backend.list('user-1')).map((e) => e.id)).toEqual(['a']);
+    expect((await backend.list('user-2')).map((e) => e.id)).toEqual(['b']);
+  });
+
+  it('pages through changes after a cursor, oldest first', async () => {
+    const backend = createLocalBackend();
+    await backend.upsert('user-1', entry('a', 'one'));
+    await backend.upsert('user-1', entry('b', 'two'));
+    await backend.upsert('user-1', entry('a', 'three', 1));
+
+    const first = await backend.changesSince('user-1', null, 1);
+    expect(first.entries.map((e) => e.id)).toEqual(['b']);
+
+    const rest = await backend.changesSince('user-1', first.cursor, 10);
+    expect(rest.entries.map((e) => e.content)).toEqual(['three']);
+    expect(await backend.changesSince('user-1', rest.cursor, 10)).toEqual({ entries: [], cursor: null });
+  });
+
+  it('hard-deletes only tombstones older than the cutoff', async () => {
+    const backend = createLocalBackend();
+    await backend.upsert('user-1', { ...entry('old', ''), deletedAt: 1000 });
+    await backend.upsert('user-1', { ...entry('new', ''), deletedAt: 5000 });
+    await backend.upsert('user-1', entry('live', 'text'));
+
+    await backend.deleteTombstones('user-1', 2000);
+    expect((await backend.list('user-1')).map((e) => e.id).sort()).toEqual(['live', 'new']);
+  });
+
+  it('tells subscribers of the same user about writes and purges', async () => {
+    const backend = createLocalBackend();
+    const seen: RemoteChange[] = [];
+    const unsubscribe = backend.changes('user-1').subscribe((change) => seen.push(change), () => {});
+
+    await backend.upsert('user-1', { ...entry('a', ''), deletedAt: 1000 });
+    await backend.upsert('user-2', entry('b', 'not mine'));
+    await backend.deleteTombstones('user-1', 2000);
+    unsubscribe();
+    await backend.upsert('user-1', entry('c', 'after'));
+
+    expect(seen.map((c) => (c.type === 'upsert' ? `upsert ${c.entry.id}` : `delete ${c.id}`))).toEqual([
+      'upsert a',
+      'delete a',
+    ]);
+  });
+});
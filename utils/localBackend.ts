@@ -0,0 +1,342 @@
+import { DiaryEntry, EntryRevision } from '../types';
+import { SyncBackend, AuthSession, PushResult, RemoteChange, EntryChangeChannel, RemoteSettings, KeyInfo } from './syncBackend';
+
+// Stand-in server that lives in this browser's localStorage, so the whole app
+// (accounts, sync, conflicts, realtime between tabs) can be exercised offline.
+// Not for real accounts: passwords are only hashed, and anyone with access to
+// the browser profile can read every "server" row. There is no email either:
+// reset and magic links act as if the user had opened them right away.
+
+const STATE_KEY = 'graynote_local_server';
+const SESSION_KEY = 'graynote_local_session';
+// Attachment files live in an IndexedDB database of their own: localStorage could only hold a few photos
+const FILES_DB_NAME = 'graynote_local_server_files';
+const FILES_STORE = 'files';
+
+interface LocalUser {
+  id: string;
+  email: string;
+  passwordHash: string; // Empty for accounts that only ever used magic links
+  hashSalt?: string; // Email the password was hashed with, if it changed since
+}
+
+interface LocalRow {
+  userId: string;
+  entry: DiaryEntry;
+  seq: number; // Position in the change feed, like synced_at on Supabase
+}
+
+interface LocalServerState {
+  users: LocalUser[];
+  rows: LocalRow[];
+  seq: number;
+  revisions: (EntryRevision & { userId: string })[];
+  settings: Record<string, RemoteSettings>; // By user id
+  keys: Record<string, KeyInfo>; // By user id
+}
+
+const loadState = (): LocalServerState => {
+  const empty: LocalServerState = { users: [], rows: [], seq: 0, revisions: [], settings: {}, keys: {} };
+  try {
+    const data = localStorage.getItem(STATE_KEY);
+    // Older states may lack collections added later
+    if (data) return { ...empty, ...JSON.parse(data) };
+  } catch (error) {
+    console.error('Local backend state is unreadable, starting over', error);
+  }
+  return empty;
+};
+
+const saveState = (state: LocalServerState) => {
+  localStorage.setItem(STATE_KEY, JSON.stringify(state));
+};
+
+const hashPassword = async (email: string, password: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${email}:${password}`));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Rows are stored the way a server would have them: no client-side merge base
+const toRow = (entry: DiaryEntry, rev: number): DiaryEntry => {
+  const { baseContent, ...row } = entry;
+  return { ...row, rev };
+};
+
+const fromRow = (row: LocalRow): DiaryEntry => ({ ...row.entry, baseContent: row.entry.content });
+
+// Zero-padded so cursors compare as strings
+const seqCursor = (seq: number) => String(seq).padStart(12, '0');
+
+const fileKey = (userId: string, id: string) => `${userId}:${id}`;
+
+let filesDb: Promise<IDBDatabase> | null = null;
+
+const openFiles = (): Promise<IDBDatabase> => {
+  if (!filesDb) {
+    filesDb = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(FILES_DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(FILES_STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    filesDb.catch(() => {
+      filesDb = null;
+    });
+  }
+  return filesDb;
+};
+
+// Runs one request against the file store and resolves once its transaction is committed
+const withFiles = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openFiles();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(FILES_STORE, mode);
+    const request = run(tx.objectStore(FILES_STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+};
+
+export const createLocalBackend = (): SyncBackend => {
+  const authListeners = new Set<(session: AuthSession | null) => void>();
+  const recoveryListeners = new Set<() => void>();
+  const changeListeners = new Set<{ userId: string; onChange: (change: RemoteChange) => void; onResync: () => void }>();
+
+  const readSession = (): AuthSession | null => {
+    try {
+      const data = localStorage.getItem(SESSION_KEY);
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      return null;
+    }
+  };
+
+  const setSession = (session: AuthSession | null) => {
+    if (session) localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    else localStorage.removeItem(SESSION_KEY);
+    authListeners.forEach((listener) => listener(session));
+  };
+
+  const emit = (userId: string, change: RemoteChange) => {
+    changeListeners.forEach((l) => {
+      if (l.userId === userId) l.onChange(change);
+    });
+  };
+
+  // Writes from other tabs only show up as a storage event; treat them like a reconnect
+  if (typeof window !== 'undefined') {
+    window.addEventListener('storage', (event) => {
+      if (event.key === STATE_KEY) changeListeners.forEach((l) => l.onResync());
+      if (event.key === SESSION_KEY) authListeners.forEach((listener) => listener(readSession()));
+    });
+  }
+
+  const currentUser = () => {
+    const session = readSession();
+    const user = session && loadState().users.find((u) => u.id === session.user.id);
+    if (!user) throw new Error('Not signed in');
+    return user;
+  };
+
+  const updateUser = (id: string, changes: Partial<LocalUser>) => {
+    const state = loadState();
+    saveState({ ...state, users: state.users.map((u) => (u.id === id ? { ...u, ...changes } : u)) });
+  };
+
+  const changes = (userId: string): EntryChangeChannel => ({
+    subscribe: (onChange, onResync) => {
+      const listener = { userId, onChange, onResync };
+      changeListeners.add(listener);
+      return () => {
+        changeListeners.delete(listener);
+      };
+    },
+  });
+
+  return {
+    name: 'local',
+
+    auth: {
+      getSession: async () => readSession(),
+      onAuthStateChange: (listener) => {
+        authListeners.add(listener);
+        return () => {
+          authListeners.delete(listener);
+        };
+      },
+      signIn: async (email, password) => {
+        const normalized = email.trim().toLowerCase();
+        const user = loadState().users.find((u) => u.email === normalized);
+        if (!user || !user.passwordHash || user.passwordHash !== (await hashPassword(user.hashSalt ?? normalized, password))) {
+          throw new Error('Invalid login credentials');
+        }
+        setSession({ user: { id: user.id, email: user.email } });
+      },
+      signUp: async (email, password) => {
+        const normalized = email.trim().toLowerCase();
+        const passwordHash = await hashPassword(normalized, password);
+        const state = loadState();
+        if (state.users.some((u) => u.email === normalized)) throw new Error('User already registered');
+
+        const user: LocalUser = { id: crypto.randomUUID(), email: normalized, passwordHash };
+        saveState({ ...state, users: [...state.users, user] });
+        setSession({ user: { id: user.id, email: user.email } });
+        return { needsConfirmation: false };
+      },
+      signOut: async () => setSession(null),
+      requestPasswordReset: async (email) => {
+        // Unknown addresses are not reported, like a real server would
+        const user = loadState().users.find((u) => u.email === email.trim().toLowerCase());
+        if (!user) return;
+        setSession({ user: { id: user.id, email: user.email } });
+        recoveryListeners.forEach((listener) => listener());
+      },
+      onPasswordRecovery: (listener) => {
+        recoveryListeners.add(listener);
+        return () => {
+          recoveryListeners.delete(listener);
+        };
+      },
+      signInWithMagicLink: async (email) => {
+        const normalized = email.trim().toLowerCase();
+        const state = loadState();
+        let user = state.users.find((u) => u.email === normalized);
+        if (!user) {
+          user = { id: crypto.randomUUID(), email: normalized, passwordHash: '' };
+          saveState({ ...state, users: [...state.users, user] });
+        }
+        setSession({ user: { id: user.id, email: user.email } });
+      },
+      signInWithProvider: async () => {
+        throw new Error('Signing in with a provider needs the Supabase backend.');
+      },
+      updateEmail: async (email) => {
+        const normalized = email.trim().toLowerCase();
+        const user = currentUser();
+        if (loadState().users.some((u) => u.email === normalized && u.id !== user.id)) {
+          throw new Error('A user with this email address has already been registered');
+        }
+        updateUser(user.id, { email: normalized, hashSalt: user.hashSalt ?? user.email });
+        setSession({ user: { id: user.id, email: normalized } });
+        return { needsConfirmation: false };
+      },
+      updatePassword: async (password) => {
+        const user = currentUser();
+        updateUser(user.id, { passwordHash: await hashPassword(user.email, password), hashSalt: undefined });
+      },
+      deleteAccount: async () => {
+        const { id } = currentUser();
+        const state = loadState();
+        const { [id]: _settings, ...settings } = state.settings;
+        const { [id]: _keys, ...keys } = state.keys;
+        saveState({
+          ...state,
+          users: state.users.filter((u) => u.id !== id),
+          rows: state.rows.filter((r) => r.userId !== id),
+          revisions: state.revisions.filter((r) => r.userId !== id),
+          settings,
+          keys,
+        });
+        await withFiles('readwrite', (store) => store.delete(IDBKeyRange.bound(`${id}:`, `${id}:\uffff`)));
+        setSession(null);
+      },
+    },
+
+    list: async (userId) => loadState().rows.filter((r) => r.userId === userId).map(fromRow),
+
+    changesSince: async (userId, cursor, limit) => {
+      const after = cursor?.at ?? '';
+      const rows = loadState().rows
+        .filter((r) => r.userId === userId && seqCursor(r.seq) > after)
+        .sort((a, b) => a.seq - b.seq)
+        .slice(0, limit);
+      const last = rows[rows.length - 1];
+      return {
+        entries: rows.map(fromRow),
+        cursor: last ? { at: seqCursor(last.seq), id: last.entry.id } : null,
+      };
+    },
+
+    // Same contract as Supabase: only writes if the stored row is still at entry.rev
+    upsert: async (userId, entry): Promise<PushResult> => {
+      const state = loadState();
+      const existing = state.rows.find((r) => r.userId === userId && r.entry.id === entry.id);
+      if (existing && existing.entry.rev !== entry.rev) return { status: 'conflict', remote: fromRow(existing) };
+
+      const rev = (entry.rev ?? 0) + 1;
+      const seq = state.seq + 1;
+      const row: LocalRow = { userId, entry: toRow(entry, rev), seq };
+      saveState({
+        ...state,
+        seq,
+        rows: [...state.rows.filter((r) => r !== existing), row],
+      });
+      emit(userId, { type: 'upsert', entry: fromRow(row) });
+      return { status: 'ok', rev };
+    },
+
+    deleteTombstones: async (userId, before) => {
+      const state = loadState();
+      const expired = state.rows.filter((r) => r.userId === userId && r.entry.deletedAt && r.entry.deletedAt < before);
+      if (expired.length === 0) return;
+
+      saveState({ ...state, rows: state.rows.filter((r) => !expired.includes(r)) });
+      expired.forEach((r) => emit(userId, { type: 'delete', id: r.entry.id }));
+    },
+
+    changes,
+
+    listRevisions: async (userId, entryId) =>
+      loadState().revisions
+        .filter((r) => r.userId === userId && r.entryId === entryId)
+        .map(({ userId: _owner, ...revision }) => revision),
+
+    upsertRevisions: async (userId, revisions) => {
+      const state = loadState();
+      const ids = new Set(revisions.map((r) => r.id));
+      saveState({
+        ...state,
+        revisions: [
+          ...state.revisions.filter((r) => !(r.userId === userId && ids.has(r.id))),
+          ...revisions.map((r) => ({ ...r, userId })),
+        ],
+      });
+    },
+
+    deleteRevisions: async (userId, ids) => {
+      const state = loadState();
+      saveState({ ...state, revisions: state.revisions.filter((r) => !(r.userId === userId && ids.includes(r.id))) });
+    },
+
+    loadSettings: async (userId) => loadState().settings[userId] ?? null,
+
+    saveSettings: async (userId, settings) => {
+      const state = loadState();
+      saveState({ ...state, settings: { ...state.settings, [userId]: settings } });
+    },
+
+    uploadAttachment: async (userId, id, file) => {
+      await withFiles('readwrite', (store) => store.put(file, fileKey(userId, id)));
+    },
+
+    downloadAttachment: async (userId, id) => {
+      const file = await withFiles<Blob | undefined>('readonly', (store) => store.get(fileKey(userId, id)));
+      return file ?? null;
+    },
+
+    deleteAttachments: async (userId, ids) => {
+      for (const id of ids) {
+        await withFiles('readwrite', (store) => store.delete(fileKey(userId, id)));
+      }
+    },
+
+    loadKeyInfo: async (userId) => loadState().keys[userId] ?? null,
+
+    saveKeyInfo: async (userId, info) => {
+      const state = loadState();
+      const { [userId]: _previous, ...keys } = state.keys;
+      saveState({ ...state, keys: info ? { ...keys, [userId]: info } : keys });
+    },
+  };
+};
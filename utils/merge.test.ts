@@ -0,0 +1,113 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { DiaryEntry } from '../types';
+import { diffSequences, mergeConcurrentEdits, mergeSequences, splitParagraphs } from './merge';
+
+const entry = (changes: Partial<DiaryEntry>): DiaryEntry => ({
+  id: 'a',
+  date: '2025-03-14',
+  content: '',
+  tags: [],
+  updatedAt: 1,
+  ...changes,
+});
+
+describe('diffSequences', () => {
+  it('groups consecutive changes', () => {
+    expect(diffSequences(['a', 'b', 'c', 'd'], ['a', 'x', 'y', 'd'])).toEqual([
+      { type: 'equal', items: ['a'] },
+      { type: 'delete', items: ['b', 'c'] },
+      { type: 'insert', items: ['x', 'y'] },
+      { type: 'equal', items: ['d'] },
+    ]);
+  });
+
+  it('handles empty sides', () => {
+    expect(diffSequences([], ['a'])).toEqual([{ type: 'insert', items: ['a'] }]);
+    expect(diffSequences(['a'], [])).toEqual([{ type: 'delete', items: ['a'] }]);
+    expect(diffSequences([], [])).toEqual([]);
+  });
+});
+
+describe('mergeSequences', () => {
+  it('takes changes to different regions from both sides', () => {
+    expect(mergeSequences(['a', 'b', 'c'], ['A', 'b', 'c'], ['a', 'b', 'C'])).toEqual(['A', 'b', 'C']);
+  });
+
+  it('keeps insertions from both sides', () => {
+    expect(mergeSequences(['a', 'c'], ['a', 'b', 'c'], ['a', 'c', 'd'])).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('accepts the same change made on both sides', () => {
+    expect(mergeSequences(['a', 'b'], ['a', 'x'], ['a', 'x'])).toEqual(['a', 'x']);
+  });
+
+  it('applies a deletion from one side', () => {
+    expect(mergeSequences(['a', 'b', 'c'], ['a', 'c'], ['a', 'b', 'c', 'd'])).toEqual(['a', 'c', 'd']);
+  });
+
+  it('returns null when both sides change the same region differently', () => {
+    expect(mergeSequences(['a', 'b', 'c'], ['a', 'x', 'c'], ['a', 'y', 'c'])).toBeNull();
+  });
+
+  it('treats changes to neighbouring items as one region', () => {
+    expect(mergeSequences(['a', 'b'], ['A', 'b'], ['a', 'B'])).toBeNull();
+  });
+});
+
+describe('splitParagraphs', () => {
+  it('splits blocks and groups the leading inline run', () => {
+    expect(splitParagraphs('first <b>line</b><div>second</div><div>third</div>')).toEqual([
+      'first <b>line</b>',
+      '<div>second</div>',
+      '<div>third</div>',
+    ]);
+  });
+});
+
+describe('mergeConcurrentEdits', () => {
+  const base = '<div>one</div><div>two</div><div>three</div>';
+
+  it('merges edits to different paragraphs and rebases on the remote revision', () => {
+    const local = entry({ content: '<div>ONE</div><div>two</div><div>three</div>', baseContent: base, rev: 1 });
+    const remote = entry({ content: '<div>one</div><div>two</div><div>THREE</div>', rev: 2 });
+    const merged = mergeConcurrentEdits(local, remote);
+    expect(merged?.content).toBe('<div>ONE</div><div>two</div><div>THREE</div>');
+    expect(merged?.rev).toBe(2);
+    expect(merged?.baseContent).toBe(remote.content);
+  });
+
+  it('reports a conflict for edits to the same paragraph', () => {
+    const local = entry({ content: '<div>uno</div><div>two</div><div>three</div>', baseContent: base, rev: 1 });
+    const remote = entry({ content: '<div>eins</div><div>two</div><div>three</div>', rev: 2 });
+    expect(mergeConcurrentEdits(local, remote)).toBeNull();
+  });
+
+  it('reports a conflict when the base is unknown', () => {
+    expect(mergeConcurrentEdits(entry({ content: 'local' }), entry({ content: 'remote', rev: 2 }))).toBeNull();
+  });
+
+  it('keeps the local title, mood, journal, tags, attachments and habits when the content is the same', () => {
+    const local = entry({
+      content: base, title: 'Mine', mood: 4, journalId: 'work', tags: ['trip'], attachments: [], habits: ['run'],
+      baseContent: base, rev: 1,
+    });
+    const remote = entry({ content: base, title: 'Theirs', mood: 2, journalId: 'default', tags: ['home'], habits: [], rev: 2 });
+    expect(mergeConcurrentEdits(local, remote)).toMatchObject({
+      title: 'Mine', mood: 4, journalId: 'work', tags: ['trip'], attachments: [], habits: ['run'], rev: 2,
+    });
+  });
+
+  it('lets a deletion win only over an untouched entry', () => {
+    const deleted = entry({ content: base, baseContent: base, deletedAt: 5, rev: 1 });
+    expect(mergeConcurrentEdits(deleted, entry({ content: base, rev: 2 }))).toMatchObject({ deletedAt: 5, rev: 2 });
+    expect(mergeConcurrentEdits(deleted, entry({ content: '<div>changed</div>', rev: 2 }))).toBeNull();
+  });
+
+  it('keeps attachments added on either side', () => {
+    const file = (id: string) => ({ id, name: id, type: 'image/png', size: 1 });
+    const local = entry({ content: '<div>ONE</div><div>two</div><div>three</div>', baseContent: base, attachments: [file('l')], rev: 1 });
+    const remote = entry({ content: '<div>one</div><div>two</div><div>THREE</div>', attachments: [file('r')], rev: 2 });
+    expect(mergeConcurrentEdits(local, remote)?.attachments?.map((attachment) => attachment.id)).toEqual(['l', 'r']);
+  });
+});
@@ -0,0 +1,199 @@
+import { Attachment, DiaryEntry } from '../types';
+
+// --- Sequence diff (LCS) ---
+
+export type DiffOp<T> = { type: 'equal' | 'insert' | 'delete'; items: T[] };
+
+// Index pairs [aIndex, bIndex] of a longest common subsequence, in ascending order.
+// Common prefix/suffix are matched up front so the quadratic table only covers the changed middle.
+const lcsMatches = <T>(a: T[], b: T[]): [number, number][] => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  // lengths[i][j] = LCS length of a[start+i..endA) and b[start+j..endB), flattened
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] = a[start + i] === b[start + j]
+        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const matches: [number, number][] = [];
+  for (let k = 0; k < start; k++) matches.push([k, k]);
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[start + i] === b[start + j]) {
+      matches.push([start + i, start + j]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  for (let k = 0; k < a.length - endA; k++) matches.push([endA + k, endB + k]);
+  return matches;
+};
+
+export const diffSequences = <T>(a: T[], b: T[]): DiffOp<T>[] => {
+  const ops: DiffOp<T>[] = [];
+  const push = (type: DiffOp<T>['type'], items: T[]) => {
+    if (items.length === 0) return;
+    const last = ops[ops.length - 1];
+    if (last && last.type === type) {
+      last.items.push(...items);
+    } else {
+      ops.push({ type, items: [...items] });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  lcsMatches(a, b).forEach(([ai, bj]) => {
+    push('delete', a.slice(i, ai));
+    push('insert', b.slice(j, bj));
+    push('equal', [a[ai]]);
+    i = ai + 1;
+    j = bj + 1;
+  });
+  push('delete', a.slice(i));
+  push('insert', b.slice(j));
+  return ops;
+};
+
+// --- Three-way merge ---
+
+const sameItems = <T>(a: T[], b: T[]) => a.length === b.length && a.every((item, i) => item === b[i]);
+
+// Classic diff3: blocks unchanged on both sides act as anchors, and every region
+// between anchors is taken from whichever side changed it. Returns null when both
+// sides changed the same region differently.
+export const mergeSequences = <T>(base: T[], local: T[], remote: T[]): T[] | null => {
+  const toLocal = new Map(lcsMatches(base, local));
+  const toRemote = new Map(lcsMatches(base, remote));
+
+  const merged: T[] = [];
+  let b = 0;
+  let l = 0;
+  let r = 0;
+
+  const mergeRegion = (bEnd: number, lEnd: number, rEnd: number): boolean => {
+    const baseChunk = base.slice(b, bEnd);
+    const localChunk = local.slice(l, lEnd);
+    const remoteChunk = remote.slice(r, rEnd);
+
+    if (sameItems(localChunk, remoteChunk) || sameItems(remoteChunk, baseChunk)) {
+      merged.push(...localChunk);
+    } else if (sameItems(localChunk, baseChunk)) {
+      merged.push(...remoteChunk);
+    } else {
+      return false;
+    }
+    return true;
+  };
+
+  for (let i = 0; i < base.length; i++) {
+    const li = toLocal.get(i);
+    const ri = toRemote.get(i);
+    if (li === undefined || ri === undefined) continue;
+
+    if (!mergeRegion(i, li, ri)) return null;
+    merged.push(base[i]);
+    b = i + 1;
+    l = li + 1;
+    r = ri + 1;
+  }
+
+  if (!mergeRegion(base.length, local.length, remote.length)) return null;
+  return merged;
+};
+
+// --- Entry content ---
+
+const BLOCK_TAGS = new Set(['DIV', 'P', 'UL', 'OL', 'LI', 'BLOCKQUOTE', 'PRE', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HR']);
+
+// Same escaping the browser applies when serializing a text node through innerHTML
+const escapeText = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\u00a0/g, '&nbsp;');
+
+// Splits editor HTML into paragraphs: each block element is one paragraph and
+// consecutive inline nodes (the first line typed before any <div>) are grouped together.
+export const splitParagraphs = (html: string): string[] => {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+
+  const paragraphs: string[] = [];
+  let inlineRun = '';
+
+  template.content.childNodes.forEach((node) => {
+    if (node.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((node as Element).tagName)) {
+      if (inlineRun) paragraphs.push(inlineRun);
+      inlineRun = '';
+      paragraphs.push((node as Element).outerHTML);
+    } else if (node.nodeType === Node.ELEMENT_NODE) {
+      inlineRun += (node as Element).outerHTML;
+    } else if (node.nodeType === Node.TEXT_NODE) {
+      inlineRun += escapeText(node.textContent || '');
+    }
+  });
+  if (inlineRun) paragraphs.push(inlineRun);
+
+  return paragraphs;
+};
+
+export const sameAttachments = (a: Attachment[] = [], b: Attachment[] = []) =>
+  a.length === b.length && a.every((attachment, i) => attachment.id === b[i].id);
+
+// Both sides' attachments, local ones first. Files are only ever added with a fresh id,
+// so keeping the union never resurrects anything the other side did not have.
+const unionAttachments = (local: Attachment[] = [], remote: Attachment[] = []) => {
+  const ids = new Set(local.map((attachment) => attachment.id));
+  const merged = [...local, ...remote.filter((attachment) => !ids.has(attachment.id))];
+  return merged.length > 0 ? merged : undefined;
+};
+
+// Merges two concurrent edits of the same entry against the content both started from.
+// Returns the merged entry, rebased on the remote revision, or null for a real conflict.
+export const mergeConcurrentEdits = (local: DiaryEntry, remote: DiaryEntry): DiaryEntry | null => {
+  const rebase = (entry: DiaryEntry): DiaryEntry => ({ ...entry, rev: remote.rev, baseContent: remote.content });
+
+  const bothDeleted = !!local.deletedAt && !!remote.deletedAt;
+  if (bothDeleted) return rebase(remote);
+  // Title, mood, journal, tags and habits have no base to merge against, so the local ones (the edit being pushed) are kept
+  if (local.content === remote.content && !local.deletedAt === !remote.deletedAt) {
+    return rebase({ ...remote, title: local.title, mood: local.mood, journalId: local.journalId, tags: local.tags, attachments: local.attachments, habits: local.habits });
+  }
+
+  // Without a known base (entries from before revision tracking) any difference is a conflict
+  if (local.baseContent === undefined) return null;
+  const base = local.baseContent;
+
+  // A deletion only wins if the other side did not touch the entry
+  if (local.deletedAt) return remote.content === base ? rebase(local) : null;
+  if (remote.deletedAt) return local.content === base ? rebase(remote) : null;
+
+  const merged = mergeSequences(splitParagraphs(base), splitParagraphs(local.content), splitParagraphs(remote.content));
+  if (!merged) return null;
+
+  return rebase({
+    ...local,
+    content: merged.join(''),
+    attachments: unionAttachments(local.attachments, remote.attachments),
+    updatedAt: Date.now(),
+  });
+};
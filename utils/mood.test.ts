@@ -0,0 +1,67 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { DiaryEntry, MoodLevel } from '../types';
+import { clampMood, getDayMoods, getMoodByTag, getMoodLevel, getMoodSeries } from './mood';
+
+const scale: MoodLevel[] = [
+  { emoji: '😞', label: 'Bad' },
+  { emoji: '😐', label: 'Okay' },
+  { emoji: '😊', label: 'Good' },
+];
+
+const entry = (id: string, date: string, mood: number | null, tags: string[] = []): DiaryEntry => ({
+  id,
+  date,
+  content: '',
+  tags,
+  mood,
+  updatedAt: 1,
+});
+
+const byId = (entries: DiaryEntry[]) => Object.fromEntries(entries.map((e) => [e.id, e]));
+
+describe('mood scale', () => {
+  it('shows moods beyond a shortened scale as its top step', () => {
+    expect(clampMood(5, scale)).toBe(3);
+    expect(clampMood(0, scale)).toBe(1);
+    expect(getMoodLevel(5, scale).label).toBe('Good');
+  });
+});
+
+describe('mood trends', () => {
+  it('averages the rated entries of each day', () => {
+    const entries = byId([
+      entry('a', '2025-03-14', 1),
+      entry('b', '2025-03-14', 3),
+      entry('c', '2025-03-15', null),
+      { ...entry('d', '2025-03-16', 3), deletedAt: 1 },
+    ]);
+    expect(getDayMoods(entries)).toEqual({ '2025-03-14': 2 });
+  });
+
+  it('gives one bucket per month, oldest first, with days counted once', () => {
+    const entries = byId([
+      entry('a', '2025-02-03', 1),
+      entry('b', '2025-02-03', 3),
+      entry('c', '2025-02-20', 3),
+      entry('d', '2025-04-01', 2),
+    ]);
+    const series = getMoodSeries(entries, 'month', 3, new Date(2025, 3, 10));
+    expect(series.map((bucket) => [bucket.average, bucket.count])).toEqual([
+      [2.5, 2],
+      [null, 0],
+      [2, 1],
+    ]);
+  });
+
+  it('compares tags with enough rated entries to the overall average', () => {
+    const entries = byId([
+      entry('a', '2025-03-01', 3, ['beach']),
+      entry('b', '2025-03-02', 3, ['beach']),
+      entry('c', '2025-03-03', 3, ['beach']),
+      entry('d', '2025-03-04', 1, ['work']),
+      entry('e', '2025-03-05', 1),
+    ]);
+    expect(getMoodByTag(entries)).toEqual([{ tag: 'beach', average: 3, count: 3, difference: 3 - 11 / 5 }]);
+  });
+});
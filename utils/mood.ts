@@ -0,0 +1,107 @@
+import { format, startOfWeek, startOfMonth, subWeeks, subMonths, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { DiaryEntry, MoodLevel } from '../types';
+import { isDeleted } from './tombstones';
+import { getEntryTags } from './tags';
+
+// Moods are stored as positions on the user's scale (1 = lowest). The scale can be edited;
+// a mood above the current top step is shown as the top step.
+
+export const MIN_MOOD_LEVELS = 2;
+export const MAX_MOOD_LEVELS = 10;
+
+// Tags need this many rated entries before their average says anything
+const MIN_TAG_SAMPLES = 3;
+
+export const clampMood = (value: number, scale: MoodLevel[]): number =>
+  Math.min(Math.max(Math.round(value), 1), scale.length);
+
+export const getMoodLevel = (value: number, scale: MoodLevel[]): MoodLevel => scale[clampMood(value, scale) - 1];
+
+// Red for the lowest mood to green for the highest
+export const moodColor = (value: number, scale: MoodLevel[], alpha = 1): string => {
+  const position = scale.length > 1 ? (Math.min(Math.max(value, 1), scale.length) - 1) / (scale.length - 1) : 1;
+  return `hsla(${Math.round(position * 120)}, 65%, 50%, ${alpha})`;
+};
+
+const ratedEntries = (entries: Record<string, DiaryEntry>): DiaryEntry[] =>
+  (Object.values(entries) as DiaryEntry[]).filter((entry) => !isDeleted(entry) && !!entry.mood);
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// Average mood per day key, over the day's rated entries
+export const getDayMoods = (entries: Record<string, DiaryEntry>): Record<string, number> => {
+  const byDay: Record<string, number[]> = {};
+  ratedEntries(entries).forEach((entry) => {
+    (byDay[entry.date] = byDay[entry.date] || []).push(entry.mood!);
+  });
+  const moods: Record<string, number> = {};
+  Object.entries(byDay).forEach(([date, values]) => {
+    moods[date] = average(values);
+  });
+  return moods;
+};
+
+export type MoodPeriod = 'week' | 'month';
+
+export interface MoodBucket {
+  label: string;
+  average: number | null; // null when nothing was rated in the period
+  count: number;
+}
+
+// Average mood of each of the last `count` weeks or months, oldest first.
+// Days count once each, however many entries they hold.
+export const getMoodSeries = (
+  entries: Record<string, DiaryEntry>,
+  period: MoodPeriod,
+  count: number,
+  now = new Date()
+): MoodBucket[] => {
+  const startOf = (date: Date) => (period === 'week' ? startOfWeek(date, { locale: ptBR }) : startOfMonth(date));
+  const back = (date: Date, n: number) => (period === 'week' ? subWeeks(date, n) : subMonths(date, n));
+  const labelFormat = period === 'week' ? 'dd/MM' : 'MMM yy';
+
+  const current = startOf(now);
+  const buckets = Array.from({ length: count }, (_, i) => {
+    const start = back(current, count - 1 - i);
+    return { key: start.getTime(), label: format(start, labelFormat, { locale: ptBR }), values: [] as number[] };
+  });
+  const byKey = new Map(buckets.map((bucket) => [bucket.key, bucket]));
+
+  Object.entries(getDayMoods(entries)).forEach(([date, mood]) => {
+    byKey.get(startOf(parseISO(date)).getTime())?.values.push(mood);
+  });
+
+  return buckets.map(({ label, values }) => ({
+    label,
+    average: values.length > 0 ? average(values) : null,
+    count: values.length,
+  }));
+};
+
+export interface TagMood {
+  tag: string;
+  average: number;
+  count: number;
+  difference: number; // Against the average of all rated entries
+}
+
+// How the mood of entries with each tag compares to the overall average, biggest effect first
+export const getMoodByTag = (entries: Record<string, DiaryEntry>): TagMood[] => {
+  const rated = ratedEntries(entries);
+  if (rated.length === 0) return [];
+  const overall = average(rated.map((entry) => entry.mood!));
+
+  const byTag = new Map<string, number[]>();
+  rated.forEach((entry) => {
+    getEntryTags(entry).forEach((tag) => byTag.set(tag, [...(byTag.get(tag) || []), entry.mood!]));
+  });
+
+  return Array.from(byTag, ([tag, values]) => {
+    const tagAverage = average(values);
+    return { tag, average: tagAverage, count: values.length, difference: tagAverage - overall };
+  })
+    .filter((item) => item.count >= MIN_TAG_SAMPLES)
+    .sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference));
+};
@@ -0,0 +1,203 @@
+// @vitest-environment happy-dom
+import 'fake-indexeddb/auto';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DiaryEntry } from '../types';
+import { PushResult } from './syncBackend';
+
+// A server with the same conditional write as the real one: an edit only lands if the row
+// is still at the revision the edit was based on
+const server = vi.hoisted(() => {
+  const state = {
+    rows: new Map<string, DiaryEntry>(),
+    pushed: [] as string[],
+    failures: 0,
+    gate: null as Promise<void> | null,
+    // Holds pushes until the returned function is called
+    pause: () => {
+      let release = () => {};
+      state.gate = new Promise((resolve) => {
+        release = resolve;
+      });
+      return () => {
+        state.gate = null;
+        release();
+      };
+    },
+    upsert: async (_userId: string, entry: DiaryEntry): Promise<PushResult> => {
+      if (state.gate) await state.gate;
+      if (state.failures > 0) {
+        state.failures--;
+        throw new Error('offline');
+      }
+      const existing = state.rows.get(entry.id);
+      if (existing && existing.rev !== entry.rev) return { status: 'conflict', remote: existing };
+      const rev = (entry.rev ?? 0) + 1;
+      state.rows.set(entry.id, { ...entry, rev, baseContent: undefined });
+      state.pushed.push(`${entry.id} ${entry.content}`);
+      return { status: 'ok', rev };
+    },
+  };
+  return state;
+});
+
+vi.mock('./backends', () => ({
+  getSyncBackend: () => ({ upsert: server.upsert }),
+}));
+
+const { setStorageScope, loadEntry, loadConflicts, loadRecoveredCopies } = await import('./storage');
+const { saveLocalChange, flushOutbox, getPendingIds, resolveConflict, startOutbox } = await import('./outbox');
+
+const entry = (id: string, content: string): DiaryEntry => ({ id, date: '2025-03-14', content, tags: [], updatedAt: Date.now() });
+
+// Waits for the upload a save started, and any retry it queued
+const settle = async () => {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  await flushOutbox();
+};
+
+let stop: () => void;
+beforeAll(() => {
+  setStorageScope('user-1');
+  stop = startOutbox();
+});
+afterAll(() => stop());
+beforeEach(() => {
+  server.pushed = [];
+});
+
+describe('outbox queue', () => {
+  it('uploads edits in order and collapses repeated edits of an entry', async () => {
+    const release = server.pause();
+    await saveLocalChange(entry('hold', 'first'));
+    await saveLocalChange(entry('order-a', 'one'));
+    await saveLocalChange(entry('order-b', 'one'));
+    await saveLocalChange(entry('order-a', 'two'));
+    release();
+    await settle();
+
+    expect(server.pushed).toEqual(['hold first', 'order-b one', 'order-a two']);
+    expect(await getPendingIds()).toEqual(new Set());
+  });
+
+  it('keeps failed uploads queued for a retry', async () => {
+    server.failures = 1;
+    await saveLocalChange(entry('offline', 'text'));
+    // Joins the upload the save started
+    await flushOutbox();
+    expect(await getPendingIds()).toEqual(new Set(['offline']));
+
+    await settle();
+    expect(server.pushed).toEqual(['offline text']);
+    expect(await getPendingIds()).toEqual(new Set());
+  });
+});
+
+describe('outbox revisions', () => {
+  it('records the revision the server accepted as the new base', async () => {
+    await saveLocalChange(entry('first', '<div>hello</div>'));
+    await settle();
+    expect(await loadEntry('first')).toMatchObject({ rev: 1, baseContent: '<div>hello</div>' });
+
+    await saveLocalChange(entry('first', '<div>hello again</div>'));
+    await settle();
+    expect(await loadEntry('first')).toMatchObject({ rev: 2, baseContent: '<div>hello again</div>' });
+    expect(server.rows.get('first')?.content).toBe('<div>hello again</div>');
+  });
+
+  it('moves a newer queued edit onto the revision of the push that just finished', async () => {
+    await saveLocalChange(entry('queued', '<div>one</div>'));
+    await settle();
+
+    const release = server.pause();
+    await saveLocalChange(entry('queued', '<div>two</div>'));
+    // Edited again while the first push is still on its way
+    await saveLocalChange(entry('queued', '<div>three</div>'));
+    release();
+    await settle();
+
+    expect(server.rows.get('queued')).toMatchObject({ content: '<div>three</div>', rev: 3 });
+    expect(await loadEntry('queued')).toMatchObject({ rev: 3, baseContent: '<div>three</div>' });
+    expect((await loadConflicts()).map((conflict) => conflict.id)).not.toContain('queued');
+  });
+
+  it('merges an edit another device made to a different paragraph', async () => {
+    await saveLocalChange(entry('merged', '<div>a</div><div>b</div><div>c</div>'));
+    await settle();
+
+    server.rows.set('merged', { ...entry('merged', '<div>a</div><div>b</div><div>C</div>'), rev: 2 });
+    await saveLocalChange(entry('merged', '<div>A</div><div>b</div><div>c</div>'));
+    await settle();
+
+    expect(await loadEntry('merged')).toMatchObject({ content: '<div>A</div><div>b</div><div>C</div>', rev: 3 });
+    expect(server.rows.get('merged')?.content).toBe('<div>A</div><div>b</div><div>C</div>');
+  });
+
+  it('uploads a tag change even when another device saved the same text', async () => {
+    await saveLocalChange(entry('tagged', '<div>same</div>'));
+    await settle();
+
+    server.rows.set('tagged', { ...entry('tagged', '<div>same</div>'), rev: 2 });
+    await saveLocalChange({ ...entry('tagged', '<div>same</div>'), tags: ['work'] });
+    await settle();
+
+    expect(server.rows.get('tagged')).toMatchObject({ tags: ['work'], rev: 3 });
+    expect(await getPendingIds()).toEqual(new Set());
+  });
+
+  it('parks overlapping edits as a conflict and clears them from the queue', async () => {
+    await saveLocalChange(entry('clash', '<div>a</div>'));
+    await settle();
+
+    server.rows.set('clash', { ...entry('clash', '<div>theirs</div>'), rev: 2 });
+    await saveLocalChange(entry('clash', '<div>mine</div>'));
+    await settle();
+
+    const conflict = (await loadConflicts()).find((c) => c.id === 'clash');
+    expect(conflict?.local.content).toBe('<div>mine</div>');
+    expect(conflict?.remote.content).toBe('<div>theirs</div>');
+    expect((await getPendingIds()).has('clash')).toBe(false);
+  });
+
+  it('uploads the kept side of a resolved conflict and keeps the other as a copy', async () => {
+    await resolveConflict('clash', 'local');
+    await settle();
+
+    expect(server.rows.get('clash')).toMatchObject({ content: '<div>mine</div>', rev: 3 });
+    expect((await loadConflicts()).map((c) => c.id)).not.toContain('clash');
+    expect((await loadRecoveredCopies('clash')).map((copy) => copy.content)).toEqual(['<div>theirs</div>']);
+  });
+});
+
+describe('edits from other tabs', () => {
+  const base = { rev: 1, baseContent: '<div>a</div><div>b</div><div>c</div>' };
+
+  it('merges two tabs saving over the same revision', async () => {
+    await saveLocalChange(entry('tabs', base.baseContent));
+    await settle();
+
+    const release = server.pause();
+    await saveLocalChange(entry('tabs', '<div>a</div><div>b</div><div>C</div>'), base);
+    await saveLocalChange(entry('tabs', '<div>A</div><div>b</div><div>c</div>'), base);
+    release();
+    await settle();
+
+    expect(server.rows.get('tabs')?.content).toBe('<div>A</div><div>b</div><div>C</div>');
+    expect(await loadRecoveredCopies('tabs')).toEqual([]);
+  });
+
+  it('keeps the other tab\'s text as a copy when the edits overlap', async () => {
+    await saveLocalChange(entry('tabs-clash', base.baseContent));
+    await settle();
+
+    const release = server.pause();
+    await saveLocalChange(entry('tabs-clash', '<div>a</div><div>b</div><div>theirs</div>'), base);
+    await saveLocalChange(entry('tabs-clash', '<div>a</div><div>b</div><div>mine</div>'), base);
+    release();
+    await settle();
+
+    expect(server.rows.get('tabs-clash')?.content).toBe('<div>a</div><div>b</div><div>mine</div>');
+    expect((await loadRecoveredCopies('tabs-clash')).map((copy) => copy.content)).toEqual([
+      '<div>a</div><div>b</div><div>theirs</div>',
+    ]);
+  });
+});
@@ -0,0 +1,430 @@
+import { DiaryEntry, EntryConflict } from '../types';
+import { STORES, idbGet, idbGetAll, idbPut, idbDelete } from './db';
+import {
+  pushEntry,
+  isRemoteSyncAvailable,
+  loadEntry,
+  saveEntry,
+  deleteEntry,
+  shouldTakeRemote,
+  loadConflicts,
+  saveConflict,
+  deleteConflict,
+  saveRecoveredCopy,
+  isGuestScope
+} from './storage';
+import { mergeConcurrentEdits, sameAttachments } from './merge';
+import { sameHabits } from './habits';
+import { sameTags } from './tags';
+import { RemoteChange } from './syncBackend';
+import { beginSyncTask, reportSyncSuccess, reportSyncError, setPendingChanges } from './syncStatus';
+import { postToTabs } from './tabs';
+import { sanitizeEntry } from './sanitize';
+import { uploadPendingAttachments } from './attachments';
+
+// Durable queue of remote mutations.
+// Every local change is recorded here first and replayed against the sync backend when
+// the network allows, so edits made offline survive reloads and reach the server.
+// Deletions are tombstone upserts (see utils/tombstones.ts), so every operation is an upsert.
+//
+// Each push is conditional on the server revision the edit was based on. When another
+// device got there first, non-overlapping paragraph edits are merged automatically;
+// anything else becomes an EntryConflict for the user to resolve.
+
+export interface OutboxOperation {
+  id: string;
+  entry: DiaryEntry;
+  seq: number;
+}
+
+type EntryListener = (entry: DiaryEntry) => void;
+type ConflictListener = (conflicts: EntryConflict[]) => void;
+
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+const entryListeners = new Set<EntryListener>();
+const conflictListeners = new Set<ConflictListener>();
+
+let running = false;
+let lastSeq = 0;
+let retryAttempt = 0;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let flushPromise: Promise<void> | null = null;
+
+// Local edits and sync results both rewrite an entry's revision metadata;
+// running them one at a time keeps a fresh edit from being stamped with a stale base.
+let lock: Promise<unknown> = Promise.resolve();
+const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = lock.then(task, task);
+  lock = run.catch(() => undefined);
+  return run;
+};
+
+// Other tabs share the database but not this tab's state, so every change is broadcast too
+const notifyEntry = (entry: DiaryEntry) => {
+  entryListeners.forEach((listener) => listener(entry));
+  postToTabs({ type: 'entries', entries: [entry] });
+};
+
+// Re-reads conflicts for this tab's listeners (e.g. after another tab changed them)
+export const reloadConflicts = async () => {
+  const conflicts = await loadConflicts();
+  conflictListeners.forEach((listener) => listener(conflicts));
+};
+
+const notifyConflicts = async () => {
+  await reloadConflicts();
+  postToTabs({ type: 'conflicts' });
+};
+
+const refreshPendingCount = async () => {
+  const ops = await idbGetAll<OutboxOperation>(STORES.OUTBOX);
+  setPendingChanges(ops.map((op) => op.id));
+  return ops;
+};
+
+// Monotonic even if the clock goes backwards or two edits land in the same millisecond
+const nextSeq = () => {
+  lastSeq = Math.max(lastSeq + 1, Date.now());
+  return lastSeq;
+};
+
+const clearRetry = () => {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+};
+
+const scheduleRetry = () => {
+  clearRetry();
+  const delay = Math.min(RETRY_BASE_MS * 2 ** retryAttempt, RETRY_MAX_MS);
+  // Jitter keeps several devices/tabs from hammering the server in lockstep
+  const jitter = Math.random() * delay * 0.2;
+  retryAttempt++;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushOutbox();
+  }, delay + jitter);
+};
+
+// The server accepted `op` as revision `rev`: record that as the new base,
+// both on the stored entry and on a newer queued edit of the same entry.
+const handlePushed = (op: OutboxOperation, rev: number) => serialized(async () => {
+  const current = await idbGet<OutboxOperation>(STORES.OUTBOX, op.id);
+  if (current && current.seq === op.seq) {
+    await idbDelete(STORES.OUTBOX, op.id);
+  } else if (current) {
+    await idbPut(STORES.OUTBOX, { ...current, entry: { ...current.entry, rev, baseContent: op.entry.content } });
+  }
+
+  const stored = await loadEntry(op.id);
+  if (stored) {
+    const updated = { ...stored, rev, baseContent: op.entry.content };
+    await saveEntry(updated);
+    notifyEntry(updated);
+  }
+});
+
+// Another device wrote first. Merge when possible, otherwise park the conflict.
+const handleConflict = (op: OutboxOperation, remote: DiaryEntry) => serialized(async () => {
+  const current = await idbGet<OutboxOperation>(STORES.OUTBOX, op.id);
+  // A newer local edit is queued; it will hit the same conflict and resolve it with fresher content
+  if (current && current.seq !== op.seq) return;
+
+  const merged = mergeConcurrentEdits(op.entry, remote);
+  if (merged) {
+    await saveEntry(merged);
+    const alreadyOnServer = merged.content === remote.content && merged.title === remote.title
+      && (merged.mood ?? null) === (remote.mood ?? null) && merged.journalId === remote.journalId
+      && sameTags(merged.tags, remote.tags) && sameAttachments(merged.attachments, remote.attachments) && sameHabits(merged.habits, remote.habits)
+      && !merged.deletedAt === !remote.deletedAt;
+    if (alreadyOnServer) {
+      await idbDelete(STORES.OUTBOX, op.id);
+    } else {
+      await idbPut(STORES.OUTBOX, { id: op.id, entry: merged, seq: nextSeq() });
+    }
+    notifyEntry(merged);
+    return;
+  }
+
+  await saveConflict({ id: op.id, local: op.entry, remote, detectedAt: Date.now() });
+  await idbDelete(STORES.OUTBOX, op.id);
+  await notifyConflicts();
+});
+
+const runFlush = async () => {
+  const endTask = beginSyncTask();
+  let pushed = 0;
+  try {
+    // Files first: entries may mention them
+    await uploadPendingAttachments();
+    // Keep draining: operations enqueued mid-flush are picked up by the next pass
+    let ops = (await refreshPendingCount()).sort((a, b) => a.seq - b.seq);
+    while (ops.length > 0) {
+      for (const op of ops) {
+        // Sync may be disabled mid-run; leave the rest queued rather than dropping it
+        if (!running || !isRemoteSyncAvailable()) return;
+
+        const result = await pushEntry(op.entry);
+        if (result.status === 'ok') {
+          await handlePushed(op, result.rev);
+        } else {
+          await handleConflict(op, sanitizeEntry(result.remote));
+        }
+        pushed++;
+      }
+      await uploadPendingAttachments();
+      ops = (await refreshPendingCount()).sort((a, b) => a.seq - b.seq);
+    }
+
+    retryAttempt = 0;
+    if (pushed > 0) reportSyncSuccess();
+  } catch (err: any) {
+    console.error('Outbox flush failed, will retry:', err?.message || err);
+    reportSyncError(err);
+    scheduleRetry();
+  } finally {
+    endTask();
+  }
+};
+
+// Replays pending operations in order. Concurrent calls share the same run.
+export const flushOutbox = (): Promise<void> => {
+  if (!running || !isRemoteSyncAvailable()) return Promise.resolve();
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return Promise.resolve();
+  if (flushPromise) return flushPromise;
+
+  clearRetry();
+  flushPromise = runFlush().finally(() => {
+    flushPromise = null;
+  });
+  return flushPromise;
+};
+
+// Repeated edits to the same entry collapse into a single pending operation
+const enqueue = async (entry: DiaryEntry) => {
+  await idbPut(STORES.OUTBOX, { id: entry.id, entry, seq: nextSeq() });
+  await refreshPendingCount();
+  postToTabs({ type: 'outbox' });
+  flushOutbox();
+};
+
+// Picks up operations another tab queued
+export const reloadOutbox = async () => {
+  await refreshPendingCount();
+  flushOutbox();
+};
+
+// Queues every entry for upload again, unchanged. Used after the encryption key changes,
+// so the server copy is rewritten with the new key (or in plain text when turned off).
+export const requeueAllEntries = () => serialized(async () => {
+  const [entries, pendingIds] = await Promise.all([idbGetAll<DiaryEntry>(STORES.ENTRIES), getPendingIds()]);
+  for (const entry of entries) {
+    // Tombstones carry no content; queued entries are uploaded with the new key anyway
+    if (entry.deletedAt || pendingIds.has(entry.id)) continue;
+    await idbPut(STORES.OUTBOX, { id: entry.id, entry, seq: nextSeq() });
+  }
+  await refreshPendingCount();
+  postToTabs({ type: 'outbox' });
+  flushOutbox();
+});
+
+// Adds entries from elsewhere (the guest diary) to this user's diary and queues them for upload.
+// Where the user already has a different version, the imported one is stored and the
+// account's version becomes the remote side of a conflict, so the user picks one.
+// Entries with unsynced edits here are left alone and the import is kept as a recovered copy.
+export const importEntries = (entries: DiaryEntry[]) => serialized(async () => {
+  const pendingIds = await getPendingIds();
+  let added = 0;
+  let conflicts = 0;
+
+  for (const entry of entries) {
+    if (entry.deletedAt) continue;
+    const stored = await loadEntry(entry.id);
+    const base = { rev: stored?.rev, baseContent: stored?.baseContent };
+
+    if (!stored || stored.deletedAt) {
+      const imported = { ...entry, ...base };
+      await saveEntry(imported);
+      await idbPut(STORES.OUTBOX, { id: entry.id, entry: imported, seq: nextSeq() });
+      notifyEntry(imported);
+      added++;
+    } else if (stored.content === entry.content) {
+      continue;
+    } else if (pendingIds.has(entry.id)) {
+      await saveRecoveredCopy({
+        id: `${entry.id}:${Date.now()}`,
+        entryId: entry.id,
+        date: entry.date,
+        content: entry.content,
+        source: 'local',
+        savedAt: Date.now(),
+      });
+    } else {
+      const imported = { ...entry, ...base };
+      await saveEntry(imported);
+      await saveConflict({ id: entry.id, local: imported, remote: stored, detectedAt: Date.now() });
+      notifyEntry(imported);
+      conflicts++;
+    }
+  }
+
+  await notifyConflicts();
+  await refreshPendingCount();
+  postToTabs({ type: 'outbox' });
+  flushOutbox();
+  return { added, conflicts };
+});
+
+export type EditBase = Pick<DiaryEntry, 'rev' | 'baseContent'>;
+
+// Saves a local edit and queues it for upload. The revision metadata is taken from
+// the stored copy, so callers only need to provide the user-facing fields.
+// Pass `base` when the edit started from an older version than the stored one
+// (e.g. a remote update arrived mid-typing) so the push merges instead of overwriting it.
+export const saveLocalChange = (entry: DiaryEntry, base?: EditBase): Promise<DiaryEntry> => serialized(async () => {
+  const stored = await loadEntry(entry.id);
+  const { rev, baseContent } = base || stored || {};
+  let withBase: DiaryEntry = { ...entry, rev, baseContent };
+
+  // Another tab saved over the same server revision meanwhile. Only one version fits in the
+  // outbox, so the two are merged here; if they overlap, the other tab's text is kept as a copy.
+  const changedInOtherTab = base && stored && !stored.deletedAt
+    && stored.rev === base.rev && stored.content !== base.baseContent;
+  if (changedInOtherTab) {
+    const merged = mergeConcurrentEdits({ ...entry, baseContent: base.baseContent }, stored);
+    if (merged) {
+      withBase = { ...merged, baseContent: stored.baseContent };
+    } else {
+      withBase = { ...entry, rev: stored.rev, baseContent: stored.baseContent };
+      await saveRecoveredCopy({
+        id: `${entry.id}:${Date.now()}`,
+        entryId: entry.id,
+        date: stored.date,
+        content: stored.content,
+        source: 'local',
+        savedAt: Date.now(),
+      });
+    }
+  }
+
+  await saveEntry(withBase);
+  // A guest diary has nowhere to upload to; attaching it to an account imports the entries instead
+  if (!isGuestScope()) await enqueue(withBase);
+  postToTabs({ type: 'entries', entries: [withBase] });
+  return withBase;
+});
+
+// Applies a change pushed by the server (realtime). Returns the entry if it was stored.
+// Entries with queued local edits are left alone: their push detects and resolves the conflict.
+export const applyRemoteChange = (change: RemoteChange): Promise<DiaryEntry | null> => serialized(async () => {
+  if (change.type === 'delete') {
+    // Rows are only hard-deleted once their tombstone expired, so drop ours if it is one
+    const stored = await loadEntry(change.id);
+    if (stored?.deletedAt) await deleteEntry(change.id);
+    return null;
+  }
+
+  const remote = sanitizeEntry(change.entry);
+  const [stored, pendingIds] = await Promise.all([loadEntry(remote.id), getPendingIds()]);
+  if (!shouldTakeRemote(stored, remote, pendingIds)) return null;
+
+  await saveEntry(remote);
+  notifyEntry(remote);
+  return remote;
+});
+
+export const getPendingIds = async (): Promise<Set<string>> => {
+  const ops = await idbGetAll<OutboxOperation>(STORES.OUTBOX);
+  return new Set(ops.map((op) => op.id));
+};
+
+// Applies the user's choice for a conflict. The losing version is kept as a recovered copy.
+export const resolveConflict = (id: string, keep: 'local' | 'remote') => serialized(async () => {
+  const conflict = (await loadConflicts()).find((c) => c.id === id);
+  if (!conflict) return;
+
+  // Prefer whatever is stored now: the user may have kept typing after the conflict was found
+  const local = (await loadEntry(id)) || conflict.local;
+  const { remote } = conflict;
+  const loser = keep === 'local' ? remote : local;
+
+  if (loser.content && !loser.deletedAt) {
+    await saveRecoveredCopy({
+      id: `${id}:${Date.now()}`,
+      entryId: id,
+      date: loser.date,
+      content: loser.content,
+      source: keep === 'local' ? 'remote' : 'local',
+      savedAt: Date.now(),
+    });
+  }
+
+  const rebase = { rev: remote.rev, baseContent: remote.content };
+  if (keep === 'local') {
+    const winner: DiaryEntry = { ...local, ...rebase, updatedAt: Date.now() };
+    await saveEntry(winner);
+    await idbPut(STORES.OUTBOX, { id, entry: winner, seq: nextSeq() });
+    notifyEntry(winner);
+  } else {
+    const winner: DiaryEntry = { ...remote, ...rebase };
+    await saveEntry(winner);
+    await idbDelete(STORES.OUTBOX, id);
+    notifyEntry(winner);
+  }
+
+  await deleteConflict(id);
+  await notifyConflicts();
+  await refreshPendingCount();
+}).then(() => {
+  postToTabs({ type: 'outbox' });
+  flushOutbox();
+});
+
+// Entries rewritten by sync (new revision, merged content, resolved conflicts)
+export const subscribeEntryUpdates = (listener: EntryListener) => {
+  entryListeners.add(listener);
+  return () => {
+    entryListeners.delete(listener);
+  };
+};
+
+export const subscribeConflicts = (listener: ConflictListener) => {
+  conflictListeners.add(listener);
+  loadConflicts()
+    .then(listener)
+    .catch((err) => console.error('Failed to load conflicts', err));
+  return () => {
+    conflictListeners.delete(listener);
+  };
+};
+
+const handleOnline = () => {
+  retryAttempt = 0;
+  flushOutbox();
+};
+
+// Starts replaying for the signed-in session (app start and session restore).
+// Returns a function that pauses replay, e.g. on sign-out.
+export const startOutbox = () => {
+  running = true;
+  window.addEventListener('online', handleOnline);
+
+  refreshPendingCount()
+    .then((ops) => {
+      ops.forEach((op) => {
+        lastSeq = Math.max(lastSeq, op.seq);
+      });
+      return flushOutbox();
+    })
+    .catch((err) => console.error('Failed to read outbox', err));
+
+  return () => {
+    running = false;
+    clearRetry();
+    window.removeEventListener('online', handleOnline);
+    setPendingChanges([]);
+  };
+};
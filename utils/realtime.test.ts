@@ -0,0 +1,103 @@
+// @vitest-environment happy-dom
+import 'fake-indexeddb/auto';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DiaryEntry } from '../types';
+
+vi.mock('./supabaseClient', () => ({ supabase: {}, isSupabaseConfigured: () => false }));
+
+const { setStorageScope, loadEntry, saveEntry } = await import('./storage');
+const { applyRemoteChange, saveLocalChange, subscribeEntryUpdates } = await import('./outbox');
+const { connectRealtime, createLocalEntryChannel } = await import('./realtime');
+
+const entry = (id: string, content: string, rev?: number): DiaryEntry => ({
+  id,
+  date: id,
+  content,
+  tags: [],
+  updatedAt: Date.now(),
+  rev,
+});
+
+// Changes are applied one at a time, so a no-op change resolves once every earlier one is done
+const settle = () => applyRemoteChange({ type: 'delete', id: 'none' });
+
+let updates: DiaryEntry[] = [];
+let resyncs = 0;
+let local: ReturnType<typeof createLocalEntryChannel>;
+let disconnect: () => void;
+let unsubscribe: () => void;
+
+beforeAll(() => setStorageScope('user-1'));
+
+beforeEach(() => {
+  updates = [];
+  resyncs = 0;
+  unsubscribe = subscribeEntryUpdates((updated) => updates.push(updated));
+  local = createLocalEntryChannel();
+  disconnect = connectRealtime(local.channel, () => resyncs++);
+});
+
+afterEach(() => {
+  disconnect();
+  unsubscribe();
+});
+
+describe('realtime', () => {
+  it('stores entries created on another device', async () => {
+    local.emit({ type: 'upsert', entry: entry('2025-03-01', 'from the phone', 1) });
+    await settle();
+
+    expect(await loadEntry('2025-03-01')).toMatchObject({ content: 'from the phone', rev: 1 });
+    expect(updates.map((e) => e.content)).toEqual(['from the phone']);
+  });
+
+  it('takes newer revisions of an entry', async () => {
+    await saveEntry(entry('2025-03-02', 'old', 1));
+    local.emit({ type: 'upsert', entry: entry('2025-03-02', 'new', 2) });
+    await settle();
+
+    expect(await loadEntry('2025-03-02')).toMatchObject({ content: 'new', rev: 2 });
+  });
+
+  it('ignores the echo of our own write', async () => {
+    await saveEntry(entry('2025-03-03', 'mine', 4));
+    local.emit({ type: 'upsert', entry: entry('2025-03-03', 'mine', 4) });
+    local.emit({ type: 'upsert', entry: entry('2025-03-03', 'stale', 3) });
+    await settle();
+
+    expect(await loadEntry('2025-03-03')).toMatchObject({ content: 'mine', rev: 4 });
+    expect(updates).toEqual([]);
+  });
+
+  it('leaves entries with unsent local edits to the outbox', async () => {
+    await saveEntry(entry('2025-03-04', 'synced', 1));
+    await saveLocalChange(entry('2025-03-04', 'typing'));
+    local.emit({ type: 'upsert', entry: entry('2025-03-04', 'remote', 2) });
+    await settle();
+
+    expect(await loadEntry('2025-03-04')).toMatchObject({ content: 'typing', rev: 1 });
+  });
+
+  it('drops tombstones the server purged, but not live entries', async () => {
+    await saveEntry({ ...entry('2025-03-05', '', 2), deletedAt: 1 });
+    await saveEntry(entry('2025-03-06', 'alive', 1));
+    local.emit({ type: 'delete', id: '2025-03-05' });
+    local.emit({ type: 'delete', id: '2025-03-06' });
+    await settle();
+
+    expect(await loadEntry('2025-03-05')).toBeUndefined();
+    expect(await loadEntry('2025-03-06')).toMatchObject({ content: 'alive' });
+  });
+
+  it('asks for a resync after reconnecting and stops after disconnecting', async () => {
+    local.reconnect();
+    expect(resyncs).toBe(1);
+
+    disconnect();
+    local.emit({ type: 'upsert', entry: entry('2025-03-07', 'too late', 1) });
+    local.reconnect();
+    await settle();
+    expect(resyncs).toBe(1);
+    expect(await loadEntry('2025-03-07')).toBeUndefined();
+  });
+});
@@ -0,0 +1,38 @@
+import { applyRemoteChange } from './outbox';
+import { EntryChangeChannel, RemoteChange } from './syncBackend';
+
+// Live updates of entries from other devices.
+// Each SyncBackend provides its own EntryChangeChannel (Supabase Realtime, local storage events);
+// the in-memory stand-in below is for driving the app by hand.
+
+// In-memory stand-in: whatever is passed to `emit` is delivered to subscribers
+export const createLocalEntryChannel = () => {
+  const subscribers = new Set<{ onChange: (change: RemoteChange) => void; onResync: () => void }>();
+
+  const channel: EntryChangeChannel = {
+    subscribe: (onChange, onResync) => {
+      const subscriber = { onChange, onResync };
+      subscribers.add(subscriber);
+      return () => {
+        subscribers.delete(subscriber);
+      };
+    },
+  };
+
+  return {
+    channel,
+    emit: (change: RemoteChange) => subscribers.forEach((s) => s.onChange(change)),
+    reconnect: () => subscribers.forEach((s) => s.onResync()),
+  };
+};
+
+// Feeds channel events into the sync engine; applied entries reach the UI through
+// subscribeEntryUpdates like any other sync result. Returns the unsubscribe function.
+export const connectRealtime = (channel: EntryChangeChannel, onResync: () => void) => {
+  return channel.subscribe(
+    (change) => {
+      applyRemoteChange(change).catch((err) => console.error('Failed to apply realtime change', err));
+    },
+    onResync
+  );
+};
@@ -0,0 +1,59 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { sanitizeEntry, sanitizeHtml } from './sanitize';
+
+describe('sanitizeHtml', () => {
+  it('keeps the editor formatting', () => {
+    const html = '<div><b>bold</b> <i>italic</i> <u>under</u><br></div><p>para</p>';
+    expect(sanitizeHtml(html)).toBe(html);
+  });
+
+  it('drops scripts and the content of dangerous elements', () => {
+    expect(sanitizeHtml('<div>hi<script>alert(1)</script><iframe src="x">frame</iframe></div>')).toBe('<div>hi</div>');
+  });
+
+  it('drops event handlers and other attributes', () => {
+    expect(sanitizeHtml('<div onclick="alert(1)" class="x" id="y">text</div>')).toBe('<div>text</div>');
+  });
+
+  it('unwraps unknown elements and ordinary links', () => {
+    expect(sanitizeHtml('<section>a <a href="javascript:alert(1)">link</a></section>')).toBe('a link');
+  });
+
+  it('keeps only the allowed styles', () => {
+    expect(sanitizeHtml('<span style="font-size: 20px; position: fixed">big</span>'))
+      .toBe('<span style="font-size: 20px;">big</span>');
+    expect(sanitizeHtml('<span style="background-color: url(javascript:x)">x</span>')).toBe('x');
+  });
+
+  it('keeps attachment images by id only', () => {
+    const id = '123e4567-e89b-42d3-a456-426614174000';
+    expect(sanitizeHtml(`<img data-attachment="${id}" src="https://evil.example/x.png" onerror="alert(1)" alt="cat">`))
+      .toBe(`<img data-attachment="${id}" alt="cat">`);
+    expect(sanitizeHtml('<div>a<img src="https://evil.example/x.png"><video src="v"></video></div>')).toBe('<div>a</div>');
+  });
+
+  it('rebuilds date links from the date', () => {
+    const html = sanitizeHtml('<a data-date-link="2025-03-14" href="javascript:alert(1)" onclick="x">anything</a>');
+    expect(html).toContain('data-date-link="2025-03-14"');
+    expect(html).toContain('contenteditable="false"');
+    expect(html).not.toContain('href');
+    expect(html).not.toContain('anything');
+    expect(sanitizeHtml('<a data-date-link="not a date">text</a>')).toBe('text');
+  });
+});
+
+describe('sanitizeEntry', () => {
+  it('cleans the content and the merge base', () => {
+    const entry = sanitizeEntry({
+      id: 'a',
+      date: '2025-03-14',
+      content: '<div>x<script>1</script></div>',
+      baseContent: '<div onclick="1">y</div>',
+      tags: [],
+      updatedAt: 1,
+    });
+    expect(entry.content).toBe('<div>x</div>');
+    expect(entry.baseContent).toBe('<div>y</div>');
+  });
+});
@@ -0,0 +1,98 @@
+import { DiaryEntry } from '../types';
+import { createDateLink, isDateKey } from './dateLinks';
+
+// Allowlist sanitizer for entry HTML.
+// Entry content ends up in the editor's innerHTML, and it can come from another device, the
+// clipboard or an import, so anything it carries besides GrayNote's own formatting is dropped:
+// line structure (div, p, br), bold/italic/underline, spans with a font size or highlight,
+// images of the entry's own attachments and links to other days.
+
+// Kept as they are (minus attributes other than an allowed style)
+const ALLOWED_TAGS = new Set(['B', 'STRONG', 'I', 'EM', 'U', 'SPAN', 'DIV', 'P', 'BR']);
+
+// Removed together with everything inside them. Other tags are unwrapped: their text stays.
+const DROPPED_TAGS = new Set([
+  'SCRIPT', 'STYLE', 'TEMPLATE', 'NOSCRIPT', 'IFRAME', 'FRAME', 'OBJECT', 'EMBED', 'APPLET',
+  'SVG', 'MATH', 'IMG', 'PICTURE', 'VIDEO', 'AUDIO', 'SOURCE', 'TRACK', 'CANVAS',
+  'LINK', 'META', 'BASE', 'TITLE', 'HEAD', 'FORM', 'INPUT', 'TEXTAREA', 'SELECT', 'BUTTON',
+]);
+
+// Attachment images refer to a stored file by id; their src is filled in on display
+// (see showAttachmentImages) and never kept in the content
+const ATTACHMENT_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Inline styles the toolbar produces, with the values it may use
+const ALLOWED_STYLES: Record<string, RegExp> = {
+  'font-size': /^\d+(\.\d+)?(px|pt|em|rem|%)$/,
+  'background-color': /^(#[0-9a-f]{3,8}|rgba?\(\s*[\d.]+%?(\s*,\s*[\d.]+%?){2,3}\s*\)|[a-z]+)$/i,
+};
+
+const cleanStyle = (source: HTMLElement, target: HTMLElement) => {
+  Object.entries(ALLOWED_STYLES).forEach(([property, pattern]) => {
+    const value = source.style.getPropertyValue(property).trim();
+    if (value && pattern.test(value)) target.style.setProperty(property, value);
+  });
+};
+
+const cleanNodes = (nodes: NodeListOf<ChildNode>, parent: Node) => {
+  nodes.forEach((node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      parent.appendChild(document.createTextNode(node.textContent || ''));
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return; // Comments, processing instructions
+
+    const element = node as HTMLElement;
+    const tag = element.tagName.toUpperCase();
+    if (tag === 'IMG') {
+      const id = element.getAttribute('data-attachment');
+      if (!id || !ATTACHMENT_ID.test(id)) return;
+      const image = document.createElement('img');
+      image.setAttribute('data-attachment', id);
+      image.setAttribute('alt', element.getAttribute('alt') || '');
+      parent.appendChild(image);
+      return;
+    }
+    // Rebuilt from the date alone; any other link is unwrapped below
+    if (tag === 'A') {
+      const date = element.getAttribute('data-date-link');
+      if (date && isDateKey(date)) {
+        parent.appendChild(createDateLink(date));
+        return;
+      }
+    }
+    if (DROPPED_TAGS.has(tag)) return;
+    if (!ALLOWED_TAGS.has(tag)) {
+      cleanNodes(element.childNodes, parent);
+      return;
+    }
+
+    const copy = document.createElement(tag.toLowerCase());
+    cleanStyle(element, copy);
+    // A span is only there for its style
+    if (tag === 'SPAN' && !copy.getAttribute('style')) {
+      cleanNodes(element.childNodes, parent);
+      return;
+    }
+    cleanNodes(element.childNodes, copy);
+    parent.appendChild(copy);
+  });
+};
+
+export const sanitizeHtml = (html: string): string => {
+  if (!html) return '';
+  // Template content is inert: nothing in it loads or runs while it is parsed
+  const source = document.createElement('template');
+  source.innerHTML = html;
+  const output = document.createElement('template');
+  cleanNodes(source.content.childNodes, output.content);
+  return output.innerHTML;
+};
+
+// For entries arriving from outside this device. baseContent mirrors the server copy,
+// so it is cleaned the same way to keep later merges consistent.
+export const sanitizeEntry = (entry: DiaryEntry): DiaryEntry => ({
+  ...entry,
+  content: sanitizeHtml(entry.content),
+  baseContent: entry.baseContent === undefined ? undefined : sanitizeHtml(entry.baseContent),
+});
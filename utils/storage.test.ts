@@ -0,0 +1,186 @@
+// @vitest-environment happy-dom
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DiaryEntry } from '../types';
+
+vi.mock('./supabaseClient', () => ({ supabase: {}, isSupabaseConfigured: () => false }));
+// The in-browser local backend plays the server
+vi.stubEnv('VITE_SYNC_BACKEND', 'local');
+
+const {
+  setStorageScope,
+  clearLocalData,
+  loadEntries,
+  saveEntry,
+  saveEntries,
+  deleteEntry,
+  pullRemoteChanges,
+  DEFAULT_SETTINGS,
+  loadSettings,
+  saveSettings,
+  pushSettings,
+  pullRemoteSettings,
+} = await import('./storage');
+const { getSyncBackend } = await import('./backends');
+const { getPendingIds } = await import('./outbox');
+
+const entry = (date: string, content: string): DiaryEntry => ({ id: date, date, content, tags: [], updatedAt: 1 });
+
+beforeEach(async () => {
+  localStorage.clear();
+  await clearLocalData('user-1');
+  setStorageScope('user-1');
+});
+
+describe('entry storage', () => {
+  it('moves entries from the old localStorage blob into IndexedDB and queues them for upload', async () => {
+    const legacy = { '2025-03-14': entry('2025-03-14', 'old'), '2025-03-15': entry('2025-03-15', 'older') };
+    localStorage.setItem('zenjournal_entries', JSON.stringify(legacy));
+
+    expect(await loadEntries()).toEqual(legacy);
+    expect(localStorage.getItem('zenjournal_entries')).toBeNull();
+    expect(await loadEntries()).toEqual(legacy);
+    expect(await getPendingIds()).toEqual(new Set(['2025-03-14', '2025-03-15']));
+  });
+
+  it('keeps a corrupted blob instead of losing it', async () => {
+    localStorage.setItem('zenjournal_entries', '{not json');
+    expect(await loadEntries()).toEqual({});
+    expect(localStorage.getItem('zenjournal_entries')).toBe('{not json');
+  });
+
+  it('writes and deletes single entries', async () => {
+    await saveEntries([entry('2025-03-14', 'a'), entry('2025-03-15', 'b')]);
+    await saveEntry(entry('2025-03-14', 'changed'));
+    await deleteEntry('2025-03-15');
+
+    expect(await loadEntries()).toEqual({ '2025-03-14': entry('2025-03-14', 'changed') });
+  });
+
+  it('keeps each user\'s entries apart', async () => {
+    await saveEntry(entry('2025-03-14', 'mine'));
+    setStorageScope('user-2');
+    expect(await loadEntries()).toEqual({});
+    await saveEntry(entry('2025-03-14', 'theirs'));
+
+    setStorageScope('user-1');
+    expect(await loadEntries()).toEqual({ '2025-03-14': entry('2025-03-14', 'mine') });
+  });
+
+  it('forgets everything kept for a user when their local data is cleared', async () => {
+    await saveEntry(entry('2025-03-14', 'mine'));
+    await clearLocalData('user-1');
+
+    setStorageScope('user-1');
+    expect(await loadEntries()).toEqual({});
+  });
+});
+
+describe('incremental sync', () => {
+  const server = getSyncBackend();
+  const ids = (entries: DiaryEntry[]) => entries.map((e) => e.id);
+
+  it('only fetches what changed since the last pull', async () => {
+    await server.upsert('user-1', entry('2025-03-14', 'one'));
+    expect(ids(await pullRemoteChanges())).toEqual(['2025-03-14']);
+    expect(await pullRemoteChanges()).toEqual([]);
+
+    await server.upsert('user-1', entry('2025-03-15', 'two'));
+    expect(ids(await pullRemoteChanges())).toEqual(['2025-03-15']);
+    expect(Object.keys(await loadEntries()).sort()).toEqual(['2025-03-14', '2025-03-15']);
+  });
+
+  it('leaves entries with unsent local edits alone', async () => {
+    await saveEntry({ ...entry('2025-03-14', 'local'), rev: 1 });
+    await server.upsert('user-1', entry('2025-03-14', 'remote'));
+    await server.upsert('user-1', { ...entry('2025-03-14', 'remote again'), rev: 1 });
+
+    expect(await pullRemoteChanges(new Set(['2025-03-14']))).toEqual([]);
+    expect((await loadEntries())['2025-03-14'].content).toBe('local');
+  });
+
+  it('reads a long backlog page by page', async () => {
+    for (let day = 0; day < 501; day++) {
+      await server.upsert('user-1', entry(`day-${day}`, 'text'));
+    }
+    const pages: number[] = [];
+
+    const applied = await pullRemoteChanges(new Set(), (page) => pages.push(page.length));
+    expect(applied).toHaveLength(501);
+    expect(pages).toEqual([500, 1]);
+  });
+
+  it('starts over after the local cache is cleared', async () => {
+    await server.upsert('user-1', entry('2025-03-14', 'one'));
+    await pullRemoteChanges();
+
+    await clearLocalData('user-1');
+    setStorageScope('user-1');
+    expect(ids(await pullRemoteChanges())).toEqual(['2025-03-14']);
+  });
+});
+
+describe('settings sync', () => {
+  const server = getSyncBackend();
+
+  // Uploads are pushed explicitly; the debounced one must not fire into a later test
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+  });
+  afterEach(() => {
+    vi.clearAllTimers();
+    vi.useRealTimers();
+  });
+
+  it('reads settings saved before they were versioned', () => {
+    localStorage.setItem('zenjournal_settings', JSON.stringify({ darkMode: true }));
+    expect(loadSettings()).toEqual({ ...DEFAULT_SETTINGS, darkMode: true });
+  });
+
+  it('skips stored values of the wrong type', () => {
+    localStorage.setItem('zenjournal_settings', JSON.stringify({ darkMode: 'yes', editorFontSize: 18, deviceOnly: 'all' }));
+    expect(loadSettings()).toEqual({ ...DEFAULT_SETTINGS, editorFontSize: 18 });
+  });
+
+  it('uploads synced values but keeps device-only ones here', async () => {
+    saveSettings({ ...DEFAULT_SETTINGS, darkMode: true, editorFontSize: 20 });
+    await pushSettings();
+
+    const remote = await server.loadSettings('user-1');
+    expect(remote?.values.darkMode).toBe(true);
+    expect(remote?.values).not.toHaveProperty('editorFontSize');
+    expect(remote?.values).not.toHaveProperty('deviceOnly');
+  });
+
+  it('takes newer account settings without touching device-only values', async () => {
+    saveSettings({ ...DEFAULT_SETTINGS, editorFont: 'serif', editorFontSize: 20 });
+    await server.saveSettings('user-1', {
+      version: 1,
+      values: { darkMode: true, editorFont: 'mono', editorFontSize: 30 },
+      updatedAt: Date.now() + 1000,
+    });
+
+    const applied = await pullRemoteSettings();
+    expect(applied).toMatchObject({ darkMode: true, editorFont: 'mono', editorFontSize: 20 });
+    expect(loadSettings()).toEqual(applied);
+  });
+
+  it('keeps a more recent change made on this device and uploads it', async () => {
+    await server.saveSettings('user-1', { version: 1, values: { darkMode: true }, updatedAt: 1 });
+    saveSettings({ ...DEFAULT_SETTINGS, darkMode: false, editorFont: 'serif' });
+
+    expect(await pullRemoteSettings()).toBeNull();
+    expect(loadSettings().darkMode).toBe(false);
+    expect((await server.loadSettings('user-1'))?.values).toMatchObject({ darkMode: false, editorFont: 'serif' });
+  });
+
+  it('never overwrites settings written by a newer app version', async () => {
+    const newer = { version: 99, values: { darkMode: true, futureOption: 'on' } as any, updatedAt: Date.now() + 1000 };
+    await server.saveSettings('user-1', newer);
+
+    expect(await pullRemoteSettings()).toMatchObject({ darkMode: true });
+    saveSettings({ ...loadSettings(), darkMode: false });
+    await pushSettings();
+    expect(await server.loadSettings('user-1')).toEqual(newer);
+  });
+});
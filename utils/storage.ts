@@ -1,150 +1,522 @@
-import { DiaryEntry, AppSettings } from '../types';
-import { supabase, isSupabaseConfigured } from './supabaseClient';
+import { DiaryEntry, AppSettings, EntryConflict, RecoveredCopy, EntryRevision } from '../types';
+import { getSyncBackend } from './backends';
+import { PushResult, SyncCursor, SyncSetupError } from './syncBackend';
+import { DEFAULT_JOURNAL } from './journals';
+import { DEFAULT_TEMPLATES, DEFAULT_PROMPTS } from './templates';
+import {
+  beginSyncTask,
+  reportSyncSuccess,
+  reportSyncError,
+  reportSyncDisabled,
+  setSyncStatusScope,
+  forgetLastSync
+} from './syncStatus';
+import {
+  STORES,
+  idbGet,
+  idbGetAll,
+  idbPut,
+  idbPutMany,
+  idbDelete,
+  isQuotaExceededError,
+  setDatabaseScope,
+  deleteScopedDatabase
+} from './db';
+import { setEncryptionScope } from './encryption';
+import { removeAppLock } from './appLock';
+import { sanitizeEntry, sanitizeHtml } from './sanitize';
 
 const STORAGE_KEYS = {
-  ENTRIES: 'zenjournal_entries',
+  LEGACY_ENTRIES: 'zenjournal_entries',
   SETTINGS: 'zenjournal_settings',
 };
 
 // State to track if remote sync is broken (e.g. missing table) to avoid spamming errors
 let isRemoteSyncDisabled = false;
 
+// Signed-in user whose data the helpers below read and write
+let currentUserId: string | null = null;
+
+// --- Scope ---
+
+// Partition used without an account (see utils/guest.ts). It never talks to the server.
+export const GUEST_SCOPE = 'guest';
+
+const GUEST_SYNC_REASON = 'You are using GrayNote without an account. Sign in to back up your diary and use it on other devices.';
+
+export const isGuestScope = () => currentUserId === GUEST_SCOPE;
+
+// Points local storage at the given user's partition and tags remote writes with their id.
+// Must run before anything else touches storage for a new session.
+export const setStorageScope = (userId: string | null) => {
+  const wasGuest = isGuestScope();
+  currentUserId = userId;
+  setDatabaseScope(userId);
+  setSyncStatusScope(userId);
+  setEncryptionScope(isGuestScope() ? null : userId);
+  if (isGuestScope()) reportSyncDisabled(GUEST_SYNC_REASON);
+  else if (wasGuest && !isRemoteSyncDisabled) reportSyncDisabled(null);
+};
+
+// Removes everything this device keeps for the user (entries, pending changes, settings)
+export const clearLocalData = async (userId: string) => {
+  if (currentUserId === userId) currentUserId = null;
+  await deleteScopedDatabase(userId);
+  localStorage.removeItem(`${STORAGE_KEYS.SETTINGS}:${userId}`);
+  forgetLastSync(userId);
+  removeAppLock(userId);
+};
+
 // --- Local Storage Helpers ---
 
-export const saveEntries = (entries: Record<string, DiaryEntry>) => {
+// Turns low-level storage failures into a message that can be shown to the user
+export const describeStorageError = (error: unknown): string => {
+  if (isQuotaExceededError(error)) {
+    return 'Your device is out of storage space for GrayNote. Recent changes could not be saved locally — free up space or export your entries.';
+  }
+  return 'Could not save your entry on this device. Your latest changes may be lost if you close the app.';
+};
+
+// One-time migration: older versions kept every entry in a single localStorage key.
+// The key is only removed once all entries are safely in IndexedDB. The entries never reached
+// the server either, so they are queued for upload (see utils/outbox.ts), ahead of any newer edit.
+const migrateLegacyEntries = async () => {
+  const data = localStorage.getItem(STORAGE_KEYS.LEGACY_ENTRIES);
+  if (!data) return;
+
+  let legacyEntries: Record<string, DiaryEntry>;
   try {
-    localStorage.setItem(STORAGE_KEYS.ENTRIES, JSON.stringify(entries));
+    legacyEntries = JSON.parse(data);
   } catch (error) {
-    console.error('Failed to save entries', error);
+    console.error('Legacy entries are corrupted, skipping migration', error);
+    return;
+  }
+
+  const entries = Object.values(legacyEntries);
+  await idbPutMany(STORES.ENTRIES, entries);
+  if (!isGuestScope()) {
+    await idbPutMany(STORES.OUTBOX, entries.map((entry, index) => ({ id: entry.id, entry, seq: index + 1 })));
   }
+  localStorage.removeItem(STORAGE_KEYS.LEGACY_ENTRIES);
 };
 
-export const loadEntries = (): Record<string, DiaryEntry> => {
+export const loadEntries = async (): Promise<Record<string, DiaryEntry>> => {
+  try {
+    await migrateLegacyEntries();
+  } catch (error) {
+    console.error('Failed to migrate legacy entries', error);
+  }
+
   try {
-    const data = localStorage.getItem(STORAGE_KEYS.ENTRIES);
-    return data ? JSON.parse(data) : {};
+    const rows = await idbGetAll<DiaryEntry>(STORES.ENTRIES);
+    const entries: Record<string, DiaryEntry> = {};
+    // Rows saved before sanitizing existed may still carry foreign markup
+    rows.forEach((entry) => {
+      entries[entry.id] = sanitizeEntry(entry);
+    });
+    return entries;
   } catch (error) {
     console.error('Failed to load entries', error);
     return {};
   }
 };
 
-export const saveSettings = (settings: AppSettings) => {
+// Writes are per entry so an autosave never rewrites the whole diary.
+// Errors are rethrown so the caller can tell the user (see describeStorageError).
+export const saveEntry = async (entry: DiaryEntry) => {
+  await idbPut(STORES.ENTRIES, entry);
+};
+
+export const saveEntries = async (entries: DiaryEntry[]) => {
+  await idbPutMany(STORES.ENTRIES, entries);
+};
+
+export const deleteEntry = async (id: string) => {
+  await idbDelete(STORES.ENTRIES, id);
+};
+
+export const loadEntry = (id: string): Promise<DiaryEntry | undefined> => {
+  return idbGet<DiaryEntry>(STORES.ENTRIES, id);
+};
+
+// --- Conflicts & recovered copies ---
+
+export const loadConflicts = (): Promise<EntryConflict[]> => idbGetAll<EntryConflict>(STORES.CONFLICTS);
+
+export const saveConflict = (conflict: EntryConflict) => idbPut(STORES.CONFLICTS, conflict);
+
+export const deleteConflict = (id: string) => idbDelete(STORES.CONFLICTS, id);
+
+export const loadRecoveredCopies = async (entryId: string): Promise<RecoveredCopy[]> => {
+  const copies = await idbGetAll<RecoveredCopy>(STORES.RECOVERED_COPIES);
+  return copies
+    .filter((copy) => copy.entryId === entryId)
+    .sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export const saveRecoveredCopy = (copy: RecoveredCopy) => idbPut(STORES.RECOVERED_COPIES, copy);
+
+export const deleteRecoveredCopy = (id: string) => idbDelete(STORES.RECOVERED_COPIES, id);
+
+// --- Revision history ---
+
+// Newest first
+export const loadRevisions = async (entryId: string): Promise<EntryRevision[]> => {
+  const revisions = await idbGetAll<EntryRevision>(STORES.REVISIONS);
+  return revisions
+    .filter((revision) => revision.entryId === entryId)
+    .sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export const loadAllRevisions = () => idbGetAll<EntryRevision>(STORES.REVISIONS);
+
+export const saveRevisions = (revisions: EntryRevision[]) => idbPutMany(STORES.REVISIONS, revisions);
+
+export const deleteRevision = (id: string) => idbDelete(STORES.REVISIONS, id);
+
+// --- Settings ---
+// Settings are kept per user in a versioned document that also syncs to the account.
+// Keys listed in `deviceOnly` never leave this device (e.g. a smaller font on the phone).
+// The unscoped key holds the last used values so the sign-in screen opens in the same theme.
+
+// Bump when a setting is renamed or changes meaning, and convert the old value in readSettingsValues
+export const SETTINGS_VERSION = 1;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  darkMode: false,
+  editorFont: 'inter',
+  editorFontSize: 16,
+  editorColor: '#111827',
+  sidebarOpen: true,
+  syncHistory: false,
+  moodScale: [
+    { emoji: '😞', label: 'Awful' },
+    { emoji: '🙁', label: 'Bad' },
+    { emoji: '😐', label: 'Okay' },
+    { emoji: '🙂', label: 'Good' },
+    { emoji: '😄', label: 'Great' },
+  ],
+  journals: [DEFAULT_JOURNAL],
+  templates: DEFAULT_TEMPLATES,
+  prompts: DEFAULT_PROMPTS,
+  habits: [],
+  deviceOnly: ['editorFontSize', 'sidebarOpen'],
+};
+
+interface SettingsDocument {
+  version: number;
+  values: AppSettings;
+  updatedAt: number; // Last change to a synced value
+  dirty: boolean; // Synced values changed here and have not been uploaded yet
+}
+
+const SETTINGS_PUSH_DELAY_MS = 1500;
+
+let settingsPushTimer: ReturnType<typeof setTimeout> | null = null;
+// An account written by a newer app version is only read, so its unknown fields survive
+let remoteSettingsAreNewer = false;
+
+// The known settings in stored or synced values, skipping any whose type doesn't match the
+// default's. The unversioned blob saved before settings synced has the same fields as version 1.
+const readSettingsValues = (values: unknown): Partial<AppSettings> => {
+  const settings: Partial<AppSettings> = {};
+  if (!values || typeof values !== 'object' || Array.isArray(values)) return settings;
+  const source = values as Record<string, unknown>;
+  (Object.keys(DEFAULT_SETTINGS) as (keyof AppSettings)[]).forEach((key) => {
+    const value = source[key];
+    const expected = DEFAULT_SETTINGS[key];
+    if (Array.isArray(expected) ? Array.isArray(value) : typeof value === typeof expected) {
+      assignSetting(settings, source as Partial<AppSettings>, key);
+    }
+  });
+  return settings;
+};
+
+const assignSetting = <K extends keyof AppSettings>(target: Partial<AppSettings>, source: Partial<AppSettings>, key: K) => {
+  target[key] = source[key];
+};
+
+const readSettingsDocument = (): SettingsDocument | null => {
   try {
-    localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settings));
+    const scoped = currentUserId && localStorage.getItem(`${STORAGE_KEYS.SETTINGS}:${currentUserId}`);
+    const data = scoped || localStorage.getItem(STORAGE_KEYS.SETTINGS);
+    if (!data) return null;
+
+    const parsed = JSON.parse(data);
+    const isDocument = typeof parsed.version === 'number' && parsed.values;
+    return {
+      version: SETTINGS_VERSION,
+      values: { ...DEFAULT_SETTINGS, ...readSettingsValues(isDocument ? parsed.values : parsed) },
+      // Values inherited from the unscoped key or the old format never win over the account's
+      updatedAt: scoped && isDocument ? parsed.updatedAt || 0 : 0,
+      dirty: scoped && isDocument ? !!parsed.dirty : false,
+    };
   } catch (error) {
-    console.error('Failed to save settings', error);
+    return null;
   }
 };
 
-export const loadSettings = (): AppSettings => {
-  const defaults: AppSettings = {
-    darkMode: false,
-    editorFont: 'inter',
-    editorFontSize: 16,
-    editorColor: '#111827',
-    sidebarOpen: true,
-  };
-  
+const writeSettingsDocument = (doc: SettingsDocument) => {
+  localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(doc.values));
+  if (currentUserId) {
+    localStorage.setItem(`${STORAGE_KEYS.SETTINGS}:${currentUserId}`, JSON.stringify(doc));
+  }
+};
+
+const syncedValues = (values: AppSettings): Partial<AppSettings> => {
+  const synced: Partial<AppSettings> = { ...values };
+  values.deviceOnly.forEach((key) => delete synced[key]);
+  delete synced.deviceOnly;
+  return synced;
+};
+
+const scheduleSettingsPush = () => {
+  if (settingsPushTimer) clearTimeout(settingsPushTimer);
+  settingsPushTimer = setTimeout(() => {
+    settingsPushTimer = null;
+    pushSettings();
+  }, SETTINGS_PUSH_DELAY_MS);
+};
+
+export const saveSettings = (settings: AppSettings) => {
   try {
-    const data = localStorage.getItem(STORAGE_KEYS.SETTINGS);
-    return data ? { ...defaults, ...JSON.parse(data) } : defaults;
+    const previous = readSettingsDocument();
+    const before = JSON.stringify(syncedValues(previous?.values || DEFAULT_SETTINGS));
+    const changed = JSON.stringify(syncedValues(settings)) !== before;
+
+    writeSettingsDocument({
+      version: SETTINGS_VERSION,
+      values: settings,
+      updatedAt: changed ? Date.now() : previous?.updatedAt || 0,
+      dirty: changed || !!previous?.dirty,
+    });
+    if (changed) scheduleSettingsPush();
   } catch (error) {
-    return defaults;
+    console.error('Failed to save settings', error);
   }
 };
 
-// --- Supabase Sync Helpers ---
+export const loadSettings = (): AppSettings => {
+  return readSettingsDocument()?.values || DEFAULT_SETTINGS;
+};
+
+// --- Remote Sync Helpers ---
+// Delegam ao backend configurado (utils/backends.ts): Supabase ou o servidor local.
 
-// Mapeia do formato do Supabase (snake_case) para o App (camelCase)
-const mapFromSupabase = (data: any[]): Record<string, DiaryEntry> => {
-  const entries: Record<string, DiaryEntry> = {};
-  data.forEach((row) => {
-    entries[row.id] = {
-      id: row.id,
-      date: row.date,
-      content: row.content,
-      tags: row.tags || [],
-      updatedAt: row.updated_at || Date.now()
-    };
-  });
-  return entries;
+const disableRemoteSync = (error: SyncSetupError) => {
+  console.warn(`⚠️ ${error.message} Disabling sync.`);
+  isRemoteSyncDisabled = true;
+  reportSyncDisabled(`${error.message} Your entries are only saved on this device until the server is set up.`);
 };
 
-// Sincroniza dados remotos com dados locais (estratégia: o mais recente vence)
-export const fetchAndMergeEntries = async (localEntries: Record<string, DiaryEntry>): Promise<Record<string, DiaryEntry>> => {
-  // Guard Clause: If not configured or disabled, skip remote fetch entirely
-  if (!isSupabaseConfigured() || isRemoteSyncDisabled) return localEntries;
+// Liga a sincronização de novo (ex.: depois de o usuário corrigir o servidor e pedir para tentar outra vez)
+export const enableRemoteSync = () => {
+  isRemoteSyncDisabled = false;
+  reportSyncDisabled(null);
+};
 
-  try {
-    const { data, error } = await supabase.from('entries').select('*');
-    
-    if (error) {
-      // Handle "Table not found" specifically to stop further attempts
-      if (error.message.includes('Could not find the table') || error.code === '42P01') {
-        console.warn('⚠️ SUPABASE SETUP REQUIRED: The table "entries" was not found. Disabling sync.');
-        isRemoteSyncDisabled = true; 
-        return localEntries;
-      }
-      
-      console.error('Supabase fetch error:', error.message || error);
-      return localEntries;
-    }
+// Decide se a cópia remota deve substituir a local.
+// Entradas com edição pendente ficam como estão: o outbox detecta o conflito ao enviar.
+export const shouldTakeRemote = (local: DiaryEntry | undefined, remote: DiaryEntry, pendingIds: Set<string>) => {
+  if (!local) return true;
+  if (pendingIds.has(local.id)) return false;
+  // Entradas anteriores ao controle de revisões: cai no critério antigo (o mais recente vence)
+  if (local.rev === undefined) return remote.updatedAt > local.updatedAt;
+  // Ecos das nossas próprias gravações chegam com a mesma revisão e são ignorados
+  return (remote.rev ?? 0) > local.rev;
+};
+
+const SYNC_PAGE_SIZE = 500;
+const SYNC_CURSOR_KEY = 'syncCursor';
+
+// O cursor fica no banco do usuário: se o cache local for apagado, a próxima sincronização recomeça do zero
+const loadSyncCursor = async () => (await idbGet<SyncCursor>(STORES.META, SYNC_CURSOR_KEY)) ?? null;
+
+const saveSyncCursor = (cursor: SyncCursor) => idbPut(STORES.META, cursor, SYNC_CURSOR_KEY);
 
-    if (!data || data.length === 0) return localEntries;
+// Busca apenas o que mudou no servidor desde o último cursor, em páginas, e grava cada página
+// no armazenamento local antes de avançar o cursor. A decisão por entrada usa a revisão do servidor,
+// não o relógio do aparelho; tombstones seguem a mesma regra.
+// `onApplied` recebe as entradas gravadas de cada página. Devolve todas as entradas aplicadas.
+export const pullRemoteChanges = async (
+  pendingIds: Set<string> = new Set(),
+  onApplied?: (entries: DiaryEntry[]) => void
+): Promise<DiaryEntry[]> => {
+  // Guard Clause: If disabled or signed out, skip remote fetch entirely
+  if (!isRemoteSyncAvailable() || !currentUserId) return [];
 
-    const remoteEntries = mapFromSupabase(data);
-    const merged = { ...localEntries };
+  const userId = currentUserId;
+  const backend = getSyncBackend();
+  const applied: DiaryEntry[] = [];
+  const endTask = beginSyncTask();
 
-    Object.values(remoteEntries).forEach(remoteEntry => {
-      const localEntry = merged[remoteEntry.id];
-      // Se não existe local ou se o remoto é mais novo, atualiza
-      if (!localEntry || remoteEntry.updatedAt > localEntry.updatedAt) {
-        merged[remoteEntry.id] = remoteEntry;
+  try {
+    let cursor = await loadSyncCursor();
+    while (currentUserId === userId) {
+      const page = await backend.changesSince(userId, cursor, SYNC_PAGE_SIZE);
+      if (!page.cursor) break;
+
+      const incoming = page.entries.map(sanitizeEntry);
+      const stored = await Promise.all(incoming.map((entry) => loadEntry(entry.id)));
+      const changed = incoming.filter((entry, i) => shouldTakeRemote(stored[i], entry, pendingIds));
+      if (changed.length > 0) {
+        await saveEntries(changed);
+        applied.push(...changed);
+        onApplied?.(changed);
       }
-    });
 
-    return merged;
+      cursor = page.cursor;
+      await saveSyncCursor(cursor);
+      if (page.entries.length < SYNC_PAGE_SIZE) break;
+    }
+    if (currentUserId === userId) reportSyncSuccess();
   } catch (err: any) {
-    // Only log critical errors if we expected it to work
-    if (isSupabaseConfigured()) {
-       console.error('Sync failed:', err?.message || err);
+    if (err instanceof SyncSetupError) {
+      disableRemoteSync(err);
+    } else {
+      console.error('Sync failed:', err?.message || err);
+      reportSyncError(err);
     }
-    return localEntries;
+  } finally {
+    endTask();
   }
+
+  return applied;
 };
 
-// Salva uma entrada individual no Supabase
-export const upsertEntryToSupabase = async (entry: DiaryEntry) => {
-  if (!isSupabaseConfigured() || isRemoteSyncDisabled) return;
+export const isRemoteSyncAvailable = () => !isRemoteSyncDisabled && !!currentUserId && !isGuestScope();
+
+// Envia uma entrada ao servidor somente se ele ainda estiver na revisão em que
+// a edição local se baseou (controle otimista). Caso contrário devolve a cópia remota.
+// Falhas são relançadas para que o outbox (utils/outbox.ts) possa tentar de novo.
+export const pushEntry = async (entry: DiaryEntry): Promise<PushResult> => {
+  if (!isRemoteSyncAvailable() || !currentUserId) throw new Error('Remote sync is not available');
 
   try {
-    const payload = {
-      id: entry.id,
-      date: entry.date,
-      content: entry.content,
-      tags: entry.tags,
-      updated_at: entry.updatedAt
-    };
+    return await getSyncBackend().upsert(currentUserId, entry);
+  } catch (err) {
+    if (err instanceof SyncSetupError) disableRemoteSync(err);
+    throw err;
+  }
+};
+
+// Remove definitivamente tombstones antigos do servidor (ver utils/tombstones.ts)
+export const purgeRemoteTombstones = async (cutoff: number) => {
+  if (!isRemoteSyncAvailable() || !currentUserId) return;
+  await getSyncBackend().deleteTombstones(currentUserId, cutoff);
+};
 
-    const { error } = await supabase.from('entries').upsert(payload);
-    if (error) throw error;
+// Histórico de revisões no servidor: só usado quando o usuário ativa a sincronização do histórico.
+// Falhas não são críticas (a cópia local continua valendo), então são apenas registradas.
+export const pushRevisions = async (revisions: EntryRevision[], removedIds: string[] = []) => {
+  if (!isRemoteSyncAvailable() || !currentUserId) return;
+  try {
+    const backend = getSyncBackend();
+    if (revisions.length > 0) await backend.upsertRevisions(currentUserId, revisions);
+    if (removedIds.length > 0) await backend.deleteRevisions(currentUserId, removedIds);
   } catch (err: any) {
-    if (!isRemoteSyncDisabled) {
-       console.error('Failed to save to Supabase:', err?.message || err);
-    }
+    console.error('Failed to sync revision history:', err?.message || err);
+  }
+};
+
+export const fetchRemoteRevisions = async (entryId: string): Promise<EntryRevision[]> => {
+  if (!isRemoteSyncAvailable() || !currentUserId) return [];
+  try {
+    const revisions = await getSyncBackend().listRevisions(currentUserId, entryId);
+    return revisions.map((revision) => ({ ...revision, content: sanitizeHtml(revision.content) }));
+  } catch (err: any) {
+    console.error('Failed to fetch revision history:', err?.message || err);
+    return [];
+  }
+};
+
+// Arquivos anexados, guardados no servidor à parte das entradas (ver utils/attachments.ts).
+// Falhas são relançadas para que a fila de anexos tente de novo no próximo envio.
+export const pushAttachment = async (id: string, file: Blob) => {
+  if (!isRemoteSyncAvailable() || !currentUserId) throw new Error('Remote sync is not available');
+  try {
+    await getSyncBackend().uploadAttachment(currentUserId, id, file);
+  } catch (err) {
+    if (err instanceof SyncSetupError) disableRemoteSync(err);
+    throw err;
+  }
+};
+
+export const removeRemoteAttachments = async (ids: string[]) => {
+  if (!isRemoteSyncAvailable() || !currentUserId) throw new Error('Remote sync is not available');
+  try {
+    await getSyncBackend().deleteAttachments(currentUserId, ids);
+  } catch (err) {
+    if (err instanceof SyncSetupError) disableRemoteSync(err);
+    throw err;
   }
 };
 
-export const deleteEntryFromSupabase = async (id: string) => {
-  if (!isSupabaseConfigured() || isRemoteSyncDisabled) return;
+// null sem sincronização ou se o arquivo ainda não chegou ao servidor
+export const fetchAttachment = async (id: string): Promise<Blob | null> => {
+  if (!isRemoteSyncAvailable() || !currentUserId) return null;
+  return getSyncBackend().downloadAttachment(currentUserId, id);
+};
+
+// Envia as configurações sincronizáveis se mudaram desde o último envio
+export const pushSettings = async () => {
+  if (!isRemoteSyncAvailable() || !currentUserId || remoteSettingsAreNewer) return;
+  const userId = currentUserId;
+  const doc = readSettingsDocument();
+  if (!doc?.dirty) return;
 
   try {
-    const { error } = await supabase.from('entries').delete().match({ id });
-    if (error) throw error;
+    await getSyncBackend().saveSettings(userId, {
+      version: SETTINGS_VERSION,
+      values: syncedValues(doc.values),
+      updatedAt: doc.updatedAt,
+    });
+    // Only clear the flag if nothing changed while uploading
+    const current = readSettingsDocument();
+    if (currentUserId === userId && current && current.updatedAt === doc.updatedAt) {
+      writeSettingsDocument({ ...current, dirty: false });
+    }
   } catch (err: any) {
-    if (!isRemoteSyncDisabled) {
-      console.error('Failed to delete from Supabase:', err?.message || err);
+    console.error('Failed to sync settings:', err?.message || err);
+  }
+};
+
+// Mescla as configurações da conta com as deste aparelho (a alteração mais recente vence).
+// Devolve as configurações resultantes quando as da conta foram aplicadas, senão null.
+export const pullRemoteSettings = async (): Promise<AppSettings | null> => {
+  if (!isRemoteSyncAvailable() || !currentUserId) return null;
+  const userId = currentUserId;
+
+  try {
+    const remote = await getSyncBackend().loadSettings(userId);
+    if (currentUserId !== userId) return null;
+
+    const local = readSettingsDocument() || {
+      version: SETTINGS_VERSION,
+      values: DEFAULT_SETTINGS,
+      updatedAt: 0,
+      dirty: false,
+    };
+    remoteSettingsAreNewer = !!remote && remote.version > SETTINGS_VERSION;
+
+    if (!remote || (local.dirty && local.updatedAt >= remote.updatedAt)) {
+      // First device on this account, or this device changed something more recently
+      if (!local.dirty) writeSettingsDocument({ ...local, dirty: true });
+      await pushSettings();
+      return null;
     }
+
+    const incoming = readSettingsValues(remote.values);
+    const values = { ...local.values };
+    (Object.keys(DEFAULT_SETTINGS) as (keyof AppSettings)[]).forEach((key) => {
+      if (key === 'deviceOnly' || local.values.deviceOnly.includes(key) || !(key in incoming)) return;
+      assignSetting(values, incoming, key);
+    });
+
+    writeSettingsDocument({ version: SETTINGS_VERSION, values, updatedAt: remote.updatedAt, dirty: false });
+    return values;
+  } catch (err: any) {
+    console.error('Failed to fetch settings:', err?.message || err);
+    return null;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,336 @@
+import { Session, Provider } from '@supabase/supabase-js';
+import { DiaryEntry, EntryRevision } from '../types';
+import { getSupabaseClient } from './supabaseClient';
+import { SyncBackend, AuthSession, PushResult, SyncSetupError, EntryChangeChannel } from './syncBackend';
+
+// SyncBackend on top of the `entries` table and the `attachments` storage bucket (see supabase/schema.sql)
+
+const UNIQUE_VIOLATION = '23505';
+
+// Files are kept under the owner's id, which the bucket's policies check
+const ATTACHMENTS_BUCKET = 'attachments';
+const attachmentPath = (userId: string, id: string) => `${userId}/${id}`;
+
+// Mapeia do formato do Supabase (snake_case) para o App (camelCase)
+const mapRowFromSupabase = (row: any): DiaryEntry => ({
+  id: row.id,
+  date: row.date,
+  title: row.title ?? undefined,
+  content: row.content,
+  tags: row.tags || [],
+  mood: row.mood ?? null,
+  journalId: row.journal_id ?? undefined,
+  attachments: row.attachments ?? undefined,
+  habits: row.habits ?? undefined,
+  createdAt: row.created_at ?? undefined,
+  updatedAt: row.updated_at || Date.now(),
+  deletedAt: row.deleted_at ?? null,
+  rev: row.rev ?? 0,
+  baseContent: row.content
+});
+
+const mapRevisionFromSupabase = (row: any): EntryRevision => ({
+  id: row.id,
+  entryId: row.entry_id,
+  date: row.date,
+  content: row.content,
+  wordCount: row.word_count ?? 0,
+  savedAt: row.saved_at
+});
+
+const toAuthSession = (session: Session | null): AuthSession | null =>
+  session ? { user: { id: session.user.id, email: session.user.email ?? null } } : null;
+
+// Table not found: the project was never set up with supabase/schema.sql
+const check = (error: any) => {
+  if (!error) return;
+  if (error.code === '42P01' || error.message?.includes('Could not find the table')) {
+    throw new SyncSetupError('SUPABASE SETUP REQUIRED: The table "entries" was not found.');
+  }
+  throw error;
+};
+
+const isNotFound = (error: any) => error.status === 404 || /not found/i.test(error.message || '');
+
+// Same idea for Storage: without the bucket, attachments can never be uploaded
+const checkStorage = (error: any) => {
+  if (!error) return;
+  if (/bucket not found/i.test(error.message || '')) {
+    throw new SyncSetupError('SUPABASE SETUP REQUIRED: The storage bucket "attachments" was not found.');
+  }
+  throw error;
+};
+
+export const createSupabaseBackend = (): SyncBackend => {
+  const supabase = getSupabaseClient();
+
+  const fetchRemoteEntry = async (userId: string, id: string): Promise<DiaryEntry | null> => {
+    const { data, error } = await supabase
+      .from('entries')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('id', id)
+      .maybeSingle();
+    check(error);
+    return data ? mapRowFromSupabase(data) : null;
+  };
+
+  const changes = (userId: string): EntryChangeChannel => ({
+    subscribe: (onChange, onResync) => {
+      let connectedBefore = false;
+
+      const channel = supabase
+        .channel(`entries-changes:${userId}`)
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'entries', filter: `user_id=eq.${userId}` }, (payload: any) => {
+          if (payload.eventType === 'DELETE') {
+            if (payload.old?.id) onChange({ type: 'delete', id: payload.old.id });
+          } else if (payload.new) {
+            onChange({ type: 'upsert', entry: mapRowFromSupabase(payload.new) });
+          }
+        })
+        .subscribe((status) => {
+          if (status !== 'SUBSCRIBED') return;
+          if (connectedBefore) onResync();
+          connectedBefore = true;
+        });
+
+      return () => {
+        supabase.removeChannel(channel);
+      };
+    },
+  });
+
+  return {
+    name: 'supabase',
+
+    auth: {
+      getSession: async () => {
+        const { data } = await supabase.auth.getSession();
+        return toAuthSession(data.session);
+      },
+      onAuthStateChange: (listener) => {
+        const { data } = supabase.auth.onAuthStateChange((_event, session) => listener(toAuthSession(session)));
+        return () => data.subscription.unsubscribe();
+      },
+      onPasswordRecovery: (listener) => {
+        const { data } = supabase.auth.onAuthStateChange((event) => {
+          if (event === 'PASSWORD_RECOVERY') listener();
+        });
+        return () => data.subscription.unsubscribe();
+      },
+      signIn: async (email, password) => {
+        const { error } = await supabase.auth.signInWithPassword({ email, password });
+        if (error) throw error;
+      },
+      signUp: async (email, password) => {
+        const { data, error } = await supabase.auth.signUp({ email, password });
+        if (error) throw error;
+        return { needsConfirmation: !data.session };
+      },
+      signOut: async () => {
+        const { error } = await supabase.auth.signOut();
+        if (error) throw error;
+      },
+      // Links bring the user back to this page, where the session is picked up from the URL
+      requestPasswordReset: async (email) => {
+        const { error } = await supabase.auth.resetPasswordForEmail(email, { redirectTo: window.location.origin });
+        if (error) throw error;
+      },
+      signInWithMagicLink: async (email) => {
+        const { error } = await supabase.auth.signInWithOtp({ email, options: { emailRedirectTo: window.location.origin } });
+        if (error) throw error;
+      },
+      signInWithProvider: async (provider) => {
+        const { error } = await supabase.auth.signInWithOAuth({
+          provider: provider as Provider,
+          options: { redirectTo: window.location.origin }
+        });
+        if (error) throw error;
+      },
+      updateEmail: async (email) => {
+        const { data, error } = await supabase.auth.updateUser({ email }, { emailRedirectTo: window.location.origin });
+        if (error) throw error;
+        // With "secure email change" on, the address only changes once confirmed
+        return { needsConfirmation: data.user?.email !== email };
+      },
+      updatePassword: async (password) => {
+        const { error } = await supabase.auth.updateUser({ password });
+        if (error) throw error;
+      },
+      // Clients cannot delete auth users, so this goes through delete_account() (supabase/schema.sql)
+      deleteAccount: async () => {
+        const { error } = await supabase.rpc('delete_account');
+        if (error) throw error;
+        await supabase.auth.signOut({ scope: 'local' });
+      },
+    },
+
+    list: async (userId) => {
+      const { data, error } = await supabase.from('entries').select('*').eq('user_id', userId);
+      check(error);
+      return (data || []).map(mapRowFromSupabase);
+    },
+
+    // Keyset pagination over (synced_at, id); synced_at is stamped by a trigger on every write
+    changesSince: async (userId, cursor, limit) => {
+      let query = supabase.from('entries').select('*').eq('user_id', userId);
+      if (cursor) {
+        query = query.or(`synced_at.gt."${cursor.at}",and(synced_at.eq."${cursor.at}",id.gt."${cursor.id}")`);
+      }
+      const { data, error } = await query
+        .order('synced_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(limit);
+      check(error);
+
+      const rows = data || [];
+      const last = rows[rows.length - 1];
+      return {
+        entries: rows.map(mapRowFromSupabase),
+        cursor: last ? { at: last.synced_at, id: last.id } : null,
+      };
+    },
+
+    // Salva somente se o servidor ainda estiver na revisão em que a edição local se baseou
+    // (controle otimista). Caso contrário devolve a cópia remota.
+    upsert: async (userId, entry): Promise<PushResult> => {
+      const nextRev = (entry.rev ?? 0) + 1;
+      const payload = {
+        user_id: userId,
+        id: entry.id,
+        date: entry.date,
+        title: entry.title ?? null,
+        content: entry.content,
+        tags: entry.tags,
+        mood: entry.mood ?? null,
+        journal_id: entry.journalId ?? null,
+        attachments: entry.attachments ?? null,
+        habits: entry.habits ?? null,
+        created_at: entry.createdAt ?? null,
+        updated_at: entry.updatedAt,
+        deleted_at: entry.deletedAt ?? null,
+        rev: nextRev
+      };
+
+      if (entry.rev !== undefined) {
+        const { data, error } = await supabase
+          .from('entries')
+          .update(payload)
+          .eq('user_id', userId)
+          .eq('id', entry.id)
+          .eq('rev', entry.rev)
+          .select('id');
+        check(error);
+        if (data && data.length > 0) return { status: 'ok', rev: nextRev };
+      }
+
+      // Never synced, or the row changed (or was purged) since our base revision
+      const remote = await fetchRemoteEntry(userId, entry.id);
+      if (remote) return { status: 'conflict', remote };
+
+      const { error } = await supabase.from('entries').insert(payload);
+      if (!error) return { status: 'ok', rev: nextRev };
+      if (error.code === UNIQUE_VIOLATION) {
+        // Another device created it in the meantime
+        const created = await fetchRemoteEntry(userId, entry.id);
+        if (created) return { status: 'conflict', remote: created };
+      }
+      check(error);
+      throw error;
+    },
+
+    deleteTombstones: async (userId, before) => {
+      const { error } = await supabase
+        .from('entries')
+        .delete()
+        .eq('user_id', userId)
+        .not('deleted_at', 'is', null)
+        .lt('deleted_at', before);
+      check(error);
+    },
+
+    changes,
+
+    listRevisions: async (userId, entryId) => {
+      const { data, error } = await supabase
+        .from('entry_revisions')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('entry_id', entryId);
+      if (error) throw error;
+      return (data || []).map(mapRevisionFromSupabase);
+    },
+
+    upsertRevisions: async (userId, revisions) => {
+      const { error } = await supabase.from('entry_revisions').upsert(revisions.map((revision) => ({
+        user_id: userId,
+        id: revision.id,
+        entry_id: revision.entryId,
+        date: revision.date,
+        content: revision.content,
+        word_count: revision.wordCount,
+        saved_at: revision.savedAt
+      })));
+      if (error) throw error;
+    },
+
+    deleteRevisions: async (userId, ids) => {
+      const { error } = await supabase.from('entry_revisions').delete().eq('user_id', userId).in('id', ids);
+      if (error) throw error;
+    },
+
+    loadSettings: async (userId) => {
+      const { data, error } = await supabase.from('user_settings').select('*').eq('user_id', userId).maybeSingle();
+      if (error) throw error;
+      return data ? { version: data.version, values: data.settings || {}, updatedAt: data.updated_at } : null;
+    },
+
+    saveSettings: async (userId, settings) => {
+      const { error } = await supabase.from('user_settings').upsert({
+        user_id: userId,
+        version: settings.version,
+        settings: settings.values,
+        updated_at: settings.updatedAt
+      });
+      if (error) throw error;
+    },
+
+    uploadAttachment: async (userId, id, file) => {
+      const { error } = await supabase.storage
+        .from(ATTACHMENTS_BUCKET)
+        .upload(attachmentPath(userId, id), file, { upsert: true, contentType: file.type || 'application/octet-stream' });
+      checkStorage(error);
+    },
+
+    downloadAttachment: async (userId, id) => {
+      const { data, error } = await supabase.storage.from(ATTACHMENTS_BUCKET).download(attachmentPath(userId, id));
+      if (error && isNotFound(error) && !/bucket/i.test(error.message || '')) return null;
+      checkStorage(error);
+      return data;
+    },
+
+    deleteAttachments: async (userId, ids) => {
+      const { error } = await supabase.storage.from(ATTACHMENTS_BUCKET).remove(ids.map((id) => attachmentPath(userId, id)));
+      checkStorage(error);
+    },
+
+    loadKeyInfo: async (userId) => {
+      const { data, error } = await supabase.from('user_keys').select('*').eq('user_id', userId).maybeSingle();
+      if (error) throw error;
+      return data ? { keyId: data.key_id, salt: data.salt, iterations: data.iterations, verifier: data.verifier } : null;
+    },
+
+    saveKeyInfo: async (userId, info) => {
+      const { error } = info
+        ? await supabase.from('user_keys').upsert({
+            user_id: userId,
+            key_id: info.keyId,
+            salt: info.salt,
+            iterations: info.iterations,
+            verifier: info.verifier
+          })
+        : await supabase.from('user_keys').delete().eq('user_id', userId);
+      if (error) throw error;
+    },
+  };
+};
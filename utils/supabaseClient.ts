@@ -1,18 +1,15 @@
-import { createClient } from '@supabase/supabase-js';
-
-// Credentials provided for integration
-const SUPABASE_URL: string = 'https://beydgaalbtemiqxthvcj.supabase.co';
-const SUPABASE_KEY: string = 'sb_publishable_XMR3NYZ01PMN8IjvDirilw_Hf5lZ-96';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { config } from './config';
 
 export const isSupabaseConfigured = () => {
-  return SUPABASE_URL.length > 0 && SUPABASE_KEY.length > 0 && SUPABASE_URL !== 'https://placeholder.supabase.co';
+  return config.supabaseUrl.length > 0 && config.supabaseAnonKey.length > 0;
 };
 
-// Create client with the provided credentials
-export const supabase = createClient(
-  SUPABASE_URL, 
-  SUPABASE_KEY
-);
+let client: SupabaseClient | null = null;
 
-// Explicitly re-export helper if needed, though usually direct import from package is fine.
-export { type Session } from '@supabase/supabase-js';
\ No newline at end of file
+// Created on first use so builds without Supabase credentials never touch the SDK
+export const getSupabaseClient = () => {
+  if (!isSupabaseConfigured()) throw new Error('Supabase is not configured (VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY)');
+  if (!client) client = createClient(config.supabaseUrl, config.supabaseAnonKey);
+  return client;
+};
@@ -0,0 +1,114 @@
+import { DiaryEntry, EntryRevision, AppSettings } from '../types';
+
+// Contract between the app and whatever server keeps the diary in sync.
+// utils/supabaseBackend.ts talks to Supabase; utils/localBackend.ts is a stand-in
+// that runs entirely in the browser. Pick one with VITE_SYNC_BACKEND (utils/backends.ts).
+
+export interface AuthUser {
+  id: string;
+  email: string | null;
+}
+
+export interface AuthSession {
+  user: AuthUser;
+}
+
+export interface SyncAuth {
+  getSession: () => Promise<AuthSession | null>;
+  onAuthStateChange: (listener: (session: AuthSession | null) => void) => () => void;
+  signIn: (email: string, password: string) => Promise<void>;
+  // `needsConfirmation` is true when the account must be confirmed (e.g. by email) first
+  signUp: (email: string, password: string) => Promise<{ needsConfirmation: boolean }>;
+  signOut: () => Promise<void>;
+  // Emails a link that opens the app signed in and in recovery mode (see onPasswordRecovery)
+  requestPasswordReset: (email: string) => Promise<void>;
+  // Fires when the app was opened from a password reset link; the user should choose a new password
+  onPasswordRecovery: (listener: () => void) => () => void;
+  signInWithMagicLink: (email: string) => Promise<void>;
+  // Redirects to the provider (e.g. "google"); see VITE_AUTH_PROVIDERS
+  signInWithProvider: (provider: string) => Promise<void>;
+  // `needsConfirmation` is true when the new address must be confirmed before it takes effect
+  updateEmail: (email: string) => Promise<{ needsConfirmation: boolean }>;
+  updatePassword: (password: string) => Promise<void>;
+  // Deletes the account and everything the server keeps for it, then signs out
+  deleteAccount: () => Promise<void>;
+}
+
+export type PushResult =
+  | { status: 'ok'; rev: number }
+  | { status: 'conflict'; remote: DiaryEntry };
+
+export type RemoteChange =
+  | { type: 'upsert'; entry: DiaryEntry }
+  | { type: 'delete'; id: string };
+
+// Position in the server's change feed. Opaque to the app: only the backend compares it.
+export interface SyncCursor {
+  at: string;
+  id: string;
+}
+
+export interface ChangesPage {
+  entries: DiaryEntry[];
+  cursor: SyncCursor | null; // Position after the last returned row; null if the page is empty
+}
+
+// Synced part of the user's settings. `version` is the settings schema it was written with.
+export interface RemoteSettings {
+  version: number;
+  values: Partial<AppSettings>;
+  updatedAt: number;
+}
+
+// Public parameters of the user's encryption key (utils/encryption.ts). The passphrase and
+// the key itself never leave the device; `verifier` is a known text encrypted with the key,
+// so a device can tell whether a passphrase is right.
+export interface KeyInfo {
+  keyId: string;
+  salt: string; // base64
+  iterations: number;
+  verifier: string;
+}
+
+export interface EntryChangeChannel {
+  // `onResync` fires after the connection drops and comes back, since changes
+  // made while disconnected are not replayed and must be fetched.
+  subscribe: (onChange: (change: RemoteChange) => void, onResync: () => void) => () => void;
+}
+
+export interface SyncBackend {
+  name: 'supabase' | 'local';
+  auth: SyncAuth;
+  // Every entry of the user, tombstones included
+  list: (userId: string) => Promise<DiaryEntry[]>;
+  // Entries written after `cursor` (from the start when null), oldest first
+  changesSince: (userId: string, cursor: SyncCursor | null, limit: number) => Promise<ChangesPage>;
+  // Writes the entry only if the server is still at `entry.rev` (optimistic concurrency)
+  upsert: (userId: string, entry: DiaryEntry) => Promise<PushResult>;
+  // Hard-deletes tombstones older than `before` (ms since epoch)
+  deleteTombstones: (userId: string, before: number) => Promise<void>;
+  changes: (userId: string) => EntryChangeChannel;
+  // Revision history, only used when the user opts in to syncing it
+  listRevisions: (userId: string, entryId: string) => Promise<EntryRevision[]>;
+  upsertRevisions: (userId: string, revisions: EntryRevision[]) => Promise<void>;
+  deleteRevisions: (userId: string, ids: string[]) => Promise<void>;
+  loadSettings: (userId: string) => Promise<RemoteSettings | null>;
+  saveSettings: (userId: string, settings: RemoteSettings) => Promise<void>;
+  // Attachment files, stored apart from the entries that describe them (see utils/attachments.ts)
+  uploadAttachment: (userId: string, id: string, file: Blob) => Promise<void>;
+  // null when the server has no such file
+  downloadAttachment: (userId: string, id: string) => Promise<Blob | null>;
+  deleteAttachments: (userId: string, ids: string[]) => Promise<void>;
+  // null when encryption is off
+  loadKeyInfo: (userId: string) => Promise<KeyInfo | null>;
+  saveKeyInfo: (userId: string, info: KeyInfo | null) => Promise<void>;
+}
+
+// The server is reachable but not set up for GrayNote (e.g. the `entries` table is missing).
+// Retrying will not help, so sync is switched off instead.
+export class SyncSetupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncSetupError';
+  }
+}
@@ -0,0 +1,86 @@
+// @vitest-environment happy-dom
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  beginSyncTask,
+  describeSyncError,
+  getSyncStatus,
+  reportSyncDisabled,
+  reportSyncError,
+  reportSyncSuccess,
+  setSyncStatusScope,
+  subscribeSyncStatus,
+} from './syncStatus';
+
+let nextUser = 0;
+beforeEach(() => {
+  localStorage.clear();
+  reportSyncDisabled(null);
+  setSyncStatusScope(`user-${++nextUser}`);
+});
+
+describe('sync status', () => {
+  it('is syncing while any task runs, and ending a task twice changes nothing', () => {
+    const first = beginSyncTask();
+    const second = beginSyncTask();
+    first();
+    first();
+    expect(getSyncStatus().state).toBe('syncing');
+    second();
+    expect(getSyncStatus().state).toBe('idle');
+  });
+
+  it('keeps the last error until a sync succeeds', () => {
+    reportSyncError(new Error('row too large'));
+    expect(getSyncStatus()).toMatchObject({ state: 'error', error: 'row too large' });
+
+    reportSyncSuccess();
+    expect(getSyncStatus()).toMatchObject({ state: 'idle', error: null });
+    expect(getSyncStatus().lastSyncedAt).not.toBeNull();
+  });
+
+  it('puts a disabled sync ahead of everything else', () => {
+    beginSyncTask();
+    reportSyncDisabled('The entries table is missing.');
+    expect(getSyncStatus()).toMatchObject({ state: 'disabled', disabledReason: 'The entries table is missing.' });
+  });
+
+  it('remembers the last sync per user and drops tasks of the previous user', () => {
+    const user = `user-${nextUser}`;
+    reportSyncSuccess();
+    const syncedAt = getSyncStatus().lastSyncedAt;
+    const end = beginSyncTask();
+
+    setSyncStatusScope('someone-else');
+    expect(getSyncStatus()).toMatchObject({ state: 'idle', lastSyncedAt: null });
+
+    setSyncStatusScope(user);
+    end();
+    expect(getSyncStatus()).toMatchObject({ state: 'idle', lastSyncedAt: syncedAt });
+  });
+
+  it('tells subscribers the current status right away and on every change', () => {
+    const seen: string[] = [];
+    const unsubscribe = subscribeSyncStatus((status) => seen.push(status.state));
+    beginSyncTask()();
+    unsubscribe();
+    reportSyncError(new Error('late'));
+
+    expect(seen).toEqual(['idle', 'syncing', 'idle']);
+  });
+});
+
+describe('describeSyncError', () => {
+  it('explains network failures', () => {
+    expect(describeSyncError(new TypeError('Failed to fetch'))).toBe('The sync server could not be reached.');
+    expect(describeSyncError({ message: 'NetworkError when attempting to fetch resource.' })).toBe(
+      'The sync server could not be reached.'
+    );
+  });
+
+  it('passes other messages through', () => {
+    expect(describeSyncError(new Error('permission denied for table entries'))).toBe(
+      'permission denied for table entries'
+    );
+    expect(describeSyncError('plain')).toBe('plain');
+  });
+});
@@ -0,0 +1,142 @@
+// Single picture of how syncing is going, for the status bar and the sync panel.
+// The outbox and the pull in utils/storage.ts report into it; the UI only subscribes.
+
+export type SyncState = 'idle' | 'syncing' | 'offline' | 'error' | 'disabled';
+
+export interface SyncStatus {
+  state: SyncState;
+  pendingIds: string[]; // Entries with local changes the server has not accepted yet
+  lastSyncedAt: number | null;
+  error: string | null; // Last failure, kept until a sync succeeds
+  disabledReason: string | null;
+}
+
+type SyncStatusListener = (status: SyncStatus) => void;
+
+const LAST_SYNC_KEY = 'graynote_last_sync';
+
+const listeners = new Set<SyncStatusListener>();
+
+let userId: string | null = null;
+let scopeGeneration = 0;
+let activeTasks = 0;
+let pendingIds: string[] = [];
+let lastSyncedAt: number | null = null;
+let error: string | null = null;
+let disabledReason: string | null = null;
+// Tabs that do not sync themselves show the sync leader's status instead (see utils/tabs.ts)
+let mirrored: SyncStatus | null = null;
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+const deriveState = (): SyncState => {
+  if (disabledReason) return 'disabled';
+  if (!isOnline()) return 'offline';
+  if (activeTasks > 0) return 'syncing';
+  if (error) return 'error';
+  return 'idle';
+};
+
+export const getSyncStatus = (): SyncStatus => mirrored || {
+  state: deriveState(),
+  pendingIds,
+  lastSyncedAt,
+  error,
+  disabledReason,
+};
+
+const notify = () => {
+  const status = getSyncStatus();
+  listeners.forEach((listener) => listener(status));
+};
+
+// PostgREST hands back its errors as plain objects, so those are read by their message too
+const errorMessage = (err: unknown): string => {
+  if (err instanceof Error) return err.message;
+  if (err && typeof err === 'object' && 'message' in err && typeof err.message === 'string') return err.message;
+  return String(err);
+};
+
+// Turns raw failures (fetch errors, PostgREST errors) into something a user can act on
+export const describeSyncError = (err: unknown): string => {
+  const message = errorMessage(err);
+  if (err instanceof TypeError || /failed to fetch|networkerror|load failed/i.test(message)) {
+    return 'The sync server could not be reached.';
+  }
+  return message;
+};
+
+// Follows the signed-in user; the last successful sync is remembered per user
+export const setSyncStatusScope = (nextUserId: string | null) => {
+  // Auth events repeat for the same user (e.g. token refresh); keep the running picture then
+  if (nextUserId === userId) return;
+  userId = nextUserId;
+  scopeGeneration++;
+  mirrored = null;
+  activeTasks = 0;
+  pendingIds = [];
+  error = null;
+  const stored = nextUserId ? localStorage.getItem(`${LAST_SYNC_KEY}:${nextUserId}`) : null;
+  lastSyncedAt = stored ? Number(stored) : null;
+  notify();
+};
+
+export const forgetLastSync = (forUserId: string) => {
+  localStorage.removeItem(`${LAST_SYNC_KEY}:${forUserId}`);
+};
+
+// Marks a sync task (push or pull) as running; call the returned function when it ends
+export const beginSyncTask = () => {
+  activeTasks++;
+  notify();
+  const generation = scopeGeneration;
+  let ended = false;
+  return () => {
+    // Tasks of a previous session were already dropped by setSyncStatusScope
+    if (ended || generation !== scopeGeneration) return;
+    ended = true;
+    activeTasks = Math.max(0, activeTasks - 1);
+    notify();
+  };
+};
+
+export const reportSyncSuccess = () => {
+  error = null;
+  lastSyncedAt = Date.now();
+  if (userId) localStorage.setItem(`${LAST_SYNC_KEY}:${userId}`, String(lastSyncedAt));
+  notify();
+};
+
+export const reportSyncError = (err: unknown) => {
+  error = describeSyncError(err);
+  notify();
+};
+
+// `reason` null means sync is back on
+export const reportSyncDisabled = (reason: string | null) => {
+  disabledReason = reason;
+  notify();
+};
+
+export const setPendingChanges = (ids: string[]) => {
+  pendingIds = ids;
+  notify();
+};
+
+export const setSyncStatusMirror = (status: SyncStatus | null) => {
+  mirrored = status;
+  notify();
+};
+
+export const subscribeSyncStatus = (listener: SyncStatusListener) => {
+  listeners.add(listener);
+  listener(getSyncStatus());
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', notify);
+  window.addEventListener('offline', notify);
+}
@@ -0,0 +1,65 @@
+// @vitest-environment happy-dom
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { openTabChannel, postToTabs, reportEditing, subscribeRemoteEditors, subscribeTabs, TabMessage, TAB_ID } from './tabs';
+
+// Stands in for a second tab of the same user
+let otherTab: BroadcastChannel;
+let leave: () => void;
+
+const nextMessage = (channel: BroadcastChannel) =>
+  new Promise<TabMessage>((resolve) => {
+    channel.onmessage = (event: MessageEvent<TabMessage>) => resolve(event.data);
+  });
+
+beforeEach(() => {
+  otherTab = new BroadcastChannel('graynote:user-1');
+  leave = openTabChannel('user-1');
+});
+
+afterEach(() => {
+  leave();
+  otherTab.close();
+});
+
+describe('tab channel', () => {
+  it('delivers messages between tabs of the same user', async () => {
+    const delivered = new Promise<TabMessage>((resolve) => {
+      const unsubscribe = subscribeTabs((message) => {
+        unsubscribe();
+        resolve(message);
+      });
+    });
+    otherTab.postMessage({ type: 'outbox' });
+    expect(await delivered).toEqual({ type: 'outbox' });
+
+    const sent = nextMessage(otherTab);
+    postToTabs({ type: 'conflicts' });
+    expect(await sent).toEqual({ type: 'conflicts' });
+  });
+
+  it('throttles editing reports for the same entry', async () => {
+    const first = nextMessage(otherTab);
+    reportEditing('2025-03-14');
+    expect(await first).toEqual({ type: 'editing', tabId: TAB_ID, entryId: '2025-03-14' });
+
+    reportEditing('2025-03-14');
+    const stopped = nextMessage(otherTab);
+    reportEditing(null);
+    expect(await stopped).toEqual({ type: 'editing', tabId: TAB_ID, entryId: null });
+  });
+
+  it('tracks which entries other tabs are editing', async () => {
+    const seen: string[][] = [];
+    const unsubscribe = subscribeRemoteEditors((editors) => seen.push(editors.map((e) => e.entryId)));
+    // Broadcast messages arrive asynchronously
+    const update = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+    otherTab.postMessage({ type: 'editing', tabId: 'other', entryId: '2025-03-14' });
+    await update();
+    otherTab.postMessage({ type: 'editing', tabId: 'other', entryId: null });
+    await update();
+    unsubscribe();
+
+    expect(seen).toEqual([[], ['2025-03-14'], []]);
+  });
+});
@@ -0,0 +1,156 @@
+import { DiaryEntry } from '../types';
+import { SyncStatus } from './syncStatus';
+
+// Coordination between tabs of the same signed-in user.
+// Tabs share one IndexedDB database, so they only need to tell each other what changed:
+// every tab applies the others' entry updates to its own state, and a single elected
+// tab (the sync leader) talks to the server on behalf of all of them.
+
+export type TabMessage =
+  | { type: 'entries'; entries: DiaryEntry[] }
+  | { type: 'outbox' } // A tab queued a change; the leader should upload it
+  | { type: 'conflicts' }
+  | { type: 'sync-status'; status: SyncStatus }
+  | { type: 'sync-status-request' } // A tab that just opened asks the leader for its status
+  | { type: 'editing'; tabId: string; entryId: string | null }
+  // The encryption key changed; `requeue` asks the leader to upload every entry again with it
+  | { type: 'encryption'; requeue: boolean };
+
+type TabListener = (message: TabMessage) => void;
+
+export interface RemoteEditor {
+  entryId: string;
+  at: number;
+}
+
+// How long a tab counts as editing an entry after its last keystroke
+export const EDITING_TTL_MS = 15_000;
+const EDITING_REPORT_INTERVAL_MS = 5_000;
+
+export const TAB_ID = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+  ? crypto.randomUUID()
+  : `${Date.now()}-${Math.random()}`;
+
+const listeners = new Set<TabListener>();
+const editorListeners = new Set<(editors: RemoteEditor[]) => void>();
+const remoteEditors = new Map<string, RemoteEditor>();
+
+let channel: BroadcastChannel | null = null;
+let lastEditingReport: { entryId: string | null; at: number } = { entryId: null, at: 0 };
+let pruneTimer: ReturnType<typeof setInterval> | null = null;
+
+const notifyEditors = () => {
+  const editors = Array.from(remoteEditors.values());
+  editorListeners.forEach((listener) => listener(editors));
+};
+
+const pruneEditors = () => {
+  const now = Date.now();
+  let changed = false;
+  remoteEditors.forEach((editor, tabId) => {
+    if (now - editor.at > EDITING_TTL_MS) {
+      remoteEditors.delete(tabId);
+      changed = true;
+    }
+  });
+  if (changed) notifyEditors();
+};
+
+const handleMessage = (message: TabMessage) => {
+  if (message.type === 'editing') {
+    if (message.entryId) {
+      remoteEditors.set(message.tabId, { entryId: message.entryId, at: Date.now() });
+    } else {
+      remoteEditors.delete(message.tabId);
+    }
+    notifyEditors();
+    return;
+  }
+  listeners.forEach((listener) => listener(message));
+};
+
+const handleUnload = () => postToTabs({ type: 'editing', tabId: TAB_ID, entryId: null });
+
+// Joins the given user's tabs. Returns a function that leaves.
+export const openTabChannel = (userId: string) => {
+  if (typeof BroadcastChannel === 'undefined') return () => undefined;
+
+  const own = new BroadcastChannel(`graynote:${userId}`);
+  own.onmessage = (event: MessageEvent<TabMessage>) => handleMessage(event.data);
+  channel = own;
+  pruneTimer = setInterval(pruneEditors, EDITING_REPORT_INTERVAL_MS);
+  window.addEventListener('beforeunload', handleUnload);
+
+  return () => {
+    handleUnload();
+    window.removeEventListener('beforeunload', handleUnload);
+    if (pruneTimer) clearInterval(pruneTimer);
+    pruneTimer = null;
+    own.close();
+    if (channel === own) channel = null;
+    remoteEditors.clear();
+    notifyEditors();
+  };
+};
+
+export const postToTabs = (message: TabMessage) => {
+  try {
+    channel?.postMessage(message);
+  } catch (err) {
+    console.error('Failed to notify other tabs', err);
+  }
+};
+
+export const subscribeTabs = (listener: TabListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Tells other tabs this one is typing in `entryId` (throttled; null when it stops)
+export const reportEditing = (entryId: string | null) => {
+  const now = Date.now();
+  const same = lastEditingReport.entryId === entryId;
+  if (same && (entryId === null || now - lastEditingReport.at < EDITING_REPORT_INTERVAL_MS)) return;
+  lastEditingReport = { entryId, at: now };
+  postToTabs({ type: 'editing', tabId: TAB_ID, entryId });
+};
+
+export const subscribeRemoteEditors = (listener: (editors: RemoteEditor[]) => void) => {
+  editorListeners.add(listener);
+  listener(Array.from(remoteEditors.values()));
+  return () => {
+    editorListeners.delete(listener);
+  };
+};
+
+// Runs `lead` in exactly one tab per user at a time (Web Locks); when that tab closes
+// the next one takes over. `lead` returns its cleanup. Browsers without Web Locks
+// fall back to every tab syncing on its own.
+export const runAsLeader = (userId: string, lead: () => () => void) => {
+  if (typeof navigator === 'undefined' || !navigator.locks) return lead();
+
+  const abort = new AbortController();
+  let release: (() => void) | null = null;
+
+  navigator.locks
+    .request(`graynote-sync:${userId}`, { signal: abort.signal }, () => {
+      const stop = lead();
+      return new Promise<void>((resolve) => {
+        release = () => {
+          stop();
+          resolve();
+        };
+      });
+    })
+    .catch((err) => {
+      if (err?.name !== 'AbortError') console.error('Sync leader election failed', err);
+    });
+
+  return () => {
+    abort.abort();
+    release?.();
+    release = null;
+  };
+};
@@ -0,0 +1,61 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { DiaryEntry } from '../types';
+import { collectTags, extractHashtags, getEntryTags, normalizeTag, retagEntry } from './tags';
+
+const entry = (id: string, content: string, tags: string[] = []): DiaryEntry => ({
+  id,
+  date: '2025-03-14',
+  content,
+  tags,
+  updatedAt: 1,
+});
+
+describe('tags', () => {
+  it('normalizes tags to lowercase words without the hash', () => {
+    expect(normalizeTag('  #Road Trip ')).toBe('road-trip');
+  });
+
+  it('finds hashtags in the text only', () => {
+    const html = '<div>#Work and #café, not #1 or a#b</div><span style="color: #ff0000">#home</span>';
+    expect(extractHashtags(html)).toEqual(['work', 'café', 'home']);
+  });
+
+  it('combines input tags with hashtags', () => {
+    expect(getEntryTags(entry('a', '<div>#work day</div>', ['Work', 'family']))).toEqual(['work', 'family']);
+  });
+
+  it('counts tags of live entries, most used first', () => {
+    const entries = {
+      a: entry('a', '<div>#work</div>', ['family']),
+      b: entry('b', '<div>#work</div>'),
+      c: { ...entry('c', '<div>#gone</div>'), deletedAt: 1 },
+    };
+    expect(collectTags(entries)).toEqual([
+      { tag: 'work', count: 2 },
+      { tag: 'family', count: 1 },
+    ]);
+  });
+});
+
+describe('retagEntry', () => {
+  it('renames the tag in the tag list and in hashtags', () => {
+    const renamed = retagEntry(entry('a', '<div>#Work is #work</div>', ['work']), 'work', 'job');
+    expect(renamed?.content).toBe('<div>#job is #job</div>');
+    expect(renamed?.tags).toEqual(['job']);
+  });
+
+  it('merges into a tag the entry already has', () => {
+    expect(retagEntry(entry('a', '', ['work', 'job']), 'work', 'job')?.tags).toEqual(['job']);
+  });
+
+  it('turns hashtags into plain words when the tag is deleted', () => {
+    const removed = retagEntry(entry('a', '<div>long #work day</div>', ['work', 'family']), 'work', null);
+    expect(removed?.content).toBe('<div>long work day</div>');
+    expect(removed?.tags).toEqual(['family']);
+  });
+
+  it('leaves entries without the tag alone', () => {
+    expect(retagEntry(entry('a', '<div>#home</div>'), 'work', 'job')).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+import { DiaryEntry } from '../types';
+import { isDeleted } from './tombstones';
+
+// An entry's tags are the ones added in the tag input (stored in `tags`) plus any #hashtag
+// written in its text. Tags are compared and stored lowercase, without the leading '#'.
+
+// A '#' that starts a word, followed by a letter (so "#1" and "a#b" are not tags)
+const HASHTAG = /(^|[^\p{L}\p{N}_&#])#(\p{L}[\p{L}\p{N}_-]*)/gu;
+
+export const normalizeTag = (tag: string): string =>
+  tag.trim().replace(/^#+/, '').replace(/\s+/g, '-').toLowerCase();
+
+const unique = (tags: string[]) => Array.from(new Set(tags.filter(Boolean)));
+
+// Only the text is searched: inline styles carry '#' colors
+const forEachTextNode = (html: string, visit: (node: Text) => void): HTMLTemplateElement => {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  const walker = document.createTreeWalker(template.content, NodeFilter.SHOW_TEXT);
+  while (walker.nextNode()) visit(walker.currentNode as Text);
+  return template;
+};
+
+export const extractHashtags = (html: string): string[] => {
+  const tags: string[] = [];
+  forEachTextNode(html, (node) => {
+    for (const match of (node.textContent || '').matchAll(HASHTAG)) tags.push(normalizeTag(match[2]));
+  });
+  return unique(tags);
+};
+
+// Entries are never mutated in place, so the parsed tags can be kept per entry object
+const tagCache = new WeakMap<DiaryEntry, string[]>();
+
+export const getEntryTags = (entry: DiaryEntry): string[] => {
+  let tags = tagCache.get(entry);
+  if (!tags) {
+    tags = unique([...entry.tags.map(normalizeTag), ...extractHashtags(entry.content)]);
+    tagCache.set(entry, tags);
+  }
+  return tags;
+};
+
+export const sameTags = (a: string[], b: string[]) => a.length === b.length && a.every((tag, i) => tag === b[i]);
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// Every tag in use, most used first
+export const collectTags = (entries: Record<string, DiaryEntry>): TagCount[] => {
+  const counts = new Map<string, number>();
+  (Object.values(entries) as DiaryEntry[]).forEach((entry) => {
+    if (isDeleted(entry)) return;
+    getEntryTags(entry).forEach((tag) => counts.set(tag, (counts.get(tag) || 0) + 1));
+  });
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+// Renames `from` to `to` in the entry's tags and hashtags; renaming to a tag the entry already
+// has merges the two. With `to` null the tag is removed, and its hashtags become plain words.
+// Returns null when the entry does not carry the tag.
+export const retagEntry = (entry: DiaryEntry, from: string, to: string | null): DiaryEntry | null => {
+  if (!getEntryTags(entry).includes(from)) return null;
+
+  let contentChanged = false;
+  const template = forEachTextNode(entry.content, (node) => {
+    const text = node.textContent || '';
+    const replaced = text.replace(HASHTAG, (match, before: string, tag: string) => {
+      if (normalizeTag(tag) !== from) return match;
+      return to ? `${before}#${to}` : `${before}${tag}`;
+    });
+    if (replaced !== text) {
+      node.textContent = replaced;
+      contentChanged = true;
+    }
+  });
+
+  const tags = unique(entry.tags.map(normalizeTag).map((tag) => (tag === from ? to || '' : tag)));
+  return {
+    ...entry,
+    content: contentChanged ? template.innerHTML : entry.content,
+    tags,
+    updatedAt: Date.now(),
+  };
+};
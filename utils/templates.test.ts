@@ -0,0 +1,49 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { EntryTemplate } from '../types';
+import { fillPlaceholders, getDailyPrompt, getWeekdayTemplate, templateHtml } from './templates';
+
+const template = (fields: Partial<EntryTemplate>): EntryTemplate => ({
+  id: 't',
+  name: 'Template',
+  title: '',
+  body: '',
+  tags: [],
+  weekdays: [],
+  ...fields,
+});
+
+describe('templates', () => {
+  it('fills in the day of the entry', () => {
+    // 2025-03-14 is a Friday
+    expect(fillPlaceholders('{weekday} — {date}', '2025-03-14')).toBe('sexta-feira — sexta-feira, 14 de março de 2025');
+  });
+
+  it('turns each line of the body into a paragraph', () => {
+    expect(templateHtml(template({ body: 'Done:\n\n<b>not bold</b>' }), '2025-03-14')).toBe(
+      '<div>Done:</div><div><br></div><div>&lt;b&gt;not bold&lt;/b&gt;</div>'
+    );
+  });
+
+  it('picks the template assigned to the weekday', () => {
+    const friday = template({ id: 'friday', weekdays: [5] });
+    expect(getWeekdayTemplate([template({}), friday], '2025-03-14')).toBe(friday);
+    expect(getWeekdayTemplate([friday], '2025-03-15')).toBeNull();
+  });
+});
+
+describe('getDailyPrompt', () => {
+  const prompts = ['a', 'b', 'c'];
+
+  it('moves one prompt further each day, and for each further entry of the day', () => {
+    const today = getDailyPrompt(prompts, '2025-03-14');
+    const tomorrow = getDailyPrompt(prompts, '2025-03-15');
+    expect(prompts.indexOf(tomorrow!)).toBe((prompts.indexOf(today!) + 1) % 3);
+    expect(getDailyPrompt(prompts, '2025-03-14', 1)).toBe(tomorrow);
+  });
+
+  it('works for days before the reference date and without prompts', () => {
+    expect(prompts).toContain(getDailyPrompt(prompts, '1990-01-01'));
+    expect(getDailyPrompt([], '2025-03-14')).toBeNull();
+  });
+});
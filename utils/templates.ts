@@ -0,0 +1,94 @@
+import { format, parseISO, differenceInCalendarDays } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { EntryTemplate } from '../types';
+import { formatDateForDisplay } from './dateUtils';
+
+// Entry templates and writing prompts. Both live in the synced settings.
+// A template can be applied from the toolbar at any time, and new entries start from the
+// template assigned to their weekday. Empty entries show a prompt from the library instead
+// of a blank page; the prompt changes every day and is the same on every device.
+
+export const DEFAULT_TEMPLATES: EntryTemplate[] = [
+  {
+    id: 'gratitude',
+    name: 'Gratitude',
+    title: 'Gratitude',
+    body: "Three things I'm grateful for today:\n1. \n2. \n3. \n\nWhat made today good?\n",
+    tags: ['gratitude'],
+    weekdays: [],
+  },
+  {
+    id: 'work-log',
+    name: 'Work log',
+    title: 'Work log, {weekday}',
+    body: 'Done:\n- \n\nIn progress:\n- \n\nBlocked by:\n- \n',
+    tags: ['work'],
+    weekdays: [],
+  },
+  {
+    id: 'weekly-review',
+    name: 'Weekly review',
+    title: 'Week in review',
+    body: "Highlights of the week:\n\nWhat didn't go well:\n\nWhat I learned:\n\nFocus for next week:\n",
+    tags: ['review'],
+    weekdays: [],
+  },
+];
+
+export const DEFAULT_PROMPTS = [
+  'What is on your mind right now?',
+  'What made you smile today?',
+  'What is one thing you want to remember about today?',
+  'What drained your energy today, and what gave it back?',
+  'Who did you think about today, and why?',
+  'What are you looking forward to?',
+  'What did you learn today?',
+  'What would make tomorrow a good day?',
+  'What are you avoiding, and what is the smallest next step?',
+  'Describe a moment today in as much detail as you can.',
+  'What are you grateful for this week?',
+  'What is something you changed your mind about recently?',
+  'How did you take care of yourself today?',
+  'What is a question you keep coming back to?',
+];
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const createTemplate = (): EntryTemplate => ({
+  id: crypto.randomUUID(),
+  name: 'New template',
+  title: '',
+  body: '',
+  tags: [],
+  weekdays: [],
+});
+
+// Fills in {date} and {weekday} for the entry's day
+export const fillPlaceholders = (text: string, dateKey: string): string =>
+  text
+    .replace(/\{date\}/g, formatDateForDisplay(dateKey))
+    .replace(/\{weekday\}/g, format(parseISO(dateKey), 'EEEE', { locale: ptBR }));
+
+// The body as editor HTML: one <div> per line, the same structure typing produces
+export const templateHtml = (template: EntryTemplate, dateKey: string): string => {
+  const container = document.createElement('div');
+  fillPlaceholders(template.body, dateKey).split('\n').forEach((line) => {
+    const paragraph = document.createElement('div');
+    if (line) paragraph.textContent = line;
+    else paragraph.appendChild(document.createElement('br'));
+    container.appendChild(paragraph);
+  });
+  return container.innerHTML;
+};
+
+// The template new entries on this day start from, if any
+export const getWeekdayTemplate = (templates: EntryTemplate[], dateKey: string): EntryTemplate | null =>
+  templates.find((template) => template.weekdays.includes(parseISO(dateKey).getDay())) || null;
+
+// Walks through the library one prompt per day; later entries of the same day get the next ones
+export const getDailyPrompt = (prompts: string[], dateKey: string, index = 0): string | null => {
+  if (prompts.length === 0) return null;
+  const day = differenceInCalendarDays(parseISO(dateKey), new Date(2000, 0, 1));
+  const position = (((day + index) % prompts.length) + prompts.length) % prompts.length;
+  return prompts[position];
+};
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DiaryEntry } from '../types';
+
+const storage = vi.hoisted(() => ({
+  deleted: [] as string[],
+  purgedBefore: null as number | null,
+  pending: new Set<string>(),
+}));
+
+vi.mock('./storage', () => ({
+  deleteEntry: async (id: string) => {
+    storage.deleted.push(id);
+  },
+  purgeRemoteTombstones: async (cutoff: number) => {
+    storage.purgedBefore = cutoff;
+  },
+}));
+vi.mock('./outbox', () => ({ getPendingIds: async () => storage.pending }));
+
+const { TOMBSTONE_RETENTION_MS, createTombstone, getLiveEntries, isDeleted, purgeExpiredTombstones } = await import('./tombstones');
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const entry = (id: string, deletedAt?: number): DiaryEntry => ({ id, date: id, content: 'x', tags: [], updatedAt: 1, deletedAt });
+
+beforeEach(() => {
+  storage.deleted = [];
+  storage.purgedBefore = null;
+  storage.pending = new Set();
+});
+
+describe('tombstones', () => {
+  it('marks a deletion with an empty entry that keeps its other fields', () => {
+    const tombstone = createTombstone({ ...entry('a'), content: '<div>text</div>', tags: ['work'], mood: 3, journalId: 'j' });
+    expect(tombstone).toMatchObject({ id: 'a', date: 'a', content: '', tags: ['work'], mood: 3, journalId: 'j' });
+    expect(isDeleted(tombstone)).toBe(true);
+    expect(isDeleted(entry('b'))).toBe(false);
+  });
+
+  it('leaves tombstones out of the live entries', () => {
+    const live = getLiveEntries({ a: entry('a'), b: entry('b', Date.now()) });
+    expect(Object.keys(live)).toEqual(['a']);
+  });
+
+  it('purges tombstones past the retention window unless they are still queued', async () => {
+    const old = Date.now() - TOMBSTONE_RETENTION_MS - DAY;
+    storage.pending = new Set(['queued']);
+
+    const purged = await purgeExpiredTombstones({
+      old: entry('old', old),
+      queued: entry('queued', old),
+      recent: entry('recent', Date.now() - DAY),
+      live: entry('live'),
+    });
+
+    expect(purged).toEqual(['old']);
+    expect(storage.deleted).toEqual(['old']);
+    expect(storage.purgedBefore).toBeLessThanOrEqual(Date.now() - TOMBSTONE_RETENTION_MS);
+  });
+});
@@ -0,0 +1,60 @@
+import { DiaryEntry } from '../types';
+import { deleteEntry, purgeRemoteTombstones } from './storage';
+import { getPendingIds } from './outbox';
+
+// Deleted entries are kept as tombstones (empty content + deletedAt) so that the
+// deletion itself syncs and wins over older copies still living on other devices.
+// After the retention window they are dropped for good, locally and on the server.
+// A device that stays offline for longer than the window may resurrect an entry.
+export const TOMBSTONE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const isDeleted = (entry?: DiaryEntry | null): boolean => !!entry?.deletedAt;
+
+// The text goes; the entry's other fields stay, so restoring it from history brings them back
+export const createTombstone = (entry: Pick<DiaryEntry, 'id' | 'date'> & Partial<DiaryEntry>): DiaryEntry => {
+  const now = Date.now();
+  return {
+    id: entry.id,
+    date: entry.date,
+    title: entry.title,
+    content: '',
+    tags: entry.tags ?? [],
+    mood: entry.mood,
+    journalId: entry.journalId,
+    attachments: entry.attachments,
+    habits: entry.habits,
+    createdAt: entry.createdAt,
+    updatedAt: now,
+    deletedAt: now,
+  };
+};
+
+// Only entries that still exist (i.e. not tombstones)
+export const getLiveEntries = (entries: Record<string, DiaryEntry>): Record<string, DiaryEntry> => {
+  const live: Record<string, DiaryEntry> = {};
+  Object.values(entries).forEach((entry) => {
+    if (!isDeleted(entry)) live[entry.id] = entry;
+  });
+  return live;
+};
+
+// Drops expired tombstones and returns the ids that were purged locally.
+// Tombstones still waiting in the outbox are kept until the server has seen them.
+export const purgeExpiredTombstones = async (entries: Record<string, DiaryEntry>): Promise<string[]> => {
+  const cutoff = Date.now() - TOMBSTONE_RETENTION_MS;
+
+  try {
+    await purgeRemoteTombstones(cutoff);
+  } catch (err: any) {
+    // Not critical: the next start tries again
+    console.error('Failed to purge remote tombstones:', err?.message || err);
+  }
+
+  const pending = await getPendingIds();
+  const expired = Object.values(entries)
+    .filter((entry) => entry.deletedAt && entry.deletedAt < cutoff && !pending.has(entry.id))
+    .map((entry) => entry.id);
+
+  await Promise.all(expired.map((id) => deleteEntry(id)));
+  return expired;
+};
@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SYNC_BACKEND?: 'supabase' | 'local';
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_AUTH_PROVIDERS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}